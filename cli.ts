@@ -0,0 +1,217 @@
+import "./server/entorno";
+import fs from "fs";
+import { parseArgs } from "util";
+import { ejecutarComparacion, urlParaYear } from "./server/comparacion";
+import { compararLote } from "./server/lote";
+import { listarSnapshots, obtenerSnapshot } from "./server/snapshots";
+import { Reporte, generarCsv, generarCsvLote, generarXlsx } from "./server/exportar";
+import { ErrorNoEncontrado, ErrorSolicitud, respuestaError } from "./server/errores";
+import { entidadesDesdeTexto } from "./src/lib/lote";
+import { FORMATO_POR_DEFECTO, UNIDADES, UnidadMonto } from "./src/lib/format";
+import type { ApiResponse, EventoProgreso } from "./src/types";
+
+const AYUDA = `Uso:
+  npm run cli -- compare <url> [--years 2024 | 2019-2024] [--metric devengado] [--period anual|acumulado] [--month 1-12]
+                               [--offline] [--format json|csv|xlsx] [--unit soles|miles|millones] [--out archivo]
+  npm run cli -- batch <archivo> [--template url-con-{codigo}] [--metric devengado] [--period anual|acumulado] [--month 1-12]
+                               [--offline] [--format json|csv] [--out archivo]
+  npm run cli -- snapshot list [--url url] [--limit 100]
+  npm run cli -- snapshot export <id> [--out archivo]
+
+El archivo de un lote es el cuerpo JSON de /api/lote o un texto con una entidad por línea ("url | etiqueta";
+con --template, "código | etiqueta").
+
+Códigos de salida: 0 éxito, 1 error interno (500), 2 solicitud no válida (400), 3 no encontrado (404),
+4 error del MEF (502), 5 tiempo de espera agotado con el MEF (504).`;
+
+// Código de salida según el estado HTTP con que la API respondería el mismo error
+const CODIGOS_SALIDA: Record<number, number> = { 400: 2, 404: 3, 502: 4, 504: 5 };
+
+const OPCIONES = {
+  years: { type: "string" },
+  metric: { type: "string" },
+  period: { type: "string" },
+  month: { type: "string" },
+  offline: { type: "boolean" },
+  format: { type: "string" },
+  unit: { type: "string" },
+  out: { type: "string" },
+  template: { type: "string" },
+  url: { type: "string" },
+  limit: { type: "string" },
+  help: { type: "boolean", short: "h" }
+} as const;
+
+type Opciones = ReturnType<typeof leerArgumentos>["values"];
+
+function leerArgumentos(args: string[]) {
+  try {
+    return parseArgs({ args, options: OPCIONES, allowPositionals: true });
+  } catch (e: any) {
+    throw new ErrorSolicitud(`Argumentos no válidos: ${e.message}`);
+  }
+}
+
+// Opciones de /api/comparar comunes a compare y batch
+function opcionesComparacion(opciones: Opciones) {
+  return {
+    ...(opciones.metric && { metrica: opciones.metric }),
+    ...(opciones.period && { periodo: opciones.period }),
+    ...(opciones.month && { mesCorte: opciones.month }),
+    ...(opciones.offline && { modo: "offline" })
+  };
+}
+
+function leerFormato<T extends string>(formato: string | undefined, validos: T[]): T {
+  const elegido = (formato ?? validos[0]) as T;
+  if (!validos.includes(elegido)) {
+    const lista = validos.map(f => `'${f}'`);
+    throw new ErrorSolicitud(`El formato '${formato}' no es válido. Use ${lista.slice(0, -1).join(", ")} o ${lista[lista.length - 1]}.`);
+  }
+  return elegido;
+}
+
+function escribir(contenido: string | Buffer, out?: string) {
+  if (out) {
+    fs.writeFileSync(out, contenido);
+    console.error(`Escrito ${out}`);
+  } else {
+    process.stdout.write(contenido);
+  }
+}
+
+// El avance solo se muestra en una terminal, para no ensuciar los registros de cron
+function mostrarAvance(evento: EventoProgreso) {
+  if (!process.stderr.isTTY) return;
+  if (evento.tipo === "pagina") {
+    console.error(`  ${evento.entidad ? `${evento.entidad}: ` : ""}${evento.rotulo} (${evento.origen}, ${evento.filas} filas) ${evento.completadas}/${evento.total}`);
+  } else if (evento.tipo === "entidad") {
+    console.error(`${evento.ok ? "✓" : "✗"} ${evento.etiqueta} ${evento.completadas}/${evento.total}`);
+  }
+}
+
+function reporteDe(datos: ApiResponse, unidad: UnidadMonto): Reporte {
+  return {
+    metrica: datos.metrica,
+    yearAnterior: datos.yearAnterior,
+    yearActual: datos.yearActual,
+    etiquetas: datos.etiquetas,
+    corte: datos.periodo.tipo === "acumulado" ? ` · ${datos.periodo.etiqueta}` : undefined,
+    formato: { ...FORMATO_POR_DEFECTO, unidad },
+    filas: datos.data,
+    totales: datos.totales,
+    fuentes: datos.fuentes
+  };
+}
+
+async function comparar(posicionales: string[], opciones: Opciones) {
+  const [url] = posicionales;
+  if (!url) {
+    throw new ErrorSolicitud("La URL es requerida.");
+  }
+  const formato = leerFormato(opciones.format, ["json", "csv", "xlsx"]);
+  const unidad = (opciones.unit ?? FORMATO_POR_DEFECTO.unidad) as UnidadMonto;
+  if (!UNIDADES.some(u => u.id === unidad)) {
+    throw new ErrorSolicitud(`La unidad '${unidad}' no es válida.`);
+  }
+  if (formato === "xlsx" && !opciones.out) {
+    throw new ErrorSolicitud("Indique --out para guardar el archivo xlsx.");
+  }
+
+  // --years 2024 compara con 2023; --years 2019-2024 arma la serie completa
+  const body: Record<string, unknown> = { url, ...opcionesComparacion(opciones) };
+  if (opciones.years) {
+    const rango = opciones.years.match(/^(\d{4})(?:-(\d{4}))?$/);
+    if (!rango) {
+      throw new ErrorSolicitud("El rango de años debe tener la forma 2024 o 2019-2024.");
+    }
+    body.url = urlParaYear(url, Number(rango[2] ?? rango[1]));
+    if (rango[2]) body.yearInicio = Number(rango[1]);
+  }
+
+  const datos: ApiResponse = await ejecutarComparacion(body, { alAvanzar: mostrarAvance });
+  if (formato === "json") {
+    escribir(JSON.stringify(datos, null, 2) + "\n", opciones.out);
+    return;
+  }
+  const reporte = reporteDe(datos, unidad);
+  escribir(formato === "xlsx" ? await generarXlsx(reporte) : generarCsv(reporte), opciones.out);
+}
+
+async function lote(posicionales: string[], opciones: Opciones) {
+  const [archivo] = posicionales;
+  if (!archivo) {
+    throw new ErrorSolicitud("Indique el archivo con las entidades del lote.");
+  }
+  const formato = leerFormato(opciones.format, ["json", "csv"]);
+  let texto: string;
+  try {
+    texto = fs.readFileSync(archivo, "utf8");
+  } catch (e: any) {
+    throw new ErrorSolicitud(`No se pudo leer ${archivo}: ${e.message}`);
+  }
+
+  let body: Record<string, unknown>;
+  if (archivo.endsWith(".json")) {
+    try {
+      body = JSON.parse(texto);
+    } catch (e: any) {
+      throw new ErrorSolicitud(`${archivo} no es un JSON válido: ${e.message}`);
+    }
+  } else {
+    const modo = opciones.template ? "codigos" : "urls";
+    body = { entidades: entidadesDesdeTexto({ modo, plantilla: opciones.template ?? "", texto }) };
+  }
+  body = { ...body, ...(opciones.template && { plantilla: opciones.template }), ...opcionesComparacion(opciones) };
+
+  const resultado = await compararLote(body, { alAvanzar: mostrarAvance });
+  resultado.resultados.forEach(r => {
+    if ("error" in r) console.error(`${r.etiqueta}: ${r.error}`);
+  });
+  escribir(formato === "csv" ? generarCsvLote(resultado) : JSON.stringify(resultado, null, 2) + "\n", opciones.out);
+}
+
+function snapshots(posicionales: string[], opciones: Opciones) {
+  const [accion, id] = posicionales;
+  if (accion === "list") {
+    const limite = Math.min(Math.max(Number(opciones.limit) || 100, 1), 1000);
+    listarSnapshots(opciones.url, limite).forEach(s => {
+      console.log(`${s.id}\t${s.fetchedAt}\t${s.year}\t${s.url}`);
+    });
+    return;
+  }
+  if (accion === "export") {
+    if (!id || !/^\d+$/.test(id)) {
+      throw new ErrorSolicitud("Indique el id numérico de la captura (ver snapshot list).");
+    }
+    const snapshot = obtenerSnapshot(Number(id));
+    if (!snapshot) {
+      throw new ErrorNoEncontrado("La captura no existe.");
+    }
+    escribir(JSON.stringify(snapshot, null, 2) + "\n", opciones.out);
+    return;
+  }
+  throw new ErrorSolicitud(`La acción '${accion ?? ""}' no es válida. Use 'list' o 'export'.`);
+}
+
+async function main() {
+  const [comando, ...resto] = process.argv.slice(2);
+  const { values: opciones, positionals } = leerArgumentos(resto);
+  if (!comando || opciones.help || comando === "help") {
+    console.log(AYUDA);
+    return;
+  }
+  if (comando === "compare") return comparar(positionals, opciones);
+  if (comando === "batch") return lote(positionals, opciones);
+  if (comando === "snapshot") return snapshots(positionals, opciones);
+  throw new ErrorSolicitud(`El comando '${comando}' no es válido. Use compare, batch o snapshot.`);
+}
+
+main().then(
+  () => process.exit(0),
+  (error: any) => {
+    const { estado, cuerpo } = respuestaError(error);
+    console.error(`Error: ${cuerpo.error}`);
+    process.exit(CODIGOS_SALIDA[estado] ?? 1);
+  }
+);
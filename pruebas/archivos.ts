@@ -0,0 +1,71 @@
+// Comprueba la carga de páginas guardadas y ZIP: el año de cada página, el límite de entradas de un
+// ZIP y que los años de un grupo no se mezclen con los de otro. Usa una base SQLite temporal.
+// Uso: npm run test:archivos
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { fileURLToPath } from "url";
+import JSZip from "jszip";
+
+const PAGINA = fs.readFileSync(path.join(path.dirname(fileURLToPath(import.meta.url)), "paginas", "gasto-2024.html"), "utf-8");
+
+// La base se abre al cargar los módulos del servidor, así que la ruta se fija antes de importarlos
+const DIRECTORIO = fs.mkdtempSync(path.join(os.tmpdir(), "mef-archivos-"));
+process.env.MEF_DB_PATH = path.join(DIRECTORIO, "pruebas.db");
+const { cargarArchivos } = await import("../server/archivos");
+
+// La página de muestra con el año cambiado en su formulario, el único lugar donde aparece
+const paginaDe = (year: number) => PAGINA.replace(/2024/g, String(year));
+const html = (nombre: string, contenido: string) => ({ nombre, contenido: Buffer.from(contenido).toString("base64") });
+const zip = async (nombre: string, entradas: Record<string, string>) => {
+  const archivo = new JSZip();
+  Object.entries(entradas).forEach(([ruta, contenido]) => archivo.file(ruta, contenido));
+  return { nombre, contenido: (await archivo.generateAsync({ type: "nodebuffer", compression: "DEFLATE" })).toString("base64") };
+};
+
+const casos: [string, () => Promise<void>][] = [
+  ["un ZIP con carpetas carga cada página con su año", async () => {
+    const resultado = await cargarArchivos([await zip("consultas.zip", {
+      "2023/consulta.html": paginaDe(2023),
+      "2024/consulta.htm": paginaDe(2024),
+      "__MACOSX/2024/._consulta.htm": "",
+      "leeme.txt": "sin páginas"
+    })], "serie");
+    assert.deepEqual(resultado.paginas, [
+      { nombre: "consulta.html", year: 2023, conceptos: 2 },
+      { nombre: "consulta.htm", year: 2024, conceptos: 2 }
+    ]);
+    assert.deepEqual(resultado.years, [2023, 2024]);
+    assert.equal(resultado.url, "archivo://serie/consulta?y=2024");
+  }],
+  ["un ZIP con demasiadas entradas se rechaza", async () => {
+    const entradas = Object.fromEntries(Array.from({ length: 501 }, (_, i) => [`vacio-${i}.txt`, ""]));
+    await assert.rejects(cargarArchivos([await zip("muchas.zip", entradas)]), /más de 500 entradas/);
+  }],
+  ["los años de un grupo no incluyen los de otro con un nombre parecido", async () => {
+    await cargarArchivos([html("otra.html", paginaDe(2021))], "grupoxb");
+    const resultado = await cargarArchivos([html("propia.html", paginaDe(2022))], "grupo_b");
+    // En LIKE el "_" de grupo_b también coincidiría con grupoxb
+    assert.deepEqual(resultado.years, [2022]);
+  }],
+  ["dos páginas del mismo año se rechazan", async () => {
+    await assert.rejects(cargarArchivos([html("a.html", paginaDe(2024)), html("b.html", paginaDe(2024))]), /más de una página para el año 2024/);
+  }]
+];
+
+let fallidos = 0;
+for (const [nombre, caso] of casos) {
+  try {
+    await caso();
+    console.log(`ok   ${nombre}`);
+  } catch (error: any) {
+    fallidos++;
+    console.error(`FALLA ${nombre}\n${error.message}`);
+  }
+}
+fs.rmSync(DIRECTORIO, { recursive: true, force: true });
+if (fallidos) {
+  console.error(`${fallidos} de ${casos.length} casos fallaron.`);
+  process.exit(1);
+}
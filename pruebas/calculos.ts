@@ -0,0 +1,292 @@
+// Comprueba los cálculos de la comparación contra valores calculados a mano: variaciones, CAGR,
+// totales de la serie, indicadores derivados, el acumulado al mes de corte, los precios constantes,
+// las unidades de presentación, la contribución de cada concepto a la variación total y la proyección
+// al cierre. Usa una base SQLite temporal y no accede a la red.
+// Uso: npm run test:calculos
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+// La base se abre al cargar los módulos del servidor, así que la ruta se fija antes de importarlos
+const DIRECTORIO = fs.mkdtempSync(path.join(os.tmpdir(), "mef-calculos-"));
+process.env.MEF_DB_PATH = path.join(DIRECTORIO, "pruebas.db");
+const { calcularCagr, calcularVariacion, compararSerie } = await import("../server/comparacion");
+const { acumularHastaMes, filaVacia, getMetrica, sumarFilas } = await import("../src/lib/metricas");
+const { etiquetaPeriodo, mesCerradoPorDefecto } = await import("../src/lib/periodo");
+const { factoresDeflactor, guardarSerie, parseDeflactorCsv } = await import("../server/deflactores");
+const { escalarMonto, formatMonto, formatVariacion } = await import("../src/lib/format");
+const { conceptosParaCubrir, filasPareto, pasosCascada } = await import("../src/lib/contribucion");
+const { proyectarCierre } = await import("../server/proyeccion");
+type ConceptoData = import("../src/types").ConceptoData;
+type FilaMef = import("../src/lib/metricas").FilaMef;
+type Pagina = import("../server/snapshots").Pagina;
+
+const fila = (valores: Partial<FilaMef>): FilaMef => ({ ...filaVacia(), ...valores });
+
+const concepto = (nombre: string, montoAnterior: number, montoActual: number): ConceptoData => ({
+  concepto: nombre,
+  montoAnterior,
+  montoActual,
+  ...calcularVariacion(montoAnterior, montoActual),
+  emparejamientos: []
+});
+
+// Ejecución mensual con un monto fijo en cada semestre
+const semestres = (primero: number, segundo: number) => [...Array(6).fill(primero), ...Array(6).fill(segundo)];
+const pagina = (year: number, mensual?: Record<string, number[]>): Pagina => ({
+  url: `archivo://prueba/consulta?y=${year}`,
+  year,
+  fetchedAt: "",
+  origen: "archivo",
+  datos: { tipo: "gasto", filas: {}, columnas: [], encabezado: [], mensual }
+});
+
+// Iguales salvo el error de redondeo de punto flotante
+const cerca = (obtenido: number | null | undefined, esperado: number) =>
+  assert.ok(obtenido != null && Math.abs(obtenido - esperado) < 1e-9, `se esperaba ${esperado} y se obtuvo ${obtenido}`);
+
+const casos: [string, () => void][] = [
+  ["variación en soles y en porcentaje", () => {
+    assert.deepEqual(calcularVariacion(80, 100), { variacionS: 20, variacionPorcentaje: 25, nuevo: false });
+    assert.deepEqual(calcularVariacion(100, 0), { variacionS: -100, variacionPorcentaje: -100, nuevo: false });
+    assert.deepEqual(calcularVariacion(0, 0), { variacionS: 0, variacionPorcentaje: 0, nuevo: false });
+  }],
+  ["un concepto que pasa de 0 a un monto es nuevo y no tiene variación %", () => {
+    assert.deepEqual(calcularVariacion(0, 50), { variacionS: 50, variacionPorcentaje: null, nuevo: true });
+  }],
+  ["CAGR de la serie", () => {
+    // 100 → 121 en dos años es 10 % anual
+    cerca(calcularCagr(100, 121, 2), 10);
+    // 1 000 → 810 en dos años es −10 % anual
+    cerca(calcularCagr(1000, 810, 2), -10);
+    assert.equal(calcularCagr(0, 121, 2), null);
+    assert.equal(calcularCagr(100, 0, 2), null);
+    assert.equal(calcularCagr(100, 121, 0), null);
+  }],
+  ["serie de varios años: montos, variaciones, extremos y totales", () => {
+    const years = [2022, 2023, 2024];
+    const datos = [
+      { "A": fila({ devengado: 100 }) },
+      { "A": fila({ devengado: 110 }), "B": fila({ devengado: 50 }) },
+      { "A": fila({ devengado: 121 }), "B": fila({ devengado: 40 }) }
+    ];
+    const { data, totales, serie } = compararSerie(years, datos, getMetrica("devengado")!);
+
+    const [a, b] = serie.data;
+    assert.deepEqual(a.montos, [100, 110, 121]);
+    assert.deepEqual(a.variaciones.map(v => v.year), [2023, 2024]);
+    a.variaciones.forEach(v => cerca(v.variacionPorcentaje, 10));
+    cerca(a.cagr, 10);
+    // Un año sin el concepto cuenta como cero y deja el CAGR sin definir
+    assert.deepEqual(b.montos, [0, 50, 40]);
+    assert.equal(b.cagr, null);
+    assert.equal(b.yearMax, 2023);
+    assert.equal(b.yearMin, 2022);
+    assert.equal(b.variaciones[0].nuevo, true);
+
+    assert.deepEqual(serie.totales, [{ year: 2022, monto: 100 }, { year: 2023, monto: 160 }, { year: 2024, monto: 161 }]);
+    // La vista de dos columnas compara los dos últimos años, ordenada por variación en soles
+    assert.deepEqual(data.map(item => [item.concepto, item.montoAnterior, item.montoActual, item.variacionS]), [["A", 110, 121, 11], ["B", 50, 40, -10]]);
+    assert.equal(totales.montoAnterior, 160);
+    assert.equal(totales.montoActual, 161);
+    cerca(totales.variacionPorcentaje, 0.625);
+  }],
+  ["indicadores derivados: devengado / PIM y modificaciones", () => {
+    const ejecucion = getMetrica("ejecucionPim")!;
+    const modificaciones = getMetrica("modificaciones")!;
+    cerca(ejecucion.valor(fila({ pim: 200, devengado: 150 })), 75);
+    // Sin PIM no hay avance que medir
+    assert.equal(ejecucion.valor(fila({ pim: 0, devengado: 10 })), 0);
+    assert.equal(modificaciones.valor(fila({ pia: 120, pim: 150 })), 30);
+    assert.equal(modificaciones.valor(fila({ pia: 150, pim: 120 })), -30);
+    cerca(getMetrica("recaudacionPim")!.valor(fila({ pim: 400, recaudado: 100 })), 25);
+  }],
+  ["los porcentajes del total se recalculan sobre las columnas sumadas", () => {
+    const datos = [
+      { "X": fila({ pim: 200, devengado: 100 }), "Y": fila({ pim: 100, devengado: 10 }) },
+      { "X": fila({ pim: 200, devengado: 150 }), "Y": fila({ pim: 100, devengado: 25 }) }
+    ];
+    // Con factores de deflactor los porcentajes no cambian
+    const { data, totales, serie } = compararSerie([2023, 2024], datos, getMetrica("ejecucionPim")!, undefined, {}, { 2023: 2, 2024: 1 });
+    cerca(data.find(item => item.concepto === "X")!.montoActual, 75);
+    cerca(data.find(item => item.concepto === "Y")!.montoAnterior, 10);
+    // 110 / 300 y 175 / 300, no la suma ni el promedio de los porcentajes
+    cerca(totales.montoAnterior, 110 / 3);
+    cerca(totales.montoActual, 175 / 3);
+    assert.ok(serie.data.every(item => item.cagr === null));
+    cerca(sumarFilas(Object.values(datos[1])).avance, 175 / 3);
+  }],
+  ["acumulado de enero al mes de corte", () => {
+    const mensual = [10, 20, 30, 40, 50, 60, 70, 80, 90, 100, 110, 120];
+    const acumulada = acumularHastaMes(fila({ pim: 1000, devengado: 780 }), mensual, 3);
+    // 10 + 20 + 30, y el avance sobre el PIM anual
+    assert.equal(acumulada.devengado, 60);
+    cerca(acumulada.avance, 6);
+    assert.equal(acumulada.pim, 1000);
+    assert.equal(acumularHastaMes(fila({ devengado: 780 }), mensual, 12).devengado, 780);
+    // En una consulta de ingreso se acumula el recaudado
+    const ingreso = acumularHastaMes(fila({ pim: 500, recaudado: 300 }), [25, 25, 50], 2, "recaudado");
+    assert.equal(ingreso.recaudado, 50);
+    assert.equal(ingreso.devengado, 0);
+    // Sin ejecución mensual el acumulado es cero
+    assert.equal(acumularHastaMes(fila({ pim: 100, devengado: 80 }), [], 6).devengado, 0);
+  }],
+  ["el mes de corte por defecto es el último mes cerrado", () => {
+    const hoy = new Date(2024, 4, 15); // 15 de mayo de 2024
+    assert.equal(mesCerradoPorDefecto(2024, hoy), 4);
+    assert.equal(mesCerradoPorDefecto(2023, hoy), 12);
+    // En enero todavía no hay un mes cerrado: se usa enero
+    assert.equal(mesCerradoPorDefecto(2024, new Date(2024, 0, 10)), 1);
+    assert.equal(etiquetaPeriodo({ tipo: "acumulado", mesCorte: 4 }), "Enero–Abril");
+    assert.equal(etiquetaPeriodo({ tipo: "acumulado", mesCorte: 1 }), "Enero");
+    assert.equal(etiquetaPeriodo({ tipo: "anual" }), "Año completo");
+  }],
+  ["archivo de deflactores con coma o punto y coma", () => {
+    assert.deepEqual(parseDeflactorCsv("periodo,indice\n2023,108.5\n2024-3,110\n"), [
+      { periodo: "2023", indice: 108.5 },
+      { periodo: "2024-03", indice: 110 }
+    ]);
+    // Con punto y coma la coma es decimal y el punto separa miles
+    assert.deepEqual(parseDeflactorCsv("Periodo;Índice\r\n03/2024;\"1.234,56\"\r\n2023;102,5\r\n2022;98.25"), [
+      { periodo: "2024-03", indice: 1234.56 },
+      { periodo: "2023", indice: 102.5 },
+      { periodo: "2022", indice: 98.25 }
+    ]);
+    assert.throws(() => parseDeflactorCsv("2023,100\nabc,101"), /Línea 2/);
+    assert.throws(() => parseDeflactorCsv("2023,0"), /mayor que cero/);
+  }],
+  ["factores a precios del año base con la tabla de índices", () => {
+    guardarSerie("prueba", [
+      { periodo: "2022", indice: 100 },
+      { periodo: "2023", indice: 110 },
+      { periodo: "2024-01", indice: 120 },
+      { periodo: "2024-02", indice: 124 }
+    ]);
+    // 2024 sin índice anual es el promedio de sus meses: 122
+    const { factores, estimados } = factoresDeflactor("prueba", [2022, 2023, 2024], 2024);
+    cerca(factores[2022], 1.22);
+    cerca(factores[2023], 122 / 110);
+    cerca(factores[2024], 1);
+    assert.deepEqual(estimados, []);
+    // Con mes de corte el año base promedia solo los meses hasta el corte
+    cerca(factoresDeflactor("prueba", [2022, 2024], 2024, 1).factores[2022], 1.2);
+    // Un año posterior al último índice se deflacta con el último y se marca como estimado
+    const conEstimado = factoresDeflactor("prueba", [2023, 2025], 2025);
+    cerca(conEstimado.factores[2023], 122 / 110);
+    cerca(conEstimado.factores[2025], 1);
+    assert.deepEqual(conEstimado.estimados, [2025]);
+    assert.throws(() => factoresDeflactor("prueba", [2019, 2024], 2024), /no tiene índice para 2019/);
+    assert.throws(() => factoresDeflactor("otra", [2024], 2024), /no existe/);
+  }],
+  ["variación real con los montos a precios constantes", () => {
+    const datos = [{ "A": fila({ devengado: 100 }) }, { "A": fila({ devengado: 122 }) }];
+    // A precios de 2024 los 100 de 2022 valen 122: no hubo crecimiento real
+    const { totales } = compararSerie([2022, 2024], datos, getMetrica("devengado")!, undefined, {}, { 2022: 1.22, 2024: 1 });
+    cerca(totales.montoAnterior, 122);
+    cerca(totales.variacionS, 0);
+    cerca(totales.variacionPorcentaje, 0);
+  }],
+  ["los montos se entregan en soles sin redondear y la unidad es solo de presentación", () => {
+    const datos = [{ "A": fila({ devengado: 1_234_567.89 }), "B": fila({ devengado: 0.11 }) }, { "A": fila({ devengado: 2_500_000 }) }];
+    const { totales } = compararSerie([2023, 2024], datos, getMetrica("devengado")!);
+    cerca(totales.montoAnterior, 1_234_568);
+    cerca(totales.variacionS, 1_265_432);
+    assert.equal(escalarMonto(2_500_000, "millones"), 2.5);
+    assert.equal(escalarMonto(2_500_000, "miles"), 2500);
+    assert.equal(formatMonto(1_234_567.89, { unidad: "soles", decimales: 2 }), "1 234 567.89");
+    assert.equal(formatMonto(1_234_567.89, { unidad: "millones", decimales: 1 }), "1.2");
+    // Una variación que se redondea a cero en la unidad elegida no lleva signo
+    assert.equal(formatVariacion(-400, "monto", { unidad: "miles", decimales: 0 }), "0");
+    assert.equal(formatVariacion(-1_500, "monto", { unidad: "miles", decimales: 0 }), "-2");
+  }],
+  ["la cascada va del total anterior al actual pasando por cada contribución", () => {
+    const data = [concepto("A", 50, 80), concepto("B", 30, 10), concepto("C", 15, 20), concepto("D", 5, 4)];
+    const totales = { montoAnterior: 100, montoActual: 114, ...calcularVariacion(100, 114) };
+    const pasos = pasosCascada(data, totales, 1, { anterior: "2023", actual: "2024" });
+    // La mayor alza, la mayor baja y el resto (+5 − 1) en "Otros"
+    assert.deepEqual(pasos.map(paso => [paso.etiqueta, paso.valor, paso.base, paso.alto]), [
+      ["2023", 100, 0, 100],
+      ["A", 30, 100, 30],
+      ["B", -20, 110, 20],
+      ["Otros", 4, 110, 4],
+      ["2024", 114, 0, 114]
+    ]);
+  }],
+  ["participación de cada concepto en la variación absoluta total", () => {
+    const data = [concepto("A", 50, 80), concepto("B", 30, 10), concepto("C", 15, 20), concepto("D", 5, 4)];
+    // Variación absoluta total: 30 + 20 + 5 + 1 = 56
+    const filas = filasPareto(data, 2);
+    assert.deepEqual(filas.map(f => [f.etiqueta, f.variacion, f.absoluta]), [["A", 30, 30], ["B", -20, 20], ["Otros (2)", 4, 6]]);
+    cerca(filas[0].participacion, 30 / 56 * 100);
+    cerca(filas[1].acumulada, 50 / 56 * 100);
+    cerca(filas[2].acumulada, 100);
+    // El 80 % de 56 (44.8) se cubre con A y B
+    assert.equal(conceptosParaCubrir(data, 80), 2);
+    assert.equal(conceptosParaCubrir(data, 100), 4);
+  }],
+  ["proyección al cierre con el perfil propio, el agregado y la banda por año", () => {
+    // A se llamaba "A VIEJO" en 2022; B solo tiene historia en 2023
+    const paginas = [
+      pagina(2022, { "A VIEJO": semestres(10, 10) }),
+      pagina(2023, { A: semestres(15, 5), B: semestres(5, 5) }),
+      pagina(2024, { A: semestres(25, 0), B: semestres(10, 0) })
+    ];
+    const proyeccion = proyectarCierre([2022, 2023, 2024], paginas, { A: fila({ pim: 250 }), B: fila({ pim: 160 }) }, {
+      A: [{ year: 2022, concepto: "A VIEJO", metodo: "manual" }]
+    }, 6)!;
+    assert.equal(proyeccion.year, 2024);
+    assert.deepEqual(proyeccion.yearsHistoria, [2022, 2023]);
+
+    // Total: a junio se ejecutó el 60 / 120 de 2022 y el 120 / 180 de 2023, en promedio 7/12
+    const { total, conceptos: { A, B } } = proyeccion;
+    assert.deepEqual(total.mensual, [35, 70, 105, 140, 175, 210]);
+    cerca(total.curva[5], 7 / 12);
+    cerca(total.proyeccion, 360);
+    cerca(total.minimo, 315);
+    cerca(total.maximo, 420);
+    // La meta es el 90 % de 410 (369): la proyección no llega, el año más rápido sí
+    assert.equal(total.estado, "rezagado");
+
+    // A usa su propio perfil (1/2 y 3/4 a junio) gracias al emparejamiento con 2022
+    assert.equal(A.perfil, "propio");
+    assert.equal(A.years, 2);
+    assert.equal(A.acumulado, 150);
+    cerca(A.proyeccion, 240);
+    cerca(A.minimo, 200);
+    cerca(A.maximo, 300);
+    cerca(A.avanceProyectado, 96);
+    assert.equal(A.estado, "en_camino");
+
+    // B usa el perfil del total; ni al ritmo de 2022 llega a la meta de 144
+    assert.equal(B.perfil, "agregado");
+    cerca(B.proyeccion, 60 / (7 / 12));
+    cerca(B.minimo, 90);
+    cerca(B.maximo, 120);
+    assert.equal(B.estado, "en_riesgo");
+  }],
+  ["sin historia, con el año cerrado o sin la vista mensual no hay proyección", () => {
+    const filas = { A: fila({ pim: 100 }) };
+    const paginas = [pagina(2023, { A: semestres(10, 10) }), pagina(2024, { A: semestres(10, 0) })];
+    assert.notEqual(proyectarCierre([2023, 2024], paginas, filas, {}, 6), null);
+    assert.equal(proyectarCierre([2024], paginas.slice(1), filas, {}, 6), null);
+    assert.equal(proyectarCierre([2023, 2024], paginas, filas, {}, 12), null);
+    assert.equal(proyectarCierre([2023, 2024], [pagina(2023), paginas[1]], filas, {}, 6), null);
+  }]
+];
+
+let fallidos = 0;
+for (const [nombre, caso] of casos) {
+  try {
+    caso();
+    console.log(`ok   ${nombre}`);
+  } catch (error: any) {
+    fallidos++;
+    console.error(`FALLA ${nombre}\n${error.message}`);
+  }
+}
+fs.rmSync(DIRECTORIO, { recursive: true, force: true });
+if (fallidos) {
+  console.error(`${fallidos} de ${casos.length} casos fallaron.`);
+  process.exit(1);
+}
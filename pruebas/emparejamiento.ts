@@ -0,0 +1,113 @@
+// Comprueba cómo se unen los conceptos entre años: nombre idéntico, equivalencia manual, código y
+// similitud del texto. Usa una base SQLite temporal para las equivalencias manuales.
+// Uso: npm run test:emparejamiento
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+// La base se abre al cargar los módulos del servidor, así que la ruta se fija antes de importarlos
+const DIRECTORIO = fs.mkdtempSync(path.join(os.tmpdir(), "mef-emparejamiento-"));
+process.env.MEF_DB_PATH = path.join(DIRECTORIO, "pruebas.db");
+const { eliminarMapeo, emparejarConceptos, guardarMapeo, listarMapeos, normalizarConcepto } = await import("../server/emparejamiento");
+const { filaVacia } = await import("../src/lib/metricas");
+const { respuestaError } = await import("../server/errores");
+type FilaMef = import("../src/lib/metricas").FilaMef;
+
+// Filas de un año con el devengado de cada concepto
+const year = (devengados: Record<string, number>) =>
+  Object.fromEntries(Object.entries(devengados).map(([concepto, devengado]) => [concepto, { ...filaVacia(), devengado }])) as Record<string, FilaMef>;
+
+const devengados = (filas: Record<string, FilaMef>) =>
+  Object.fromEntries(Object.entries(filas).map(([concepto, fila]) => [concepto, fila.devengado]));
+
+const estado = (accion: () => void) => {
+  try {
+    accion();
+  } catch (error) {
+    return respuestaError(error).estado;
+  }
+  assert.fail("debía fallar");
+};
+
+const casos: [string, () => void][] = [
+  ["los conceptos se normalizan sin tildes ni espacios sobrantes", () => {
+    assert.equal(normalizarConcepto("  0068:  EDUCACIÓN   BÁSICA\tREGULAR "), "0068: EDUCACION BASICA REGULAR");
+  }],
+  ["un nombre idéntico se une sin registrar emparejamiento", () => {
+    const { datosPorYear, emparejamientos } = emparejarConceptos([2023, 2024], [year({ "10: EDUCACION": 5 }), year({ "10: EDUCACION": 7 })]);
+    assert.deepEqual(devengados(datosPorYear[0]), { "10: EDUCACION": 5 });
+    assert.deepEqual(emparejamientos, {});
+  }],
+  ["un concepto renombrado con el mismo código se une por código", () => {
+    const { datosPorYear, emparejamientos } = emparejarConceptos([2023, 2024], [
+      year({ "0068: REDUCCION DE VULNERABILIDAD Y ATENCION DE EMERGENCIAS": 40 }),
+      year({ "0068: GESTION DEL RIESGO DE DESASTRES": 55 })
+    ]);
+    assert.deepEqual(devengados(datosPorYear[0]), { "0068: GESTION DEL RIESGO DE DESASTRES": 40 });
+    assert.deepEqual(emparejamientos["0068: GESTION DEL RIESGO DE DESASTRES"], [
+      { year: 2023, concepto: "0068: REDUCCION DE VULNERABILIDAD Y ATENCION DE EMERGENCIAS", metodo: "codigo" }
+    ]);
+  }],
+  ["un código repetido no se une por código", () => {
+    const { datosPorYear } = emparejarConceptos([2023, 2024], [
+      year({ "0001: PROYECTO NORTE": 1, "0001: PROYECTO SUR": 2 }),
+      year({ "0001: OBRA CENTRAL": 3 })
+    ]);
+    assert.deepEqual(Object.keys(datosPorYear[0]).sort(), ["0001: PROYECTO NORTE", "0001: PROYECTO SUR"]);
+  }],
+  ["un nombre con cambios menores se une por similitud", () => {
+    const { datosPorYear, emparejamientos } = emparejarConceptos([2023, 2024], [
+      year({ "ADQUISICION DE ACTIVOS NO FINANCIEROS": 10, "DONACIONES Y TRANSFERENCIAS": 4 }),
+      year({ "ADQUISICION DE LOS ACTIVOS NO FINANCIEROS": 12, "SERVICIO DE LA DEUDA PUBLICA": 6 })
+    ]);
+    assert.deepEqual(devengados(datosPorYear[0]), { "ADQUISICION DE LOS ACTIVOS NO FINANCIEROS": 10, "DONACIONES Y TRANSFERENCIAS": 4 });
+    const [emparejamiento] = emparejamientos["ADQUISICION DE LOS ACTIVOS NO FINANCIEROS"];
+    assert.equal(emparejamiento.metodo, "similitud");
+    assert.ok(emparejamiento.similitud! >= 0.85 && emparejamiento.similitud! < 1, `similitud ${emparejamiento.similitud}`);
+  }],
+  ["textos iguales con códigos distintos no se unen", () => {
+    const { datosPorYear, emparejamientos } = emparejarConceptos([2023, 2024], [year({ "0001: SALUD INDIVIDUAL": 1 }), year({ "0002: SALUD INDIVIDUAL": 2 })]);
+    assert.deepEqual(Object.keys(datosPorYear[0]), ["0001: SALUD INDIVIDUAL"]);
+    assert.deepEqual(emparejamientos, {});
+  }],
+  ["las equivalencias manuales se encadenan y prevalecen sobre la similitud", () => {
+    guardarMapeo("PROGRAMA A", "PROGRAMA B");
+    guardarMapeo("PROGRAMA B", "PROGRAMA C");
+    // Dos conceptos anteriores hacia uno nuevo (una fusión) suman sus montos
+    guardarMapeo("SEDE NORTE", "SEDE UNICA");
+    guardarMapeo("SEDE SUR", "SEDE UNICA");
+    const { datosPorYear, emparejamientos } = emparejarConceptos([2022, 2023, 2024], [
+      year({ "PROGRAMA A": 1 }),
+      year({ "PROGRAMA B": 2, "SEDE NORTE": 3, "SEDE SUR": 4 }),
+      year({ "PROGRAMA C": 5, "PROGRAMA D": 6, "SEDE UNICA": 9 })
+    ]);
+    assert.deepEqual(devengados(datosPorYear[0]), { "PROGRAMA C": 1 });
+    assert.deepEqual(devengados(datosPorYear[1]), { "PROGRAMA C": 2, "SEDE UNICA": 7 });
+    assert.deepEqual(emparejamientos["PROGRAMA C"].map(e => [e.year, e.concepto, e.metodo]), [[2023, "PROGRAMA B", "manual"], [2022, "PROGRAMA A", "manual"]]);
+  }],
+  ["una equivalencia no válida responde 400 y una inexistente 404", () => {
+    assert.equal(estado(() => guardarMapeo(" ", "PROGRAMA C")), 400);
+    assert.equal(estado(() => guardarMapeo("Programa C", "Programa C")), 400);
+    assert.equal(estado(() => eliminarMapeo(9999)), 404);
+    const { id } = listarMapeos().find(mapeo => mapeo.anterior === "SEDE SUR")!;
+    eliminarMapeo(id);
+    assert.equal(listarMapeos().some(mapeo => mapeo.anterior === "SEDE SUR"), false);
+  }]
+];
+
+let fallidos = 0;
+for (const [nombre, caso] of casos) {
+  try {
+    caso();
+    console.log(`ok   ${nombre}`);
+  } catch (error: any) {
+    fallidos++;
+    console.error(`FALLA ${nombre}\n${error.message}`);
+  }
+}
+fs.rmSync(DIRECTORIO, { recursive: true, force: true });
+if (fallidos) {
+  console.error(`${fallidos} de ${casos.length} casos fallaron.`);
+  process.exit(1);
+}
@@ -0,0 +1,73 @@
+// Comprueba el CSV exportado: comillas donde hacen falta y textos que una hoja de cálculo tomaría
+// como fórmula.
+// Uso: npm run test:exportar
+import assert from "node:assert/strict";
+import { Reporte, generarCsv, generarCsvLote } from "../server/exportar";
+import type { ConceptoData } from "../src/types";
+
+const concepto = (nombre: string, montoAnterior: number, montoActual: number): ConceptoData => ({
+  concepto: nombre,
+  montoAnterior,
+  montoActual,
+  variacionS: montoActual - montoAnterior,
+  variacionPorcentaje: montoAnterior ? (montoActual / montoAnterior) * 100 - 100 : 0,
+  nuevo: false,
+  emparejamientos: []
+});
+
+const reporte = (filas: ConceptoData[]): Reporte => ({
+  metrica: { id: "devengado", etiqueta: "Devengado", abreviatura: "DEV", tipo: "monto" },
+  yearAnterior: 2023,
+  yearActual: 2024,
+  formato: { unidad: "soles", decimales: 0 },
+  filas,
+  totales: { montoAnterior: 0, montoActual: 0, variacionS: 0, variacionPorcentaje: 0, nuevo: false },
+  fuentes: []
+});
+
+// Líneas del CSV sin el BOM ni el salto final
+const lineas = (csv: string) => csv.replace(/^﻿/, "").replace(/\r\n$/, "").split("\r\n");
+
+const casos: [string, () => void][] = [
+  ["los textos que empiezan como fórmula se anteponen con '", () => {
+    const [, ...filas] = lineas(generarCsv(reporte([
+      concepto("=HYPERLINK(\"http://example.com\")", 200, 150),
+      concepto("+51 ADICIONAL", 200, 150),
+      concepto("-AJUSTE", 200, 150),
+      concepto("@SUMA", 200, 150)
+    ])));
+    assert.deepEqual(filas.slice(0, 4), [
+      `"'=HYPERLINK(""http://example.com"")",200,150,-50,-25,`,
+      `'+51 ADICIONAL,200,150,-50,-25,`,
+      `'-AJUSTE,200,150,-50,-25,`,
+      `'@SUMA,200,150,-50,-25,`
+    ]);
+  }],
+  ["los números negativos se escriben sin prefijo", () => {
+    const [, fila] = lineas(generarCsv(reporte([concepto("10: EDUCACION", 0.5, -1.5)])));
+    assert.equal(fila, "10: EDUCACION,0.5,-1.5,-2,-400,");
+  }],
+  ["comas, comillas y saltos de línea, también \\r, van entre comillas", () => {
+    const [, ...filas] = lineas(generarCsv(reporte([concepto("A, B", 1, 1), concepto("dice \"hola\"", 1, 1), concepto("uno\rdos", 1, 1)])));
+    assert.deepEqual(filas.slice(0, 3), [`"A, B",1,1,0,0,`, `"dice ""hola""",1,1,0,0,`, `"uno\rdos",1,1,0,0,`]);
+  }],
+  ["en el lote el mensaje de error también se protege", () => {
+    const [, fila] = lineas(generarCsvLote({ resultados: [{ etiqueta: "-Entidad", url: "https://apps5.mineco.gob.pe/transparencia/?y=2024", ok: false, error: "=ERROR" }] }));
+    assert.equal(fila, "'-Entidad,https://apps5.mineco.gob.pe/transparencia/?y=2024,,,,,,,,'=ERROR");
+  }]
+];
+
+let fallidos = 0;
+for (const [nombre, caso] of casos) {
+  try {
+    caso();
+    console.log(`ok   ${nombre}`);
+  } catch (error: any) {
+    fallidos++;
+    console.error(`FALLA ${nombre}\n${error.message}`);
+  }
+}
+if (fallidos) {
+  console.error(`${fallidos} de ${casos.length} casos fallaron.`);
+  process.exit(1);
+}
@@ -0,0 +1,78 @@
+// Comprueba el parser de Consulta Amigable contra páginas de muestra guardadas, sin acceso a la red.
+// Uso: npm run test:parser
+import assert from "node:assert/strict";
+import fs from "fs";
+import path from "path";
+import { fileURLToPath } from "url";
+import { parseMefHtml } from "../server/scraper";
+
+const PAGINAS = path.join(path.dirname(fileURLToPath(import.meta.url)), "paginas");
+
+const leer = (nombre: string) => parseMefHtml(fs.readFileSync(path.join(PAGINAS, nombre), "utf-8"));
+
+const casos: [string, () => void][] = [
+  ["gasto con encabezado en una tabla aparte", () => {
+    const datos = leer("gasto-2024.html");
+    assert.equal(datos.tipo, "gasto");
+    assert.deepEqual(datos.columnas, ["pia", "pim", "certificacion", "compromisoAnual", "atencionCompromisoMensual", "devengado", "girado", "avance"]);
+    // La fila TOTAL no es un concepto y los nombres se guardan sin tildes
+    assert.deepEqual(Object.keys(datos.filas), ["01: PRESIDENCIA CONSEJO MINISTROS", "10: EDUCACION"]);
+    assert.equal(datos.filas["01: PRESIDENCIA CONSEJO MINISTROS"].pim, 1400500);
+    assert.equal(datos.filas["01: PRESIDENCIA CONSEJO MINISTROS"].devengado, 1050250.75);
+    assert.equal(datos.filas["10: EDUCACION"].avance, 75);
+    assert.equal(datos.mensual, undefined);
+  }],
+  ["gasto: enlaces de desglose y formulario", () => {
+    const { navegacion } = leer("gasto-2024.html");
+    assert.deepEqual(navegacion!.enlaces["01: PRESIDENCIA CONSEJO MINISTROS"], {
+      tipo: "postback",
+      campos: { __EVENTTARGET: "ctl00$Sector", __EVENTARGUMENT: "01" }
+    });
+    assert.deepEqual(navegacion!.enlaces["10: EDUCACION"], { tipo: "postback", campos: { grp1: "10" } });
+    assert.equal(navegacion!.formulario!.metodo, "post");
+    assert.equal(navegacion!.formulario!.action, "./Navegar_7.aspx?y=2024&ap=ActProy");
+    assert.deepEqual(navegacion!.formulario!.niveles.map(n => n.etiqueta), ["Pliego", "Rubro"]);
+  }],
+  ["ingreso: la ejecución es el recaudado", () => {
+    const datos = leer("ingreso-2024.html");
+    assert.equal(datos.tipo, "ingreso");
+    assert.deepEqual(datos.columnas, ["pia", "pim", "recaudado"]);
+    assert.equal(datos.filas["09: RECURSOS DIRECTAMENTE RECAUDADOS"].recaudado, 162300.5);
+    assert.equal(datos.filas["00: RECURSOS ORDINARIOS"].devengado, 0);
+  }],
+  ["mensual: el devengado anual es la suma de los meses", () => {
+    const datos = leer("mensual-2024.html");
+    assert.equal(datos.tipo, "gasto");
+    assert.deepEqual(datos.columnas, ["pia", "pim", "devengado"]);
+    assert.equal(datos.filas["2.1: PERSONAL Y OBLIGACIONES SOCIALES"].devengado, 900);
+    // Los meses vacíos cuentan como cero
+    assert.deepEqual(datos.mensual!["2.6: ADQUISICION DE ACTIVOS NO FINANCIEROS"], [0, 10, 20, 30, 40, 50, 60, 70, 80, 0, 0, 0]);
+    assert.equal(datos.filas["2.6: ADQUISICION DE ACTIVOS NO FINANCIEROS"].devengado, 360);
+  }],
+  ["encabezado en dos filas con rowspan y colspan", () => {
+    const datos = leer("rowspan-2024.html");
+    assert.deepEqual(datos.encabezado, ["Función", "PIA", "PIM", "Devengado", "Girado", "Avance %"]);
+    assert.deepEqual(datos.columnas, ["pia", "pim", "devengado", "girado", "avance"]);
+    assert.deepEqual(Object.keys(datos.filas), ["03: PLANEAMIENTO, GESTION Y RESERVA DE CONTINGENCIA", "22: EDUCACION"]);
+    assert.equal(datos.filas["22: EDUCACION"].devengado, 650);
+    assert.equal(datos.filas["22: EDUCACION"].girado, 640);
+  }],
+  ["una página sin table.Data es ilegible", () => {
+    assert.throws(() => parseMefHtml("<html><body><table><tr><td>PIA</td></tr></table></body></html>"), { name: "ErrorMef", tipo: "parseo" });
+  }]
+];
+
+let fallidos = 0;
+for (const [nombre, caso] of casos) {
+  try {
+    caso();
+    console.log(`ok   ${nombre}`);
+  } catch (error: any) {
+    fallidos++;
+    console.error(`FALLA ${nombre}\n${error.message}`);
+  }
+}
+if (fallidos) {
+  console.error(`${fallidos} de ${casos.length} casos fallaron.`);
+  process.exit(1);
+}
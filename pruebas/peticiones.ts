@@ -0,0 +1,166 @@
+// Comprueba el cliente HTTP del MEF contra un servidor local: tiempo límite, reintentos, concurrencia y
+// los límites de tamaño y redirecciones. Los destinos privados se prueban en pruebas/seguridad.ts.
+// Uso: npm run test:peticiones
+import assert from "node:assert/strict";
+import http from "http";
+import type { AddressInfo } from "net";
+
+const CONCURRENCIA = 2;
+const TIMEOUT_MS = 300;
+const REINTENTOS = 2;
+const MAX_BYTES = 4096;
+const MAX_REDIRECCIONES = 2;
+
+// Intentos recibidos por ruta y peticiones atendidas a la vez
+const intentos: Record<string, number> = {};
+let enCurso = 0;
+let maximoEnCurso = 0;
+
+const servidor = http.createServer((req, res) => {
+  const ruta = new URL(req.url!, "http://localhost").pathname;
+  const intento = (intentos[ruta] = (intentos[ruta] ?? 0) + 1);
+
+  if (ruta === "/lenta") return; // nunca responde
+  if (ruta === "/falla-una-vez") {
+    res.writeHead(intento === 1 ? 503 : 200);
+    return res.end("ok");
+  }
+  if (ruta === "/retry-after") {
+    if (intento === 1) {
+      res.writeHead(429, { "Retry-After": "1" });
+      return res.end();
+    }
+    res.writeHead(200);
+    return res.end("ok");
+  }
+  if (ruta === "/siempre-500") {
+    res.writeHead(500);
+    return res.end();
+  }
+  if (ruta === "/grande") {
+    res.writeHead(200);
+    return res.end("x".repeat(MAX_BYTES * 3));
+  }
+  if (ruta === "/bucle") {
+    res.writeHead(302, { Location: `/bucle?n=${intento}` });
+    return res.end();
+  }
+  // El mismo servidor con otro nombre de host, que no está entre los permitidos
+  if (ruta === "/afuera") {
+    res.writeHead(302, { Location: `http://localhost:${(servidor.address() as AddressInfo).port}/destino` });
+    return res.end();
+  }
+  if (ruta === "/concurrente") {
+    enCurso++;
+    maximoEnCurso = Math.max(maximoEnCurso, enCurso);
+    setTimeout(() => {
+      enCurso--;
+      res.writeHead(200);
+      res.end("ok");
+    }, 100);
+    return;
+  }
+  res.writeHead(404);
+  res.end();
+});
+
+await new Promise<void>(resolve => servidor.listen(0, "127.0.0.1", resolve));
+const base = `http://127.0.0.1:${(servidor.address() as AddressInfo).port}`;
+
+// La configuración se lee al cargar el módulo, así que se fija antes de importarlo
+Object.assign(process.env, {
+  MEF_URLS_PERMITIDAS: `${base.slice("http://".length)}/`,
+  MEF_PERMITIR_RED_PRIVADA: "1",
+  MEF_TIMEOUT_MS: String(TIMEOUT_MS),
+  MEF_REINTENTOS: String(REINTENTOS),
+  MEF_ESPERA_BASE_MS: "20",
+  MEF_CONCURRENCIA: String(CONCURRENCIA),
+  MEF_PETICIONES_POR_SEGUNDO: "0",
+  MEF_MAX_BYTES: String(MAX_BYTES),
+  MEF_MAX_REDIRECCIONES: String(MAX_REDIRECCIONES)
+});
+const { peticionMef } = await import("../server/peticiones");
+const { respuestaError } = await import("../server/errores");
+// Los avisos de cada reintento no aportan a la salida de la prueba
+console.warn = () => {};
+
+const fallo = async (ruta: string) => {
+  try {
+    await peticionMef({ url: `${base}${ruta}` });
+  } catch (error) {
+    return error;
+  }
+  assert.fail(`${ruta} debía fallar`);
+};
+
+const casos: [string, () => Promise<void>][] = [
+  ["un tiempo agotado se reintenta y se responde con 504", async () => {
+    const error = await fallo("/lenta");
+    assert.equal(respuestaError(error).estado, 504);
+    assert.equal(respuestaError(error).cuerpo.tipo, "timeout");
+    assert.equal(intentos["/lenta"], REINTENTOS + 1);
+  }],
+  ["un 5xx pasajero se reintenta", async () => {
+    const response = await peticionMef({ url: `${base}/falla-una-vez` });
+    assert.equal(response.status, 200);
+    assert.equal(intentos["/falla-una-vez"], 2);
+  }],
+  ["un 5xx persistente agota los reintentos y se responde con 502", async () => {
+    const error = await fallo("/siempre-500");
+    assert.deepEqual(respuestaError(error), { estado: 502, cuerpo: { error: "Error al acceder a la URL: El servidor respondió con estado 500.", tipo: "http", estado: 500 } });
+    assert.equal(intentos["/siempre-500"], REINTENTOS + 1);
+  }],
+  ["un 404 no se reintenta", async () => {
+    const error = await fallo("/no-existe");
+    assert.equal(respuestaError(error).estado, 502);
+    assert.equal(intentos["/no-existe"], 1);
+  }],
+  ["un 429 espera lo que pide Retry-After", async () => {
+    const inicio = Date.now();
+    const response = await peticionMef({ url: `${base}/retry-after` });
+    assert.equal(response.status, 200);
+    assert.equal(intentos["/retry-after"], 2);
+    assert.ok(Date.now() - inicio >= 1000, `esperó ${Date.now() - inicio} ms`);
+  }],
+  ["no hay más peticiones en curso que el límite de concurrencia", async () => {
+    await Promise.all(Array.from({ length: 6 }, () => peticionMef({ url: `${base}/concurrente` })));
+    assert.equal(intentos["/concurrente"], 6);
+    assert.equal(maximoEnCurso, CONCURRENCIA);
+  }],
+  ["una URL fuera de las permitidas se rechaza con 400", async () => {
+    await assert.rejects(peticionMef({ url: "http://example.com/transparencia/" }), (error: any) => respuestaError(error).estado === 400);
+  }],
+  ["una redirección a un host no permitido se rechaza con 400 sin seguirla", async () => {
+    const error = await fallo("/afuera");
+    assert.equal(respuestaError(error).estado, 400);
+    assert.match(respuestaError(error).cuerpo.error, /no pertenece a Consulta Amigable/);
+    assert.equal(intentos["/destino"], undefined);
+  }],
+  ["más redirecciones que el máximo se rechazan con 400", async () => {
+    const error = await fallo("/bucle");
+    assert.deepEqual(respuestaError(error), { estado: 400, cuerpo: { error: `La consulta superó el máximo de ${MAX_REDIRECCIONES} redirecciones.` } });
+    assert.equal(intentos["/bucle"], MAX_REDIRECCIONES + 1);
+  }],
+  ["una respuesta mayor que el tamaño máximo se rechaza con 400 y no se reintenta", async () => {
+    const error = await fallo("/grande");
+    assert.deepEqual(respuestaError(error), { estado: 400, cuerpo: { error: "La respuesta supera el tamaño máximo de 4 KB." } });
+    assert.equal(intentos["/grande"], 1);
+  }]
+];
+
+let fallidos = 0;
+for (const [nombre, caso] of casos) {
+  try {
+    await caso();
+    console.log(`ok   ${nombre}`);
+  } catch (error: any) {
+    fallidos++;
+    console.error(`FALLA ${nombre}\n${error.message}`);
+  }
+}
+servidor.closeAllConnections();
+servidor.close();
+if (fallidos) {
+  console.error(`${fallidos} de ${casos.length} casos fallaron.`);
+  process.exit(1);
+}
@@ -0,0 +1,121 @@
+// Comprueba el resumen narrativo con la plantilla local, sin red: que sus cifras se verifiquen contra
+// los datos, que una cifra inventada se marque y que los errores de configuración se respondan con 503.
+// Uso: npm run test:resumen
+import assert from "node:assert/strict";
+import { respuestaError } from "../server/errores";
+import { ProveedorResumen, datosParaResumen, generarResumen, proveedorConfigurado, verificarCifras } from "../server/resumen";
+import type { ComparacionResumen, ConceptoData } from "../src/types";
+
+const concepto = (nombre: string, montoAnterior: number, montoActual: number): ConceptoData => ({
+  concepto: nombre,
+  montoAnterior,
+  montoActual,
+  variacionS: montoActual - montoAnterior,
+  variacionPorcentaje: montoAnterior ? (montoActual - montoAnterior) / montoAnterior * 100 : null,
+  nuevo: montoAnterior === 0 && montoActual > 0,
+  emparejamientos: []
+});
+
+const data = [
+  concepto("22: EDUCACION", 1_250_400_000, 1_402_750_000),
+  concepto("20: SALUD", 980_000_000, 901_300_000),
+  concepto("15: TRANSPORTE", 310_500_000, 355_000_000),
+  concepto("05: ORDEN PUBLICO", 0, 42_800_000),
+  concepto("24: PREVISION SOCIAL", 12_000_000, 0)
+];
+const anterior = data.reduce((suma, item) => suma + item.montoAnterior, 0);
+const actual = data.reduce((suma, item) => suma + item.montoActual, 0);
+
+const comparacion: ComparacionResumen = {
+  metrica: { id: "devengado", etiqueta: "Devengado", abreviatura: "DEV", tipo: "monto" },
+  yearAnterior: 2023,
+  yearActual: 2024,
+  etiquetas: null,
+  periodo: { tipo: "anual", etiqueta: "Año completo" },
+  data,
+  totales: { montoAnterior: anterior, montoActual: actual, variacionS: actual - anterior, variacionPorcentaje: (actual - anterior) / anterior * 100, nuevo: false }
+};
+
+const estado = async (promesa: Promise<unknown>) => {
+  try {
+    await promesa;
+  } catch (error) {
+    return respuestaError(error).estado;
+  }
+  assert.fail("debía fallar");
+};
+
+const conEntorno = <T>(variables: Record<string, string | undefined>, accion: () => T): T => {
+  const previas = Object.fromEntries(Object.keys(variables).map(nombre => [nombre, process.env[nombre]]));
+  const aplicar = (valores: Record<string, string | undefined>) => Object.entries(valores).forEach(([nombre, valor]) => {
+    if (valor === undefined) delete process.env[nombre];
+    else process.env[nombre] = valor;
+  });
+  aplicar(variables);
+  try {
+    return accion();
+  } finally {
+    aplicar(previas);
+  }
+};
+
+const casos: [string, () => Promise<void>][] = [
+  ["la plantilla local cita solo cifras de los datos", async () => {
+    const proveedor = conEntorno({ RESUMEN_PROVEEDOR: "local" }, proveedorConfigurado);
+    const resumen = await generarResumen(comparacion, proveedor);
+    assert.equal(resumen.proveedor, "Plantilla local");
+    assert.ok(resumen.cifras.length >= 8, `solo ${resumen.cifras.length} cifras en: ${resumen.texto}`);
+    const sinVerificar = resumen.cifras.filter(cifra => !cifra.verificada).map(cifra => cifra.texto);
+    assert.deepEqual(sinVerificar, [], `cifras sin verificar en: ${resumen.texto}`);
+    // La posición de cada cifra apunta a su texto
+    resumen.cifras.forEach(cifra => assert.equal(resumen.texto.slice(cifra.inicio, cifra.inicio + cifra.texto.length), cifra.texto));
+  }],
+  ["una cifra que no está en los datos se marca", async () => {
+    const datos = datosParaResumen(comparacion);
+    const cifras = verificarCifras(`El devengado de ${datos.total.actual} supera en 999.9 millones al de 2023.`, datos);
+    assert.deepEqual(cifras.map(cifra => [cifra.texto, cifra.verificada]), [
+      ...verificarCifras(datos.total.actual, datos).map(cifra => [cifra.texto, true]),
+      ["999.9", false],
+      ["2023", true]
+    ]);
+  }],
+  ["una cifra con otro redondeo se verifica con el redondeo con que se escribió", async () => {
+    const datos = datosParaResumen(comparacion);
+    // 1 402.75 millones escrito sin decimales
+    assert.equal(verificarCifras("unos 1 403 millones", datos)[0].verificada, true);
+    assert.equal(verificarCifras("unos 1 404 millones", datos)[0].verificada, false);
+  }],
+  ["un proveedor desconocido o sin clave responde 503", async () => {
+    assert.equal(await estado(Promise.resolve().then(() => conEntorno({ RESUMEN_PROVEEDOR: "otro" }, proveedorConfigurado))), 503);
+    assert.equal(await estado(Promise.resolve().then(() => conEntorno({ RESUMEN_PROVEEDOR: "gemini", GEMINI_API_KEY: undefined }, proveedorConfigurado))), 503);
+  }],
+  ["la falla o el texto vacío del proveedor responden 503", async () => {
+    const falla: ProveedorResumen = { nombre: "Falla", modelo: null, generar: async () => { throw new Error("sin conexión"); } };
+    const vacio: ProveedorResumen = { nombre: "Vacío", modelo: null, generar: async () => "  " };
+    assert.equal(await estado(generarResumen(comparacion, falla)), 503);
+    assert.equal(await estado(generarResumen(comparacion, vacio)), 503);
+  }],
+  ["una comparación sin conceptos responde 400", async () => {
+    assert.equal(await estado(generarResumen({ ...comparacion, data: [] })), 400);
+  }],
+  ["una comparación sin periodo responde 400", async () => {
+    const { periodo, ...sinPeriodo } = comparacion;
+    assert.equal(await estado(generarResumen(sinPeriodo as any)), 400);
+    assert.equal(await estado(generarResumen({ ...comparacion, periodo: "anual" } as any)), 400);
+  }]
+];
+
+let fallidos = 0;
+for (const [nombre, caso] of casos) {
+  try {
+    await caso();
+    console.log(`ok   ${nombre}`);
+  } catch (error: any) {
+    fallidos++;
+    console.error(`FALLA ${nombre}\n${error.message}`);
+  }
+}
+if (fallidos) {
+  console.error(`${fallidos} de ${casos.length} casos fallaron.`);
+  process.exit(1);
+}
@@ -0,0 +1,101 @@
+// Comprueba, con la red privada bloqueada como en producción, que no se consultan destinos internos
+// y que el límite de consultas por cliente responde 429. El tamaño máximo y las redirecciones se
+// prueban en pruebas/peticiones.ts, que necesita la red local abierta para su servidor de prueba.
+// Uso: npm run test:seguridad
+import assert from "node:assert/strict";
+import express from "express";
+import http from "http";
+import type { AddressInfo } from "net";
+
+const LIMITE_POR_MINUTO = 3;
+
+// Peticiones que llegaron al servidor local; ninguna debería llegar
+let recibidas = 0;
+const servidor = http.createServer((req, res) => {
+  recibidas++;
+  res.writeHead(200);
+  res.end("ok");
+});
+await new Promise<void>(resolve => servidor.listen(0, "127.0.0.1", resolve));
+const puerto = (servidor.address() as AddressInfo).port;
+
+// Todos los destinos están en la lista permitida, para que el rechazo se deba a la dirección; la lista
+// compara el host tal como lo escribe URL ([::ffff:127.0.0.1] queda como [::ffff:7f00:1])
+const PRIVADAS = [`127.0.0.1:${puerto}`, "10.0.0.8", "192.168.1.1", "169.254.169.254", "[::1]", "[::ffff:127.0.0.1]", "[fd00::1]"];
+
+// La configuración se lee al cargar los módulos, así que se fija antes de importarlos
+delete process.env.MEF_PERMITIR_RED_PRIVADA;
+Object.assign(process.env, {
+  MEF_URLS_PERMITIDAS: [`localhost:${puerto}/`, ...PRIVADAS.map(host => `${new URL(`http://${host}`).host}/`)].join(","),
+  MEF_REINTENTOS: "0",
+  MEF_PETICIONES_POR_SEGUNDO: "0",
+  LIMITE_CONSULTAS_POR_MINUTO: String(LIMITE_POR_MINUTO)
+});
+const { peticionMef, validarUrlMef } = await import("../server/peticiones");
+const { limitarPorCliente } = await import("../server/cuotas");
+const { respuestaError } = await import("../server/errores");
+
+// Una ruta limitada como las que consultan al MEF; la IP del cliente se lee de X-Forwarded-For
+const app = express();
+app.set("trust proxy", true);
+app.post("/api/comparar", limitarPorCliente, (req, res) => res.json({ ok: true }));
+const api = app.listen(0, "127.0.0.1");
+await new Promise<void>(resolve => api.once("listening", resolve));
+const consultar = (cliente: string) => fetch(`http://127.0.0.1:${(api.address() as AddressInfo).port}/api/comparar`, {
+  method: "POST",
+  headers: { "X-Forwarded-For": cliente }
+});
+
+const casos: [string, () => Promise<void>][] = [
+  ["un nombre que resuelve a una dirección local se rechaza con 400 sin conectar", async () => {
+    await assert.rejects(peticionMef({ url: `http://localhost:${puerto}/` }), (error: any) => {
+      assert.equal(respuestaError(error).estado, 400);
+      assert.match(error.message, /resuelve a una dirección de red privada/);
+      return true;
+    });
+    assert.equal(recibidas, 0);
+  }],
+  ["una dirección privada escrita en la URL se rechaza con 400", async () => {
+    // La misma validación se aplica a cada redirección antes de seguirla
+    for (const host of PRIVADAS) {
+      assert.throws(() => validarUrlMef(`http://${host}/`), (error: any) => {
+        assert.equal(respuestaError(error).estado, 400, host);
+        assert.match(error.message, /red privada/, host);
+        return true;
+      });
+    }
+    await assert.rejects(peticionMef({ url: `http://127.0.0.1:${puerto}/` }), (error: any) => respuestaError(error).estado === 400);
+    assert.equal(recibidas, 0);
+  }],
+  ["un cliente que supera el límite por minuto recibe 429 con Retry-After", async () => {
+    for (let i = 0; i < LIMITE_POR_MINUTO; i++) {
+      assert.equal((await consultar("203.0.113.1")).status, 200);
+    }
+    const excedida = await consultar("203.0.113.1");
+    assert.equal(excedida.status, 429);
+    const espera = Number(excedida.headers.get("Retry-After"));
+    assert.ok(espera > 0 && espera <= 60, `Retry-After: ${espera}`);
+    assert.match((await excedida.json()).error, /Demasiadas consultas/);
+    // Cada cliente tiene su propia cuenta
+    assert.equal((await consultar("203.0.113.2")).status, 200);
+  }]
+];
+
+let fallidos = 0;
+for (const [nombre, caso] of casos) {
+  try {
+    await caso();
+    console.log(`ok   ${nombre}`);
+  } catch (error: any) {
+    fallidos++;
+    console.error(`FALLA ${nombre}\n${error.message}`);
+  }
+}
+servidor.closeAllConnections();
+servidor.close();
+api.closeAllConnections();
+api.close();
+if (fallidos) {
+  console.error(`${fallidos} de ${casos.length} casos fallaron.`);
+  process.exit(1);
+}
@@ -0,0 +1,118 @@
+// Comprueba la caché de capturas: reutilización según la antigüedad, el modo sin conexión y la fecha
+// de corte. Usa una base SQLite temporal y un servidor local en lugar del MEF.
+// Uso: npm run test:snapshots
+import assert from "node:assert/strict";
+import fs from "fs";
+import http from "http";
+import os from "os";
+import path from "path";
+import { fileURLToPath } from "url";
+import type { AddressInfo } from "net";
+
+const PAGINA = fs.readFileSync(path.join(path.dirname(fileURLToPath(import.meta.url)), "paginas", "gasto-2024.html"));
+
+// Peticiones recibidas por ruta
+const peticiones: Record<string, number> = {};
+
+const servidor = http.createServer((req, res) => {
+  const ruta = new URL(req.url!, "http://localhost").pathname;
+  peticiones[ruta] = (peticiones[ruta] ?? 0) + 1;
+  res.writeHead(200, { "Content-Type": "text/html; charset=utf-8" });
+  res.end(PAGINA);
+});
+
+await new Promise<void>(resolve => servidor.listen(0, "127.0.0.1", resolve));
+const base = `http://127.0.0.1:${(servidor.address() as AddressInfo).port}`;
+
+// La base y la configuración se leen al cargar los módulos, así que se fijan antes de importarlos
+const DIRECTORIO = fs.mkdtempSync(path.join(os.tmpdir(), "mef-snapshots-"));
+Object.assign(process.env, {
+  MEF_DB_PATH: path.join(DIRECTORIO, "pruebas.db"),
+  MEF_URLS_PERMITIDAS: `${base.slice("http://".length)}/`,
+  MEF_PERMITIR_RED_PRIVADA: "1",
+  MEF_PETICIONES_POR_SEGUNDO: "0"
+});
+const { guardarSnapshot, obtenerPagina, ultimoSnapshot } = await import("../server/snapshots");
+const { leerOpcionesSnapshot } = await import("../server/comparacion");
+const { parseMefHtml } = await import("../server/scraper");
+const { respuestaError } = await import("../server/errores");
+
+const datos = parseMefHtml(PAGINA.toString("utf-8"));
+const haceHoras = (horas: number) => new Date(Date.now() - horas * 3600 * 1000).toISOString();
+
+const estado = async (promesa: Promise<unknown>) => {
+  try {
+    await promesa;
+  } catch (error) {
+    return respuestaError(error).estado;
+  }
+  assert.fail("debía fallar");
+};
+
+const casos: [string, () => Promise<void>][] = [
+  ["una captura más reciente que la antigüedad máxima se reutiliza", async () => {
+    const url = `${base}/reciente?y=2024`;
+    guardarSnapshot(url, 2024, datos, haceHoras(1));
+    const pagina = await obtenerPagina(url, 2024, { maxAgeHoras: 2 });
+    assert.equal(pagina.origen, "cache");
+    assert.equal(peticiones["/reciente"], undefined);
+  }],
+  ["una captura vencida se vuelve a consultar y se guarda", async () => {
+    const url = `${base}/vencida?y=2024`;
+    guardarSnapshot(url, 2024, datos, haceHoras(3));
+    const pagina = await obtenerPagina(url, 2024, { maxAgeHoras: 2 });
+    assert.equal(pagina.origen, "red");
+    assert.equal(peticiones["/vencida"], 1);
+    assert.equal(ultimoSnapshot(url)!.fetchedAt, pagina.fetchedAt);
+    // La captura nueva se reutiliza en la consulta siguiente
+    assert.equal((await obtenerPagina(url, 2024, { maxAgeHoras: 2 })).origen, "cache");
+    assert.equal(peticiones["/vencida"], 1);
+  }],
+  ["forzar consulta aunque la captura sea reciente", async () => {
+    const url = `${base}/forzada?y=2024`;
+    guardarSnapshot(url, 2024, datos, haceHoras(1));
+    assert.equal((await obtenerPagina(url, 2024, { forzar: true })).origen, "red");
+    assert.equal(peticiones["/forzada"], 1);
+  }],
+  ["sin conexión y sin captura responde 404 sin consultar", async () => {
+    assert.equal(await estado(obtenerPagina(`${base}/sin-captura?y=2024`, 2024, { modo: "offline" })), 404);
+    assert.equal(peticiones["/sin-captura"], undefined);
+  }],
+  ["con fecha de corte se usa la última captura anterior a ella", async () => {
+    const url = `${base}/historial?y=2024`;
+    guardarSnapshot(url, 2024, datos, "2024-03-01T10:00:00.000Z");
+    guardarSnapshot(url, 2024, datos, "2024-03-05T10:00:00.000Z");
+    const captura = async (hasta: string) => (await obtenerPagina(url, 2024, { hasta })).fetchedAt;
+
+    // Una fecha sin hora incluye el día completo
+    assert.equal(await captura("2024-03-01"), "2024-03-01T10:00:00.000Z");
+    assert.equal(await captura("2024-03-05T09:00:00Z"), "2024-03-01T10:00:00.000Z");
+    // 08:00 en Lima son las 13:00 UTC, después de la segunda captura
+    assert.equal(await captura("2024-03-05T08:00:00-05:00"), "2024-03-05T10:00:00.000Z");
+    assert.equal(await estado(obtenerPagina(url, 2024, { hasta: "2024-02-29" })), 404);
+    assert.equal(peticiones["/historial"], undefined);
+  }],
+  ["una fecha de corte que no es fecha se rechaza", async () => {
+    assert.match(leerOpcionesSnapshot({ hasta: "ayer" }).error!, /no es válida/);
+    assert.match(leerOpcionesSnapshot({ hasta: 20240301 }).error!, /no es válida/);
+    assert.equal(leerOpcionesSnapshot({ hasta: "2024-03-01T10:00:00-05:00" }).error, undefined);
+  }]
+];
+
+let fallidos = 0;
+for (const [nombre, caso] of casos) {
+  try {
+    await caso();
+    console.log(`ok   ${nombre}`);
+  } catch (error: any) {
+    fallidos++;
+    console.error(`FALLA ${nombre}\n${error.message}`);
+  }
+}
+servidor.closeAllConnections();
+servidor.close();
+fs.rmSync(DIRECTORIO, { recursive: true, force: true });
+if (fallidos) {
+  console.error(`${fallidos} de ${casos.length} casos fallaron.`);
+  process.exit(1);
+}
@@ -0,0 +1,159 @@
+// Comprueba la actualización de consultas vigiladas contra un servidor local que hace de MEF y de
+// receptor del webhook: las alertas nuevas se envían firmadas, una alerta activa no se repite y una
+// consulta eliminada a mitad de la actualización no guarda nada ni detiene al planificador.
+// Usa una base SQLite temporal.
+// Uso: npm run test:vigilancia
+import assert from "node:assert/strict";
+import { createHmac } from "crypto";
+import fs from "fs";
+import http from "http";
+import os from "os";
+import path from "path";
+import { fileURLToPath } from "url";
+import type { AddressInfo } from "net";
+
+const PAGINA = fs.readFileSync(path.join(path.dirname(fileURLToPath(import.meta.url)), "paginas", "gasto-2024.html"));
+const SECRETO = "secreto-de-prueba";
+
+// Cuerpos y firmas que recibió el webhook
+const webhook: { cuerpo: string; firma: string | undefined }[] = [];
+// Respuestas retenidas de /lenta/ y aviso de cada petición que llega ahí
+const retenidas: (() => void)[] = [];
+let alRetener = () => {};
+
+const servidor = http.createServer((req, res) => {
+  const ruta = new URL(req.url!, "http://localhost").pathname;
+  if (ruta === "/webhook") {
+    let cuerpo = "";
+    req.on("data", parte => { cuerpo += parte; });
+    req.on("end", () => {
+      webhook.push({ cuerpo, firma: req.headers["x-firma"] as string | undefined });
+      res.end();
+    });
+    return;
+  }
+  const responder = () => {
+    res.writeHead(200, { "Content-Type": "text/html; charset=utf-8" });
+    res.end(PAGINA);
+  };
+  if (ruta.startsWith("/lenta/")) {
+    retenidas.push(responder);
+    return alRetener();
+  }
+  responder();
+});
+
+await new Promise<void>(resolve => servidor.listen(0, "127.0.0.1", resolve));
+const base = `http://127.0.0.1:${(servidor.address() as AddressInfo).port}`;
+
+// La base y la configuración se leen al cargar los módulos, así que se fijan antes de importarlos
+const DIRECTORIO = fs.mkdtempSync(path.join(os.tmpdir(), "mef-vigilancia-"));
+Object.assign(process.env, {
+  MEF_DB_PATH: path.join(DIRECTORIO, "pruebas.db"),
+  MEF_URLS_PERMITIDAS: `${base.slice("http://".length)}/`,
+  MEF_PERMITIR_RED_PRIVADA: "1",
+  MEF_PETICIONES_POR_SEGUNDO: "0",
+  NOTIFICACIONES_WEBHOOK_URL: `${base}/webhook`,
+  NOTIFICACIONES_WEBHOOK_SECRETO: SECRETO
+});
+const { crearVigilancia, ejecutarVigilancia, eliminarVigilancia, iniciarPlanificador, listarNotificaciones, listarVigilancias } = await import("../server/vigilancia");
+const { respuestaError } = await import("../server/errores");
+const { db } = await import("../server/db");
+// Los avisos del planificador no aportan a la salida de la prueba
+console.warn = () => {};
+
+// Alerta sobre el total devengado, que en la página de muestra es positivo
+const vigilar = (nombre: string, ruta: string) => crearVigilancia({
+  nombre,
+  parametros: { url: `${base}${ruta}?y=2024` },
+  reglas: [{ campo: "actual", operador: "mayor", umbral: 0, alcance: "total" }]
+}).id;
+
+const resultadosGuardados = (id: number) =>
+  (db.prepare(`SELECT COUNT(*) AS cantidad FROM vigilancia_resultados WHERE vigilancia_id = ?`).get(id) as { cantidad: number }).cantidad;
+
+// Espera a que lleguen las peticiones de los dos años a /lenta/
+const esperarRetenidas = () => new Promise<void>(resolve => {
+  alRetener = () => { if (retenidas.length === 2) resolve(); };
+});
+const liberarRetenidas = () => retenidas.splice(0).forEach(responder => responder());
+
+const esperarQue = async (condicion: () => boolean) => {
+  for (let intento = 0; intento < 100 && !condicion(); intento++) {
+    await new Promise(resolve => setTimeout(resolve, 20));
+  }
+  assert.ok(condicion(), "la condición no se cumplió a tiempo");
+};
+
+const casos: [string, () => Promise<void>][] = [
+  ["una alerta nueva se notifica y se envía al webhook con su firma", async () => {
+    const id = vigilar("Total 2024", "/transparencia/");
+    const vigilancia = await ejecutarVigilancia(id, true);
+    assert.equal(vigilancia.ultimoError, null);
+    assert.equal(vigilancia.alertasActivas, 1);
+    assert.equal(resultadosGuardados(id), 1);
+
+    assert.equal(webhook.length, 1);
+    const { cuerpo, firma } = webhook[0];
+    assert.equal(firma, `sha256=${createHmac("sha256", SECRETO).update(cuerpo).digest("hex")}`);
+    const { evento, notificacion } = JSON.parse(cuerpo);
+    assert.equal(evento, "notificacion");
+    assert.equal(notificacion.vigilanciaId, id);
+    assert.equal(notificacion.concepto, "TOTAL");
+    assert.deepEqual(listarNotificaciones().notificaciones.map(n => n.id), [notificacion.id]);
+  }],
+  ["una alerta que sigue activa no se vuelve a notificar", async () => {
+    const [{ id }] = listarVigilancias();
+    await ejecutarVigilancia(id, true);
+    assert.equal(resultadosGuardados(id), 2);
+    assert.equal(webhook.length, 1);
+    assert.equal(listarNotificaciones().notificaciones.length, 1);
+  }],
+  ["una consulta eliminada durante la actualización responde 404 sin guardar ni notificar", async () => {
+    const id = vigilar("Eliminada", "/lenta/");
+    const llegaron = esperarRetenidas();
+    const actualizacion = ejecutarVigilancia(id, true).then(() => assert.fail("debía fallar"), error => error);
+    await llegaron;
+    eliminarVigilancia(id);
+    liberarRetenidas();
+
+    const error = await actualizacion;
+    assert.equal(respuestaError(error).estado, 404);
+    assert.equal(resultadosGuardados(id), 0);
+    assert.equal(webhook.length, 1);
+    assert.equal(listarNotificaciones().notificaciones.length, 1);
+  }],
+  ["el planificador sigue con las demás consultas si una se elimina durante la revisión", async () => {
+    // Las dos quedan vencidas al crearse
+    const eliminada = vigilar("Eliminada por el planificador", "/lenta/");
+    const siguiente = vigilar("Siguiente", "/transparencia/");
+    const llegaron = esperarRetenidas();
+    iniciarPlanificador();
+    await llegaron;
+    eliminarVigilancia(eliminada);
+    liberarRetenidas();
+
+    await esperarQue(() => listarVigilancias().find(v => v.id === siguiente)!.ultimaEjecucion !== null);
+    assert.equal(resultadosGuardados(eliminada), 0);
+    assert.equal(resultadosGuardados(siguiente), 1);
+    assert.equal(webhook.length, 2);
+  }]
+];
+
+let fallidos = 0;
+for (const [nombre, caso] of casos) {
+  try {
+    await caso();
+    console.log(`ok   ${nombre}`);
+  } catch (error: any) {
+    fallidos++;
+    console.error(`FALLA ${nombre}\n${error.message}`);
+  }
+}
+servidor.closeAllConnections();
+servidor.close();
+fs.rmSync(DIRECTORIO, { recursive: true, force: true });
+if (fallidos) {
+  console.error(`${fallidos} de ${casos.length} casos fallaron.`);
+  process.exit(1);
+}
@@ -1,130 +1,419 @@
+import "./server/entorno";
 import express from "express";
 import { createServer as createViteServer } from "vite";
-import axios from "axios";
-import * as cheerio from "cheerio";
-import https from "https";
+import { obtenerPagina, listarSnapshots, PREFIJO_ARCHIVO } from "./server/snapshots";
+import { resolverUrlHijo } from "./server/navegacion";
+import { guardarSerie, listarSeries, parseDeflactorCsv } from "./server/deflactores";
+import { cargarArchivos } from "./server/archivos";
+import { FormatoExportacion, Reporte, generarCsv, generarXlsx, nombreArchivo, validarReporte } from "./server/exportar";
+import { listarMapeos, guardarMapeo, eliminarMapeo } from "./server/emparejamiento";
+import { ejecutarComparacion, leerOpcionesSnapshot } from "./server/comparacion";
+import { compararLote } from "./server/lote";
+import { ErrorSolicitud, respuestaError } from "./server/errores";
+import { crearTrabajo, obtenerTrabajo, listarTrabajos, cancelarTrabajo, suscribirTrabajo, reanudarTrabajos } from "./server/trabajos";
+import { esFinal } from "./src/lib/trabajos";
+import { validarUrlMef } from "./server/peticiones";
+import { limitarPorCliente } from "./server/cuotas";
+import { construirConsulta, analizarConsulta } from "./server/consultas";
+import { guardarAnalisis, obtenerAnalisis, listarAnalisis, eliminarAnalisis } from "./server/analisis";
+import {
+  listarVigilancias, crearVigilancia, eliminarVigilancia, ejecutarVigilancia, listarResultados,
+  listarNotificaciones, marcarLeidas, iniciarPlanificador
+} from "./server/vigilancia";
+import { generarResumen } from "./server/resumen";
+import { ejecutarBalance } from "./server/balance";
 
 const app = express();
 const PORT = 3000;
 
+// Detrás de un proxy inverso, la IP del cliente para el límite de consultas viene en X-Forwarded-For
+if (process.env.TRUST_PROXY) {
+  app.set("trust proxy", /^\d+$/.test(process.env.TRUST_PROXY) ? Number(process.env.TRUST_PROXY) : process.env.TRUST_PROXY);
+}
+
+// Las páginas cargadas viajan en base64 dentro del JSON y superan el límite por defecto
+app.use("/api/archivos", express.json({ limit: "50mb" }));
+// Un análisis guardado lleva la comparación completa con su serie
+app.use("/api/analisis", express.json({ limit: "20mb" }));
+// El resumen recibe todos los conceptos de la comparación
+app.use("/api/resumen", express.json({ limit: "5mb" }));
 app.use(express.json());
 
-// Disable SSL verification as in the Python code
-const httpsAgent = new https.Agent({
-  rejectUnauthorized: false,
+app.post("/api/comparar", limitarPorCliente, async (req, res) => {
+  try {
+    res.json(await ejecutarComparacion(req.body));
+  } catch (error: any) {
+    const { estado, cuerpo } = respuestaError(error);
+    if (estado === 500) console.error("Error en /api/comparar:", error.message);
+    res.status(estado).json(cuerpo);
+  }
 });
 
-function removeAccents(str: string) {
-  return str.normalize("NFD").replace(/[\u0300-\u036f]/g, "");
-}
+app.post("/api/lote", limitarPorCliente, async (req, res) => {
+  try {
+    res.json(await compararLote(req.body));
+  } catch (error: any) {
+    const { estado, cuerpo } = respuestaError(error);
+    if (estado === 500) console.error("Error en /api/lote:", error.message);
+    res.status(estado).json(cuerpo);
+  }
+});
 
-async function scrapeMefData(url: string) {
+// Comparaciones y lotes como trabajos en segundo plano, con avance por Server-Sent Events
+app.post("/api/trabajos", limitarPorCliente, (req, res) => {
   try {
-    const response = await axios.get(url, { httpsAgent, responseType: 'arraybuffer' });
-    const html = new TextDecoder('utf-8').decode(response.data);
-    const $ = cheerio.load(html);
-    
-    const table = $("table.Data").first();
-    if (!table.length) {
-      throw new Error(`No se encontró la tabla de datos en la URL proporcionada. Verifique que el enlace sea de Consulta Amigable.`);
+    const { tipo, parametros } = req.body;
+    res.status(202).json(crearTrabajo(tipo, parametros));
+  } catch (error: any) {
+    if (error instanceof ErrorSolicitud) {
+      return res.status(400).json({ error: error.message });
     }
+    console.error("Error en /api/trabajos:", error.message);
+    res.status(500).json({ error: error.message || "Error interno del servidor" });
+  }
+});
 
-    const data: Record<string, number> = {};
-    let hasData = false;
-
-    table.find("tr").each((i, row) => {
-      const cols = $(row).find("td");
-      if (cols.length >= 8) {
-        const conceptoRaw = $(cols[1]).text().trim();
-        const montoRaw = $(cols[7]).text().trim().replace(/,/g, '');
-        const monto = parseFloat(montoRaw);
-        if (!isNaN(monto)) {
-          const concepto = removeAccents(conceptoRaw);
-          data[concepto] = monto;
-          hasData = true;
-        }
-      }
-    });
+app.get("/api/trabajos", (req, res) => {
+  const limite = Math.min(Math.max(Number(req.query.limite) || 20, 1), 200);
+  res.json({ trabajos: listarTrabajos(limite) });
+});
+
+app.get("/api/trabajos/:id", (req, res) => {
+  const trabajo = obtenerTrabajo(req.params.id);
+  if (!trabajo) {
+    return res.status(404).json({ error: "El trabajo no existe." });
+  }
+  res.json(trabajo);
+});
 
-    if (!hasData) {
-      throw new Error(`La tabla se encontró pero no contiene datos numéricos válidos en las columnas esperadas.`);
+app.get("/api/trabajos/:id/eventos", (req, res) => {
+  const trabajo = obtenerTrabajo(req.params.id);
+  if (!trabajo) {
+    return res.status(404).json({ error: "El trabajo no existe." });
+  }
+
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive"
+  });
+
+  // Cada aviso lleva el trabajo completo; el stream se cierra al llegar a un estado final
+  let desuscribir = () => {};
+  const enviar = (actual: typeof trabajo) => {
+    res.write(`data: ${JSON.stringify(actual)}\n\n`);
+    if (esFinal(actual.estado)) {
+      desuscribir();
+      res.end();
     }
+  };
+
+  enviar(trabajo);
+  if (esFinal(trabajo.estado)) return;
 
-    return data;
+  desuscribir = suscribirTrabajo(trabajo.id, enviar);
+  // Comentario periódico para que los proxies no corten la conexión inactiva
+  const latido = setInterval(() => res.write(": latido\n\n"), 15000);
+  req.on("close", () => {
+    clearInterval(latido);
+    desuscribir();
+  });
+});
+
+app.post("/api/trabajos/:id/cancelar", (req, res) => {
+  try {
+    res.json(cancelarTrabajo(req.params.id));
   } catch (error: any) {
-    if (error.response) {
-      throw new Error(`Error al acceder a la URL: El servidor respondió con estado ${error.response.status}.`);
-    } else if (error.request && !error.message.includes('No se encontró')) {
-      throw new Error(`Error de red: No se pudo conectar a la URL proporcionada.`);
-    } else {
-      throw error;
-    }
+    const { estado, cuerpo } = respuestaError(error);
+    if (estado === 500) console.error("Error en /api/trabajos:", error.message);
+    res.status(estado).json(cuerpo);
   }
-}
+});
 
-app.post("/api/comparar", async (req, res) => {
+app.post("/api/desglose", limitarPorCliente, async (req, res) => {
   try {
-    const { url } = req.body;
-    if (!url) {
-      return res.status(400).json({ error: "La URL es requerida." });
+    const { url, concepto, nivel } = req.body;
+    if (!url || !concepto) {
+      return res.status(400).json({ error: "La URL y el concepto son requeridos." });
     }
 
     const yearMatch = url.match(/y=(\d{4})/);
     if (!yearMatch) {
       return res.status(400).json({ error: "La URL no contiene el parámetro de año 'y='. Asegúrese de copiar el enlace correcto." });
     }
+    if (!url.startsWith(PREFIJO_ARCHIVO)) {
+      validarUrlMef(url);
+    }
 
-    const yearActual = parseInt(yearMatch[1], 10);
-    const yearAnterior = yearActual - 1;
-    const urlAnterior = url.replace(/y=\d{4}/, `y=${yearAnterior}`);
-
-    const [dataActual, dataAnterior] = await Promise.all([
-      scrapeMefData(url).catch(e => { throw new Error(`Error en datos de ${yearActual}: ${e.message}`); }),
-      scrapeMefData(urlAnterior).catch(e => { throw new Error(`Error en datos de ${yearAnterior}: ${e.message}`); })
-    ]);
-
-    const conceptos = new Set([...Object.keys(dataActual), ...Object.keys(dataAnterior)]);
-    
-    const result = Array.from(conceptos).map(concepto => {
-      const montoAnteriorRaw = dataAnterior[concepto] || 0;
-      const montoActualRaw = dataActual[concepto] || 0;
-
-      // Escalar a millones y convertir a entero (truncar)
-      const montoAnterior = Math.trunc(montoAnteriorRaw / 1000000);
-      const montoActual = Math.trunc(montoActualRaw / 1000000);
-
-      const variacionS = montoActual - montoAnterior;
-      let variacionPorcentaje = 0;
-      
-      if (montoAnterior !== 0) {
-        variacionPorcentaje = Number((((montoActual / montoAnterior) * 100) - 100).toFixed(1));
-      }
-
-      return {
-        concepto,
-        montoAnterior,
-        montoActual,
-        variacionS,
-        variacionPorcentaje
-      };
-    });
+    const { opciones, error: errorOpciones } = leerOpcionesSnapshot(req.body);
+    if (errorOpciones) {
+      return res.status(400).json({ error: errorOpciones });
+    }
 
-    // Sort by variacionS descending
-    result.sort((a, b) => b.variacionS - a.variacionS);
+    // El desglose siempre parte de la página del año actual, que es la que trae los enlaces
+    const pagina = await obtenerPagina(url, parseInt(yearMatch[1], 10), { ...opciones, forzar: false });
+    const urlHijo = await resolverUrlHijo(pagina, concepto, nivel);
 
-    res.json({
-      yearActual,
-      yearAnterior,
-      data: result
-    });
+    res.json({ url: urlHijo });
+
+  } catch (error: any) {
+    const { estado, cuerpo } = respuestaError(error);
+    if (estado === 500) console.error("Error en /api/desglose:", error.message);
+    res.status(estado).json(cuerpo);
+  }
+});
+
+// Formulario guiado: arma la URL de Consulta Amigable a partir de los filtros, o lee un enlace pegado
+app.post("/api/consultas/construir", limitarPorCliente, async (req, res) => {
+  try {
+    res.json(await construirConsulta(req.body));
+  } catch (error: any) {
+    const { estado, cuerpo } = respuestaError(error);
+    if (estado === 500) console.error("Error en /api/consultas/construir:", error.message);
+    res.status(estado).json(cuerpo);
+  }
+});
+
+app.post("/api/consultas/analizar", limitarPorCliente, async (req, res) => {
+  try {
+    res.json(await analizarConsulta(req.body));
+  } catch (error: any) {
+    const { estado, cuerpo } = respuestaError(error);
+    if (estado === 500) console.error("Error en /api/consultas/analizar:", error.message);
+    res.status(estado).json(cuerpo);
+  }
+});
+
+app.post("/api/archivos", async (req, res) => {
+  const { archivos, grupo } = req.body;
+  if (!Array.isArray(archivos) || !archivos.length || archivos.some(a => !a || typeof a.nombre !== "string" || typeof a.contenido !== "string")) {
+    return res.status(400).json({ error: "Debe enviar al menos un archivo HTML o ZIP." });
+  }
+  if (grupo !== undefined && (typeof grupo !== "string" || !/^[\w-]{1,40}$/.test(grupo))) {
+    return res.status(400).json({ error: `El grupo de archivos '${grupo}' no es válido.` });
+  }
+
+  try {
+    res.json(await cargarArchivos(archivos, grupo));
+  } catch (error: any) {
+    console.error("Error en /api/archivos:", error.message);
+    res.status(400).json({ error: error.message });
+  }
+});
+
+// Exporta la tabla tal como se ve en pantalla (filtro, orden y unidades del cliente)
+app.post("/api/exportar/:formato", async (req, res) => {
+  const formato = req.params.formato as FormatoExportacion;
+  if (formato !== "xlsx" && formato !== "csv") {
+    return res.status(400).json({ error: `El formato '${req.params.formato}' no es válido. Use 'xlsx' o 'csv'.` });
+  }
+  const errorReporte = validarReporte(req.body);
+  if (errorReporte) {
+    return res.status(400).json({ error: errorReporte });
+  }
+
+  try {
+    const reporte = req.body as Reporte;
+    const contenido = formato === "xlsx" ? await generarXlsx(reporte) : generarCsv(reporte);
+    res.setHeader("Content-Type", formato === "xlsx"
+      ? "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+      : "text/csv; charset=utf-8");
+    res.setHeader("Content-Disposition", `attachment; filename="${nombreArchivo(reporte, formato)}"`);
+    res.send(contenido);
+  } catch (error: any) {
+    console.error("Error en /api/exportar:", error.message);
+    res.status(500).json({ error: error.message || "Error interno del servidor" });
+  }
+});
+
+app.get("/api/deflactores", (req, res) => {
+  res.json({ series: listarSeries() });
+});
+
+app.post("/api/deflactores", (req, res) => {
+  const { serie, csv } = req.body;
+  if (!serie || !/^[\w-]{1,40}$/.test(serie)) {
+    return res.status(400).json({ error: "El nombre de la serie es requerido y solo puede contener letras, números, '-' y '_'." });
+  }
+  if (!csv) {
+    return res.status(400).json({ error: "El contenido CSV es requerido." });
+  }
+
+  try {
+    const puntos = parseDeflactorCsv(csv);
+    guardarSerie(serie, puntos);
+    res.json({ serie, puntos: puntos.length, series: listarSeries() });
+  } catch (error: any) {
+    res.status(400).json({ error: error.message });
+  }
+});
+
+app.get("/api/mapeos", (req, res) => {
+  res.json({ mapeos: listarMapeos() });
+});
+
+app.post("/api/mapeos", (req, res) => {
+  const { anterior, nuevo } = req.body;
+  if (typeof anterior !== "string" || typeof nuevo !== "string") {
+    return res.status(400).json({ error: "El concepto anterior y el nuevo son requeridos." });
+  }
 
+  try {
+    guardarMapeo(anterior, nuevo);
+    res.json({ mapeos: listarMapeos() });
   } catch (error: any) {
-    console.error("Error en /api/comparar:", error.message);
+    const { estado, cuerpo } = respuestaError(error);
+    if (estado === 500) console.error("Error en /api/mapeos:", error.message);
+    res.status(estado).json(cuerpo);
+  }
+});
+
+app.delete("/api/mapeos/:id", (req, res) => {
+  try {
+    eliminarMapeo(Number(req.params.id));
+    res.json({ mapeos: listarMapeos() });
+  } catch (error: any) {
+    const { estado, cuerpo } = respuestaError(error);
+    if (estado === 500) console.error("Error en /api/mapeos:", error.message);
+    res.status(estado).json(cuerpo);
+  }
+});
+
+// Análisis guardados: parámetros, vista y datos capturados, con enlace permanente por id
+app.get("/api/analisis", (req, res) => {
+  res.json({ analisis: listarAnalisis() });
+});
+
+app.get("/api/analisis/:id", (req, res) => {
+  const analisis = obtenerAnalisis(req.params.id);
+  if (!analisis) {
+    return res.status(404).json({ error: "El análisis no existe." });
+  }
+  res.json(analisis);
+});
+
+app.post("/api/analisis", (req, res) => {
+  try {
+    res.status(201).json(guardarAnalisis(req.body));
+  } catch (error: any) {
+    if (error instanceof ErrorSolicitud) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error("Error en /api/analisis:", error.message);
+    res.status(500).json({ error: error.message || "Error interno del servidor" });
+  }
+});
+
+app.delete("/api/analisis/:id", (req, res) => {
+  try {
+    eliminarAnalisis(req.params.id);
+    res.json({ analisis: listarAnalisis() });
+  } catch (error: any) {
+    const { estado, cuerpo } = respuestaError(error);
+    if (estado === 500) console.error("Error en /api/analisis:", error.message);
+    res.status(estado).json(cuerpo);
+  }
+});
+
+// Consultas vigiladas: se actualizan según su frecuencia y notifican cuando se cumple una regla
+app.get("/api/vigilancias", (req, res) => {
+  res.json({ vigilancias: listarVigilancias() });
+});
+
+app.post("/api/vigilancias", (req, res) => {
+  try {
+    res.status(201).json(crearVigilancia(req.body));
+  } catch (error: any) {
+    if (error instanceof ErrorSolicitud) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error("Error en /api/vigilancias:", error.message);
     res.status(500).json({ error: error.message || "Error interno del servidor" });
   }
 });
 
+app.delete("/api/vigilancias/:id", (req, res) => {
+  try {
+    eliminarVigilancia(Number(req.params.id));
+    res.json({ vigilancias: listarVigilancias() });
+  } catch (error: any) {
+    const { estado, cuerpo } = respuestaError(error);
+    if (estado === 500) console.error("Error en /api/vigilancias:", error.message);
+    res.status(estado).json(cuerpo);
+  }
+});
+
+// Actualiza la consulta en el momento, sin esperar al planificador
+app.post("/api/vigilancias/:id/ejecutar", limitarPorCliente, async (req, res) => {
+  try {
+    res.json(await ejecutarVigilancia(Number(req.params.id), true));
+  } catch (error: any) {
+    const { estado, cuerpo } = respuestaError(error);
+    if (estado === 500) console.error("Error en /api/vigilancias/ejecutar:", error.message);
+    res.status(estado).json(cuerpo);
+  }
+});
+
+app.get("/api/vigilancias/:id/resultados", (req, res) => {
+  try {
+    res.json({ resultados: listarResultados(Number(req.params.id)) });
+  } catch (error: any) {
+    const { estado, cuerpo } = respuestaError(error);
+    if (estado === 500) console.error("Error en /api/vigilancias/resultados:", error.message);
+    res.status(estado).json(cuerpo);
+  }
+});
+
+app.get("/api/notificaciones", (req, res) => {
+  res.json(listarNotificaciones());
+});
+
+app.post("/api/notificaciones/leidas", (req, res) => {
+  marcarLeidas();
+  res.json(listarNotificaciones());
+});
+
+app.post("/api/notificaciones/:id/leida", (req, res) => {
+  try {
+    marcarLeidas(Number(req.params.id));
+    res.json(listarNotificaciones());
+  } catch (error: any) {
+    const { estado, cuerpo } = respuestaError(error);
+    if (estado === 500) console.error("Error en /api/notificaciones:", error.message);
+    res.status(estado).json(cuerpo);
+  }
+});
+
+app.post("/api/resumen", limitarPorCliente, async (req, res) => {
+  try {
+    res.json(await generarResumen(req.body));
+  } catch (error: any) {
+    const { estado, cuerpo } = respuestaError(error);
+    if (estado === 500) console.error("Error en /api/resumen:", error.message);
+    res.status(estado).json(cuerpo);
+  }
+});
+
+// Ingresos frente a gastos de la misma entidad y año; la contraparte se deduce de la URL si no se indica
+app.post("/api/balance", limitarPorCliente, async (req, res) => {
+  try {
+    res.json(await ejecutarBalance(req.body));
+  } catch (error: any) {
+    const { estado, cuerpo } = respuestaError(error);
+    if (estado === 500) console.error("Error en /api/balance:", error.message);
+    res.status(estado).json(cuerpo);
+  }
+});
+
+app.get("/api/snapshots", (req, res) => {
+  const url = typeof req.query.url === "string" && req.query.url ? req.query.url : undefined;
+  res.json({ snapshots: listarSnapshots(url) });
+});
+
 async function startServer() {
+  reanudarTrabajos();
+  iniciarPlanificador();
+
   if (process.env.NODE_ENV !== "production") {
     const vite = await createViteServer({
       server: { middlewareMode: true },
@@ -0,0 +1,124 @@
+import { randomBytes } from "crypto";
+import { db } from "./db";
+import { ErrorNoEncontrado, ErrorSolicitud } from "./errores";
+import { prepararComparacion } from "./comparacion";
+import { UNIDADES } from "../src/lib/format";
+import type { AnalisisGuardado, VistaAnalisis } from "../src/types";
+
+const MAX_NOMBRE = 120;
+const MAX_NOTAS = 2000;
+
+interface AnalisisRow {
+  id: string;
+  nombre: string;
+  notas: string;
+  parametros: string;
+  vista: string;
+  datos: string;
+  creado_en: string;
+}
+
+db.exec(`
+  CREATE TABLE IF NOT EXISTS analisis (
+    id TEXT PRIMARY KEY,
+    nombre TEXT NOT NULL,
+    notas TEXT NOT NULL,
+    parametros TEXT NOT NULL,
+    vista TEXT NOT NULL,
+    datos TEXT NOT NULL,
+    creado_en TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_analisis_creado ON analisis (creado_en);
+`);
+
+const insertAnalisis = db.prepare(`
+  INSERT INTO analisis (id, nombre, notas, parametros, vista, datos, creado_en) VALUES (?, ?, ?, ?, ?, ?, ?)
+`);
+const selectAnalisis = db.prepare(`SELECT * FROM analisis WHERE id = ?`);
+const selectRecientes = db.prepare(`
+  SELECT id, nombre, notas, parametros, vista, creado_en FROM analisis ORDER BY creado_en DESC LIMIT ?
+`);
+const deleteAnalisis = db.prepare(`DELETE FROM analisis WHERE id = ?`);
+
+function aAnalisis(row: AnalisisRow): AnalisisGuardado {
+  return {
+    id: row.id,
+    nombre: row.nombre,
+    notas: row.notas,
+    parametros: JSON.parse(row.parametros),
+    vista: JSON.parse(row.vista),
+    ...(row.datos ? { datos: JSON.parse(row.datos) } : {}),
+    creadoEn: row.creado_en
+  };
+}
+
+function leerVista(vista: any): VistaAnalisis {
+  if (!vista || typeof vista !== "object" || !vista.formato) {
+    throw new ErrorSolicitud("La vista del análisis debe incluir el formato de números.");
+  }
+  if (!UNIDADES.some(u => u.id === vista.formato.unidad) || !Number.isInteger(vista.formato.decimales)) {
+    throw new ErrorSolicitud("El formato de números del análisis no es válido.");
+  }
+  const orden = vista.orden && typeof vista.orden.key === "string" && ["asc", "desc"].includes(vista.orden.direction)
+    ? { key: vista.orden.key, direction: vista.orden.direction }
+    : null;
+  const ruta = Array.isArray(vista.ruta)
+    ? vista.ruta
+      .filter((paso: any) => paso && typeof paso.etiqueta === "string" && typeof paso.url === "string")
+      .map((paso: any) => ({ etiqueta: paso.etiqueta, url: paso.url }))
+    : [];
+  return {
+    filtro: typeof vista.filtro === "string" ? vista.filtro : "",
+    orden,
+    formato: { unidad: vista.formato.unidad, decimales: vista.formato.decimales },
+    montos: vista.montos === "real" ? "real" : "nominal",
+    ruta
+  };
+}
+
+// Guarda la comparación mostrada con sus datos tal como se capturaron, para reabrirla sin volver a consultar al MEF
+export function guardarAnalisis(body: any): AnalisisGuardado {
+  const nombre = typeof body?.nombre === "string" ? body.nombre.trim() : "";
+  if (!nombre) {
+    throw new ErrorSolicitud("El nombre del análisis es requerido.");
+  }
+  if (nombre.length > MAX_NOMBRE) {
+    throw new ErrorSolicitud(`El nombre del análisis no puede superar los ${MAX_NOMBRE} caracteres.`);
+  }
+  const notas = typeof body.notas === "string" ? body.notas.trim() : "";
+  if (notas.length > MAX_NOTAS) {
+    throw new ErrorSolicitud(`Las notas no pueden superar los ${MAX_NOTAS} caracteres.`);
+  }
+  if (!body.parametros || typeof body.parametros !== "object") {
+    throw new ErrorSolicitud("Los parámetros de la comparación son requeridos.");
+  }
+  // Los parámetros deben poder volver a ejecutarse, igual que los de una comparación nueva
+  prepararComparacion(body.parametros);
+  const datos = body.datos;
+  if (!datos || !Array.isArray(datos.data) || !datos.totales || !datos.metrica) {
+    throw new ErrorSolicitud("Los datos del análisis deben incluir las filas, los totales y la métrica.");
+  }
+  const vista = leerVista(body.vista);
+
+  // Identificador corto para el enlace permanente
+  const id = randomBytes(6).toString("base64url");
+  const creadoEn = new Date().toISOString();
+  insertAnalisis.run(id, nombre, notas, JSON.stringify(body.parametros), JSON.stringify(vista), JSON.stringify(datos), creadoEn);
+  return { id, nombre, notas, parametros: body.parametros, vista, creadoEn };
+}
+
+export function obtenerAnalisis(id: string): AnalisisGuardado | undefined {
+  const row = selectAnalisis.get(id) as AnalisisRow | undefined;
+  return row ? aAnalisis(row) : undefined;
+}
+
+export function listarAnalisis(limite = 50) {
+  return (selectRecientes.all(limite) as AnalisisRow[]).map(aAnalisis);
+}
+
+export function eliminarAnalisis(id: string) {
+  const { changes } = deleteAnalisis.run(id);
+  if (!changes) {
+    throw new ErrorNoEncontrado(`El análisis ${id} no existe.`);
+  }
+}
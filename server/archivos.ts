@@ -0,0 +1,158 @@
+import crypto from "crypto";
+import * as cheerio from "cheerio";
+import JSZip from "jszip";
+import { db } from "./db";
+import { DatosMef, parseMefHtml } from "./scraper";
+import { PREFIJO_ARCHIVO, guardarSnapshot } from "./snapshots";
+
+export interface ArchivoSubido {
+  nombre: string;
+  // Contenido del archivo en base64
+  contenido: string;
+}
+
+export interface PaginaCargada {
+  nombre: string;
+  year: number;
+  conceptos: number;
+}
+
+const MAX_ARCHIVOS = 30;
+// Un ZIP con demasiadas entradas o que se expande demasiado se rechaza antes de terminar de descomprimirlo
+const MAX_ENTRADAS_ZIP = 500;
+const MAX_BYTES_DESCOMPRIMIDOS = 200 * 1024 * 1024;
+
+// Por prefijo exacto: en LIKE el "_" de un nombre de grupo valdría por cualquier carácter
+const selectYearsGrupo = db.prepare(`SELECT DISTINCT year FROM snapshots WHERE substr(url, 1, ?) = ? ORDER BY year`);
+
+// Las páginas cargadas se guardan como capturas bajo una URL propia, con el año en el parámetro y=
+export function urlArchivo(grupo: string, year: number) {
+  return `${PREFIJO_ARCHIVO}${grupo}/consulta?y=${year}`;
+}
+
+// Las páginas guardadas desde el navegador suelen declarar su codificación en un <meta>
+function decodificarHtml(buffer: Buffer) {
+  const inicio = buffer.subarray(0, 4096).toString("latin1");
+  const charset = inicio.match(/<meta[^>]+charset\s*=\s*["']?([\w-]+)/i)?.[1]?.toLowerCase();
+  try {
+    return new TextDecoder(charset || "utf-8").decode(buffer);
+  } catch {
+    return new TextDecoder("utf-8").decode(buffer);
+  }
+}
+
+const yearValido = (texto: string | undefined) => {
+  const year = Number(texto);
+  return year >= 2000 && year <= new Date().getFullYear() + 1 ? year : undefined;
+};
+
+// El año sale del propio contenido (parámetro y= del formulario o rótulo del año);
+// si la página no lo trae, del nombre del archivo
+export function detectarYear(html: string, nombre: string) {
+  const $ = cheerio.load(html);
+
+  const candidatos = [
+    $("input[name='y']").attr("value"),
+    $("form").attr("action")?.match(/[?&]y=(\d{4})/)?.[1],
+    html.match(/[?&](?:amp;)?y=(\d{4})/)?.[1],
+    $("body").text().match(/A[ñn]o(?:\s+de\s+ejecuci[óo]n)?\s*:\s*(\d{4})/i)?.[1],
+    nombre.match(/(?:^|\D)(\d{4})(?:\D|$)/)?.[1]
+  ];
+
+  for (const candidato of candidatos) {
+    const year = yearValido(candidato);
+    if (year) return year;
+  }
+  throw new Error(`No se pudo detectar el año de '${nombre}'. Incluya el año en el nombre del archivo (por ejemplo, consulta-2024.html).`);
+}
+
+// Descomprime una entrada sumando lo leído al total de la carga; se detiene en cuanto lo supera
+function descomprimir(entrada: JSZip.JSZipObject, nombreZip: string, leidos: { bytes: number }) {
+  return new Promise<Buffer>((resolve, reject) => {
+    const partes: Buffer[] = [];
+    const flujo = entrada.nodeStream("nodebuffer");
+    flujo.on("data", (parte: Buffer) => {
+      leidos.bytes += parte.length;
+      if (leidos.bytes > MAX_BYTES_DESCOMPRIMIDOS) {
+        flujo.pause();
+        reject(new Error(`Las páginas de '${nombreZip}' ocupan más de ${MAX_BYTES_DESCOMPRIMIDOS / 1024 / 1024} MB descomprimidas.`));
+        return;
+      }
+      partes.push(parte);
+    });
+    flujo.on("error", reject);
+    flujo.on("end", () => resolve(Buffer.concat(partes)));
+  });
+}
+
+// Expande los ZIP y devuelve solo las páginas HTML, con su nombre original
+async function extraerHtml(archivo: ArchivoSubido, leidos: { bytes: number }) {
+  const buffer = Buffer.from(archivo.contenido, "base64");
+
+  if (!/\.zip$/i.test(archivo.nombre)) {
+    return [{ nombre: archivo.nombre, buffer }];
+  }
+
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(buffer);
+  } catch {
+    throw new Error(`El archivo '${archivo.nombre}' no es un ZIP válido.`);
+  }
+
+  if (Object.keys(zip.files).length > MAX_ENTRADAS_ZIP) {
+    throw new Error(`El archivo '${archivo.nombre}' tiene más de ${MAX_ENTRADAS_ZIP} entradas.`);
+  }
+  const entradas = Object.values(zip.files).filter(entrada => !entrada.dir && /\.html?$/i.test(entrada.name) && !entrada.name.startsWith("__MACOSX/"));
+  if (!entradas.length) {
+    throw new Error(`El archivo '${archivo.nombre}' no contiene páginas HTML.`);
+  }
+  // Una por una, para cortar en la entrada que supera el límite sin expandir las demás
+  const paginas: { nombre: string; buffer: Buffer }[] = [];
+  for (const entrada of entradas) {
+    paginas.push({ nombre: entrada.name.split("/").pop()!, buffer: await descomprimir(entrada, archivo.nombre, leidos) });
+  }
+  return paginas;
+}
+
+// Procesa las páginas con el mismo parser del scraper y las guarda como capturas del grupo
+export async function cargarArchivos(archivos: ArchivoSubido[], grupo?: string) {
+  const leidos = { bytes: 0 };
+  const paginas: { nombre: string; buffer: Buffer }[] = [];
+  for (const archivo of archivos) {
+    paginas.push(...await extraerHtml(archivo, leidos));
+  }
+  if (paginas.length > MAX_ARCHIVOS) {
+    throw new Error(`Se pueden cargar como máximo ${MAX_ARCHIVOS} páginas a la vez.`);
+  }
+
+  const procesadas: { nombre: string; year: number; datos: DatosMef }[] = paginas.map(({ nombre, buffer }) => {
+    const html = decodificarHtml(buffer);
+    try {
+      const datos = parseMefHtml(html);
+      // Los enlaces de desglose apuntan al portal original y no se pueden seguir desde un archivo
+      return { nombre, year: detectarYear(html, nombre), datos: { ...datos, navegacion: undefined } };
+    } catch (e: any) {
+      throw new Error(`Error en '${nombre}': ${e.message}`);
+    }
+  });
+
+  const repetido = procesadas.find((pagina, i) => procesadas.findIndex(p => p.year === pagina.year) !== i);
+  if (repetido) {
+    throw new Error(`Hay más de una página para el año ${repetido.year}. Cargue una sola página por año.`);
+  }
+
+  const idGrupo = grupo || crypto.randomUUID().slice(0, 8);
+  for (const pagina of procesadas) {
+    guardarSnapshot(urlArchivo(idGrupo, pagina.year), pagina.year, pagina.datos);
+  }
+
+  const cargadas: PaginaCargada[] = procesadas
+    .map(({ nombre, year, datos }) => ({ nombre, year, conceptos: Object.keys(datos.filas).length }))
+    .sort((a, b) => a.year - b.year);
+  // Un grupo puede completarse en varias cargas: se informan todos los años disponibles
+  const prefijo = `${PREFIJO_ARCHIVO}${idGrupo}/`;
+  const years = (selectYearsGrupo.all(prefijo.length, prefijo) as { year: number }[]).map(row => row.year);
+
+  return { grupo: idGrupo, paginas: cargadas, years, url: urlArchivo(idGrupo, years[years.length - 1]) };
+}
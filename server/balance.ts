@@ -0,0 +1,100 @@
+import { obtenerPagina, Pagina, PREFIJO_ARCHIVO } from "./snapshots";
+import { leerOpcionesSnapshot } from "./comparacion";
+import { dimensionDePagina } from "./consultas";
+import { validarUrlMef } from "./peticiones";
+import { ErrorSolicitud } from "./errores";
+import { COLUMNA_EJECUCION, sumarFilas } from "../src/lib/metricas";
+import { DIMENSIONES_CONSULTA, camposDesdeUrl, urlConsulta } from "../src/lib/consulta";
+import type { BalanceData, CamposConsulta, ConceptoBalance, LadoBalance, TipoConsulta } from "../src/types";
+
+const OTRO_TIPO: Record<TipoConsulta, TipoConsulta> = { gasto: "ingreso", ingreso: "gasto" };
+
+// La misma entidad y año en el navegador del otro tipo: se conservan el año y los filtros de la URL.
+// La agrupación no viaja en la URL, así que la contraparte muestra la agrupación inicial del navegador.
+export function urlContraparte(url: string) {
+  const campos = camposDesdeUrl(url);
+  if (url.startsWith(PREFIJO_ARCHIVO) || !campos.tipo || !campos.year) {
+    throw new ErrorSolicitud("No se puede deducir la consulta de contraparte de esta URL. Indique también el enlace de la otra consulta (ingreso o gasto).");
+  }
+  return urlConsulta({ ...campos, tipo: OTRO_TIPO[campos.tipo], dimension: "" } as CamposConsulta);
+}
+
+function ladoBalance(pagina: Pagina): LadoBalance {
+  const total = sumarFilas(Object.values(pagina.datos.filas));
+  const dimension = dimensionDePagina(pagina);
+  return {
+    url: pagina.url,
+    fetchedAt: pagina.fetchedAt,
+    origen: pagina.origen,
+    dimension: DIMENSIONES_CONSULTA.find(d => d.id === dimension)?.etiqueta ?? null,
+    conceptos: Object.keys(pagina.datos.filas).length,
+    pia: total.pia,
+    pim: total.pim,
+    ejecucion: total[COLUMNA_EJECUCION[pagina.datos.tipo]]
+  };
+}
+
+// Concepto por concepto solo tiene sentido si ambas páginas se agrupan igual (p. ej. por rubro)
+function conceptosBalance(ingreso: Pagina, gasto: Pagina): ConceptoBalance[] {
+  const conceptos = new Set([...Object.keys(ingreso.datos.filas), ...Object.keys(gasto.datos.filas)]);
+  return Array.from(conceptos)
+    .map(concepto => {
+      const recaudado = ingreso.datos.filas[concepto]?.recaudado ?? 0;
+      const devengado = gasto.datos.filas[concepto]?.devengado ?? 0;
+      return { concepto, recaudado, devengado, saldo: recaudado - devengado };
+    })
+    .sort((a, b) => Math.max(b.recaudado, b.devengado) - Math.max(a.recaudado, a.devengado));
+}
+
+// Motor de /api/balance: ingresos frente a gastos de una misma entidad y año.
+// El tipo de cada página se detecta por sus columnas, así que el orden de las URLs no importa.
+export async function ejecutarBalance(body: any): Promise<BalanceData> {
+  const { url, contraparte } = body;
+  if (!url) {
+    throw new ErrorSolicitud("La URL es requerida.");
+  }
+  const urls: string[] = [url, contraparte || urlContraparte(url)];
+  if (urls[0] === urls[1]) {
+    throw new ErrorSolicitud("La consulta de ingreso y la de gasto son la misma URL.");
+  }
+
+  const years = urls.map(destino => {
+    const yearMatch = destino.match(/y=(\d{4})/);
+    if (!yearMatch) {
+      throw new ErrorSolicitud(`La URL ${destino} no contiene el parámetro de año 'y='.`);
+    }
+    if (!destino.startsWith(PREFIJO_ARCHIVO)) validarUrlMef(destino);
+    return parseInt(yearMatch[1], 10);
+  });
+  if (years[0] !== years[1]) {
+    throw new ErrorSolicitud(`Las dos consultas deben ser del mismo año (${years[0]} y ${years[1]}).`);
+  }
+
+  const { opciones, error: errorOpciones } = leerOpcionesSnapshot(body);
+  if (errorOpciones) {
+    throw new ErrorSolicitud(errorOpciones);
+  }
+
+  const paginas = await Promise.all(urls.map(destino => obtenerPagina(destino, years[0], opciones)));
+  const ingreso = paginas.find(pagina => pagina.datos.tipo === "ingreso");
+  const gasto = paginas.find(pagina => pagina.datos.tipo === "gasto");
+  if (!ingreso || !gasto) {
+    throw new ErrorSolicitud(`Las dos páginas son consultas de ${paginas[0].datos.tipo}. Indique una consulta de ingreso y una de gasto.`);
+  }
+
+  const ladoIngreso = ladoBalance(ingreso);
+  const ladoGasto = ladoBalance(gasto);
+  const mismaAgrupacion = ladoIngreso.dimension !== null && ladoIngreso.dimension === ladoGasto.dimension;
+
+  return {
+    year: years[0],
+    ingreso: ladoIngreso,
+    gasto: ladoGasto,
+    saldo: {
+      pia: ladoIngreso.pia - ladoGasto.pia,
+      pim: ladoIngreso.pim - ladoGasto.pim,
+      ejecucion: ladoIngreso.ejecucion - ladoGasto.ejecucion
+    },
+    conceptos: mismaAgrupacion ? conceptosBalance(ingreso, gasto) : null
+  };
+}
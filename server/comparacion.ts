@@ -0,0 +1,411 @@
+import { FilaMef, Metrica, METRICA_POR_DEFECTO, METRICAS_ACUMULABLES, COLUMNA_EJECUCION, getMetrica, metricaParaTipo, sumarFilas, acumularHastaMes } from "../src/lib/metricas";
+import { MESES, Periodo, mesCerradoPorDefecto, etiquetaPeriodo } from "../src/lib/periodo";
+import { obtenerPagina, ModoDatos, OpcionesSnapshot, PREFIJO_ARCHIVO } from "./snapshots";
+import { validarUrlMef } from "./peticiones";
+import { NavegacionMef } from "./scraper";
+import { factoresDeflactor } from "./deflactores";
+import { Emparejamiento, emparejarConceptos } from "./emparejamiento";
+import { proyectarCierre } from "./proyeccion";
+import { ErrorMef, ErrorSolicitud } from "./errores";
+import type { EventoProgreso } from "../src/types";
+
+// Máximo de años que se pueden scrapear en una sola serie
+const MAX_YEARS_SERIE = 15;
+
+export function urlParaYear(url: string, year: number) {
+  return url.replace(/y=\d{4}/, `y=${year}`);
+}
+
+// Se calcula sobre montos sin redondear; el redondeo es solo de presentación.
+// Un concepto que pasa de 0 a un monto positivo no tiene variación % definida: se marca como nuevo
+export function calcularVariacion(montoAnterior: number, montoActual: number) {
+  const variacionS = montoActual - montoAnterior;
+  let variacionPorcentaje: number | null = 0;
+
+  if (montoAnterior !== 0) {
+    variacionPorcentaje = ((montoActual / montoAnterior) * 100) - 100;
+  } else if (montoActual !== 0) {
+    variacionPorcentaje = null;
+  }
+
+  return { variacionS, variacionPorcentaje, nuevo: montoAnterior === 0 && montoActual > 0 };
+}
+
+// Tasa de crecimiento anual compuesta entre el primer y el último año de la serie
+export function calcularCagr(montoInicial: number, montoFinal: number, periodos: number) {
+  if (periodos <= 0 || montoInicial <= 0 || montoFinal <= 0) return null;
+  return (Math.pow(montoFinal / montoInicial, 1 / periodos) - 1) * 100;
+}
+
+// Alinea los conceptos de todos los años y calcula series, variaciones y totales de la métrica.
+// Con factores de deflactor los montos se expresan a precios constantes del año base.
+export function compararSerie(
+  years: number[],
+  datosPorYear: Record<string, FilaMef>[],
+  metrica: Metrica,
+  navegacion?: NavegacionMef,
+  emparejamientos: Record<string, Emparejamiento[]> = {},
+  factores?: Record<number, number>
+) {
+  const conceptos = new Set(datosPorYear.flatMap(datos => Object.keys(datos)));
+
+  // Montos en soles, sin escalar ni truncar; los porcentajes no se deflactan
+  const escalar = (valor: number, year: number) =>
+    metrica.tipo === 'monto' ? valor * (factores?.[year] ?? 1) : valor;
+
+  const serie = Array.from(conceptos).map(concepto => {
+    const montos = datosPorYear.map((datos, i) => datos[concepto] ? escalar(metrica.valor(datos[concepto]), years[i]) : 0);
+
+    const variaciones = montos.slice(1).map((monto, i) => ({
+      year: years[i + 1],
+      ...calcularVariacion(montos[i], monto)
+    }));
+
+    let idxMax = 0;
+    let idxMin = 0;
+    montos.forEach((monto, i) => {
+      if (monto > montos[idxMax]) idxMax = i;
+      if (monto < montos[idxMin]) idxMin = i;
+    });
+
+    return {
+      concepto,
+      montos,
+      variaciones,
+      cagr: metrica.tipo === 'monto' ? calcularCagr(montos[0], montos[montos.length - 1], montos.length - 1) : null,
+      yearMax: years[idxMax],
+      yearMin: years[idxMin],
+      emparejamientos: emparejamientos[concepto] ?? []
+    };
+  });
+
+  // Sort by latest amount descending
+  serie.sort((a, b) => b.montos[b.montos.length - 1] - a.montos[a.montos.length - 1]);
+
+  // Los porcentajes no se suman: se recalculan sobre las columnas totalizadas
+  const totales = years.map((year, i) => ({
+    year,
+    monto: metrica.tipo === 'monto'
+      ? serie.reduce((sum, item) => sum + item.montos[i], 0)
+      : metrica.valor(sumarFilas(Object.values(datosPorYear[i])))
+  }));
+
+  // La vista de dos columnas compara siempre los dos últimos años de la serie
+  const result = serie.map(item => {
+    const montoAnterior = item.montos[item.montos.length - 2];
+    const montoActual = item.montos[item.montos.length - 1];
+    return {
+      concepto: item.concepto,
+      montoAnterior,
+      montoActual,
+      ...calcularVariacion(montoAnterior, montoActual),
+      desglosable: Boolean(navegacion?.enlaces[item.concepto]),
+      emparejamientos: item.emparejamientos
+    };
+  });
+
+  // Sort by variacionS descending
+  result.sort((a, b) => b.variacionS - a.variacionS);
+
+  const totalAnterior = totales[totales.length - 2].monto;
+  const totalActual = totales[totales.length - 1].monto;
+
+  return {
+    data: result,
+    totales: {
+      montoAnterior: totalAnterior,
+      montoActual: totalActual,
+      ...calcularVariacion(totalAnterior, totalActual)
+    },
+    serie: {
+      years,
+      totales,
+      data: serie
+    }
+  };
+}
+
+// Opciones de caché comunes a los endpoints que consultan páginas del MEF
+export function leerOpcionesSnapshot(body: any): { opciones?: OpcionesSnapshot; error?: string } {
+  const { modo = "online", maxAgeHoras, forzar, hasta } = body;
+
+  if (modo !== "online" && modo !== "offline") {
+    return { error: `El modo '${modo}' no es válido. Use 'online' u 'offline'.` };
+  }
+  if (maxAgeHoras !== undefined && !(Number(maxAgeHoras) >= 0)) {
+    return { error: "La antigüedad máxima de la caché debe ser un número de horas mayor o igual a 0." };
+  }
+  if (hasta !== undefined && (typeof hasta !== "string" || isNaN(Date.parse(hasta)))) {
+    return { error: `La fecha '${hasta}' no es válida.` };
+  }
+
+  return {
+    opciones: {
+      modo: modo as ModoDatos,
+      maxAgeHoras: maxAgeHoras !== undefined ? Number(maxAgeHoras) : undefined,
+      forzar: Boolean(forzar),
+      hasta
+    }
+  };
+}
+
+export interface ConsultaExplicita {
+  url: string;
+  year: number;
+  etiqueta: string;
+}
+
+// Dos consultas arbitrarias (otra región, otro año, otro nivel), cada una con su propia etiqueta.
+// Cada lado es una URL completa, o parámetros que reemplazan a los de la URL base de la petición.
+export function leerConsultas(body: any): { consultas?: ConsultaExplicita[]; error?: string } {
+  const { consultas, url: urlBase } = body;
+  if (!Array.isArray(consultas) || consultas.length !== 2) {
+    return { error: "Debe indicar exactamente dos consultas para comparar." };
+  }
+
+  const resultado: ConsultaExplicita[] = [];
+  for (const [i, consulta] of consultas.entries()) {
+    const lado = i === 0 ? "primera" : "segunda";
+    const origen = consulta?.url || urlBase;
+    if (!origen) {
+      return { error: `La ${lado} consulta no tiene URL ni una URL base a la cual aplicar sus parámetros.` };
+    }
+
+    let url: string = origen;
+    if (consulta.parametros) {
+      if (typeof consulta.parametros !== "object") {
+        return { error: `Los parámetros de la ${lado} consulta deben ser un objeto.` };
+      }
+      let destino: URL;
+      try {
+        destino = new URL(origen);
+      } catch {
+        return { error: `La URL de la ${lado} consulta no es válida.` };
+      }
+      for (const [clave, valor] of Object.entries(consulta.parametros)) {
+        destino.searchParams.set(clave, String(valor));
+      }
+      url = destino.toString();
+    }
+
+    const yearMatch = url.match(/y=(\d{4})/);
+    if (!yearMatch) {
+      return { error: `La ${lado} consulta no contiene el parámetro de año 'y='.` };
+    }
+    const year = parseInt(yearMatch[1], 10);
+    const etiqueta = typeof consulta.etiqueta === "string" && consulta.etiqueta.trim() ? consulta.etiqueta.trim() : String(year);
+    resultado.push({ url, year, etiqueta });
+  }
+
+  if (resultado[0].url === resultado[1].url) {
+    return { error: "Las dos consultas son iguales." };
+  }
+  if (resultado[0].etiqueta === resultado[1].etiqueta) {
+    return { error: "Use etiquetas distintas para cada consulta." };
+  }
+  return { consultas: resultado };
+}
+
+// Avisos de avance y cancelación cuando la comparación corre como trabajo en segundo plano
+export interface Seguimiento {
+  alAvanzar?: (evento: EventoProgreso) => void;
+  signal?: AbortSignal;
+}
+
+// Valida la petición de /api/comparar sin consultar páginas, para rechazarla antes de encolarla.
+// Los errores de validación se lanzan como ErrorSolicitud para responderlos con 400.
+export function prepararComparacion(body: any) {
+  const { url, yearInicio, metrica: metricaId = METRICA_POR_DEFECTO, periodo: tipoPeriodo = "anual", mesCorte, deflactor: serieDeflactor, yearBase: yearBaseRaw } = body;
+
+  // Sin consultas explícitas se compara la URL consigo misma cambiando el año
+  let consultas: ConsultaExplicita[] | undefined;
+  if (body.consultas !== undefined) {
+    const { consultas: leidas, error: errorConsultas } = leerConsultas(body);
+    if (errorConsultas) {
+      throw new ErrorSolicitud(errorConsultas);
+    }
+    consultas = leidas;
+  } else if (!url) {
+    throw new ErrorSolicitud("La URL es requerida.");
+  }
+
+  const yearMatch = consultas ? null : url.match(/y=(\d{4})/);
+  if (!consultas && !yearMatch) {
+    throw new ErrorSolicitud("La URL no contiene el parámetro de año 'y='. Asegúrese de copiar el enlace correcto o arme la consulta con el formulario.");
+  }
+
+  const metrica = getMetrica(metricaId);
+  if (!metrica) {
+    throw new ErrorSolicitud(`La métrica '${metricaId}' no es válida.`);
+  }
+
+  const { opciones: opcionesSnapshot, error: errorOpciones } = leerOpcionesSnapshot(body);
+  if (errorOpciones) {
+    throw new ErrorSolicitud(errorOpciones);
+  }
+
+  const yearActual = consultas ? consultas[1].year : parseInt(yearMatch![1], 10);
+  const yearAnterior = consultas ? consultas[0].year : yearActual - 1;
+  const yearDesde = yearInicio !== undefined && yearInicio !== null && yearInicio !== '' && !consultas ? Number(yearInicio) : yearAnterior;
+
+  if (!consultas) {
+    if (!Number.isInteger(yearDesde) || yearDesde > yearAnterior) {
+      throw new ErrorSolicitud(`El año inicial debe ser un año entero anterior a ${yearActual}.`);
+    }
+    if (yearActual - yearDesde + 1 > MAX_YEARS_SERIE) {
+      throw new ErrorSolicitud(`La serie no puede abarcar más de ${MAX_YEARS_SERIE} años.`);
+    }
+  }
+
+  if (tipoPeriodo !== "anual" && tipoPeriodo !== "acumulado") {
+    throw new ErrorSolicitud(`El periodo '${tipoPeriodo}' no es válido. Use 'anual' o 'acumulado'.`);
+  }
+  const periodo: Periodo = { tipo: tipoPeriodo };
+  if (periodo.tipo === "acumulado") {
+    periodo.mesCorte = mesCorte !== undefined && mesCorte !== null && mesCorte !== '' ? Number(mesCorte) : mesCerradoPorDefecto(yearActual);
+    if (!Number.isInteger(periodo.mesCorte) || periodo.mesCorte < 1 || periodo.mesCorte > 12) {
+      throw new ErrorSolicitud("El mes de corte debe ser un número entre 1 y 12.");
+    }
+    if (!METRICAS_ACUMULABLES.includes(metrica.id)) {
+      throw new ErrorSolicitud(`La comparación acumulada a ${MESES[periodo.mesCorte - 1].toLowerCase()} solo está disponible para la ejecución (devengado o recaudado) y su avance.`);
+    }
+  }
+
+  const years: number[] = [];
+  const urls: string[] = [];
+  if (consultas) {
+    consultas.forEach(consulta => {
+      years.push(consulta.year);
+      urls.push(consulta.url);
+    });
+  } else {
+    for (let year = yearDesde; year <= yearActual; year++) {
+      years.push(year);
+      urls.push(urlParaYear(url, year));
+    }
+  }
+  // En los mensajes de error cada lado se nombra por su etiqueta o por su año
+  const rotulos = consultas ? consultas.map(c => c.etiqueta) : years.map(String);
+  urls.forEach(urlPagina => {
+    if (!urlPagina.startsWith(PREFIJO_ARCHIVO)) validarUrlMef(urlPagina);
+  });
+
+  // Los porcentajes no dependen del nivel de precios: solo los montos se deflactan
+  let deflactor: { serie: string; yearBase: number; factores: Record<number, number>; estimados: number[] } | null = null;
+  if (serieDeflactor && metrica.tipo === "monto") {
+    const yearBase = yearBaseRaw !== undefined && yearBaseRaw !== null && yearBaseRaw !== '' ? Number(yearBaseRaw) : yearActual;
+    if (!Number.isInteger(yearBase)) {
+      throw new ErrorSolicitud("El año base de los precios constantes debe ser un año entero.");
+    }
+    try {
+      deflactor = { serie: serieDeflactor, yearBase, ...factoresDeflactor(serieDeflactor, years, yearBase, periodo.mesCorte) };
+    } catch (e: any) {
+      throw new ErrorSolicitud(e.message);
+    }
+  }
+
+  return { consultas, metrica, opcionesSnapshot, yearActual, yearAnterior, periodo, years, urls, rotulos, deflactor };
+}
+
+// Motor de /api/comparar: obtiene las páginas y arma la respuesta
+export async function ejecutarComparacion(body: any, seguimiento: Seguimiento = {}) {
+  const { consultas, metrica: metricaPedida, opcionesSnapshot, yearActual, yearAnterior, periodo, years, urls, rotulos, deflactor } = prepararComparacion(body);
+  const { alAvanzar, signal } = seguimiento;
+
+  let completadas = 0;
+  const paginas = await Promise.all(
+    urls.map(async (urlPagina, i) => {
+      const pagina = await obtenerPagina(urlPagina, years[i], opcionesSnapshot, signal).catch(e => {
+        // Se conserva la clase del error para que la interfaz distinga la causa
+        e.message = `Error en datos de ${rotulos[i]}: ${e.message}`;
+        throw e;
+      });
+      completadas++;
+      alAvanzar?.({
+        tipo: "pagina",
+        year: years[i],
+        rotulo: rotulos[i],
+        filas: Object.keys(pagina.datos.filas).length,
+        origen: pagina.origen,
+        completadas,
+        total: urls.length
+      });
+      return pagina;
+    })
+  );
+  signal?.throwIfAborted();
+
+  // Gasto e ingreso no se comparan entre sí; en una consulta de ingreso el devengado pedido se lee como recaudado
+  const tipo = paginas[0].datos.tipo;
+  const distinta = paginas.findIndex(pagina => pagina.datos.tipo !== tipo);
+  if (distinta >= 0) {
+    throw new ErrorSolicitud(`${rotulos[0]} es una consulta de ${tipo} y ${rotulos[distinta]} una de ${paginas[distinta].datos.tipo}. Para contrastar ingresos con gastos use la vista de ingresos y gastos.`);
+  }
+  const idMetrica = metricaParaTipo(metricaPedida.id, tipo);
+  if (!idMetrica) {
+    throw new ErrorSolicitud(`La métrica '${metricaPedida.etiqueta}' no está disponible en consultas de ${tipo}.`);
+  }
+  const metrica = getMetrica(idMetrica)!;
+
+  // No comparar en silencio una columna que la página no trae
+  paginas.forEach((pagina, i) => {
+    const faltantes = metrica.requiere.filter(col => !pagina.datos.columnas.includes(col));
+    if (faltantes.length) {
+      throw new ErrorMef(`Error en datos de ${rotulos[i]}: la tabla no incluye las columnas requeridas por '${metrica.etiqueta}' (${faltantes.join(", ")}). Encabezado encontrado: ${pagina.datos.encabezado.filter(Boolean).join(" | ")}`, "parseo");
+    }
+  });
+
+  // En el periodo acumulado cada año se corta en el mismo mes usando la ejecución mensual
+  const datosPorPagina = paginas.map((pagina, i) => {
+    if (periodo.tipo !== "acumulado") return pagina.datos.filas;
+
+    const mensual = pagina.datos.mensual;
+    if (!mensual) {
+      throw new ErrorSolicitud(`Error en datos de ${rotulos[i]}: la consulta no incluye la ejecución mensual. Use la vista por meses de Consulta Amigable para comparar el mismo periodo.`);
+    }
+    const filas: Record<string, FilaMef> = {};
+    for (const [concepto, fila] of Object.entries(pagina.datos.filas)) {
+      filas[concepto] = acumularHastaMes(fila, mensual[concepto] || [], periodo.mesCorte!, COLUMNA_EJECUCION[tipo]);
+    }
+    return filas;
+  });
+  // Une los conceptos renombrados entre años bajo el nombre del año más reciente; entre consultas
+  // distintas (otra región, otro nivel) los nombres parecidos no son el mismo concepto
+  const mismaConsulta = !consultas || urlParaYear(urls[0], 0) === urlParaYear(urls[1], 0);
+  const { datosPorYear, emparejamientos } = mismaConsulta
+    ? emparejarConceptos(years, datosPorPagina)
+    : { datosPorYear: datosPorPagina, emparejamientos: {} };
+  // El desglose sigue una sola URL, así que no aplica al comparar dos consultas
+  const navegacion = consultas ? undefined : paginas[paginas.length - 1].datos.navegacion;
+
+  const real = deflactor && {
+    deflactor: deflactor.serie,
+    yearBase: deflactor.yearBase,
+    factores: deflactor.factores,
+    estimados: deflactor.estimados,
+    ...compararSerie(years, datosPorYear, metrica, navegacion, emparejamientos, deflactor.factores)
+  };
+
+  const { data: result, totales: totalesComparacion, serie } = compararSerie(years, datosPorYear, metrica, navegacion, emparejamientos);
+
+  // El cierre se proyecta sobre la ejecución mensual cruda, con el PIM del año actual
+  const proyeccion = !consultas
+    ? proyectarCierre(years, paginas, paginas[paginas.length - 1].datos.filas, emparejamientos, periodo.mesCorte ?? mesCerradoPorDefecto(yearActual))
+    : null;
+
+  return {
+    yearActual,
+    yearAnterior,
+    etiquetas: consultas ? { anterior: consultas[0].etiqueta, actual: consultas[1].etiqueta } : null,
+    tipo,
+    periodo: { ...periodo, etiqueta: etiquetaPeriodo(periodo) },
+    metrica: { id: metrica.id, etiqueta: metrica.etiqueta, abreviatura: metrica.abreviatura, tipo: metrica.tipo },
+    data: result,
+    totales: totalesComparacion,
+    real,
+    niveles: navegacion?.formulario?.niveles ?? [],
+    fuentes: paginas.map(({ url, year, fetchedAt, origen }) => ({ url, year, fetchedAt, origen })),
+    serie,
+    proyeccion
+  };
+}
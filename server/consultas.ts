@@ -0,0 +1,120 @@
+import { obtenerPagina, Pagina, PREFIJO_ARCHIVO } from "./snapshots";
+import { resolverNivel } from "./navegacion";
+import { validarUrlMef } from "./peticiones";
+import { ErrorSolicitud } from "./errores";
+import {
+  DIMENSIONES_CONSULTA, FILTROS_CONSULTA, NIVELES_GOBIERNO, PRIMER_YEAR_CONSULTA, TIPOS_CONSULTA,
+  camposDesdeUrl, dimensionDeRotulo, opcionDeConcepto, urlConsulta
+} from "../src/lib/consulta";
+import type { CamposConsulta, ConsultaConstruida, TipoConsulta } from "../src/types";
+
+export function leerCampos(body: any): CamposConsulta {
+  const year = Number(body?.year);
+  const ultimoYear = new Date().getFullYear();
+  if (!Number.isInteger(year) || year < PRIMER_YEAR_CONSULTA || year > ultimoYear) {
+    throw new ErrorSolicitud(`El año debe estar entre ${PRIMER_YEAR_CONSULTA} y ${ultimoYear}.`);
+  }
+  const tipo: TipoConsulta = body.tipo || "gasto";
+  if (!Object.hasOwn(TIPOS_CONSULTA, tipo)) {
+    throw new ErrorSolicitud(`El tipo de consulta '${tipo}' no es válido. Use 'gasto' o 'ingreso'.`);
+  }
+
+  const campos: CamposConsulta = { year, tipo, nivelGobierno: "", sector: "", pliego: "", dimension: "" };
+  FILTROS_CONSULTA.forEach((filtro, idx) => {
+    const valor = typeof body[filtro.id] === "string" ? body[filtro.id].trim().toUpperCase() : "";
+    if (!valor) return;
+    if (!/^[A-Z0-9-]{1,10}$/.test(valor)) {
+      throw new ErrorSolicitud(`El código de ${filtro.etiqueta.toLowerCase()} '${valor}' no es válido.`);
+    }
+    // Los filtros se anidan: un pliego pertenece a un sector y este a un nivel de gobierno
+    const anterior = FILTROS_CONSULTA[idx - 1];
+    if (anterior && !campos[anterior.id]) {
+      throw new ErrorSolicitud(`Para filtrar por ${filtro.etiqueta.toLowerCase()} elija antes el ${anterior.etiqueta.toLowerCase()}.`);
+    }
+    campos[filtro.id] = valor;
+  });
+  if (campos.nivelGobierno && !NIVELES_GOBIERNO.some(nivel => nivel.codigo === campos.nivelGobierno)) {
+    throw new ErrorSolicitud(`El nivel de gobierno '${campos.nivelGobierno}' no es válido. Use ${NIVELES_GOBIERNO.map(n => `'${n.codigo}'`).join(", ")}.`);
+  }
+
+  const dimension = DIMENSIONES_CONSULTA.find(d => d.id === body.dimension);
+  if (!dimension) {
+    throw new ErrorSolicitud("Elija la dimensión por la que se agrupan las filas.");
+  }
+  if (!dimension.tipos.includes(tipo)) {
+    throw new ErrorSolicitud(`Las consultas de ${TIPOS_CONSULTA[tipo].etiqueta.toLowerCase()} no se agrupan por ${dimension.etiqueta.toLowerCase()}.`);
+  }
+  campos.dimension = dimension.id;
+  return campos;
+}
+
+// La dimensión de una página se reconoce por el rótulo de su columna descriptiva
+export function dimensionDePagina(pagina: Pagina) {
+  return pagina.datos.encabezado.map(dimensionDeRotulo).find(Boolean)?.id;
+}
+
+function dimensionesDisponibles(pagina: Pagina) {
+  const ids = (pagina.datos.navegacion?.formulario?.niveles ?? [])
+    .map(nivel => dimensionDeRotulo(nivel.etiqueta)?.id)
+    .filter(Boolean);
+  return [...new Set(ids)];
+}
+
+function aConsultaConstruida(pagina: Pagina, campos: CamposConsulta): ConsultaConstruida {
+  return {
+    url: pagina.url,
+    campos,
+    opciones: Object.keys(pagina.datos.filas).map(opcionDeConcepto),
+    dimensiones: dimensionesDisponibles(pagina)
+  };
+}
+
+// Arma la URL con el año y los filtros, elige la agrupación con el botón del Navegador y
+// consulta la página final para confirmar que Consulta Amigable la responde con datos
+export async function construirConsulta(body: any): Promise<ConsultaConstruida> {
+  const campos = leerCampos(body);
+  const base = urlConsulta(campos);
+  validarUrlMef(base);
+
+  const pagina = await obtenerPagina(base, campos.year);
+  if (dimensionDePagina(pagina) === campos.dimension) {
+    return aConsultaConstruida(pagina, campos);
+  }
+
+  const boton = pagina.datos.navegacion?.formulario?.niveles
+    .find(nivel => dimensionDeRotulo(nivel.etiqueta)?.id === campos.dimension);
+  if (!boton) {
+    const etiqueta = DIMENSIONES_CONSULTA.find(d => d.id === campos.dimension)!.etiqueta;
+    const disponibles = dimensionesDisponibles(pagina).map(id => DIMENSIONES_CONSULTA.find(d => d.id === id)!.etiqueta);
+    throw new ErrorSolicitud(`Esta consulta no permite agrupar por ${etiqueta.toLowerCase()}.${disponibles.length ? ` Dimensiones disponibles: ${disponibles.join(", ")}.` : ""}`);
+  }
+
+  const url = await resolverNivel(pagina, boton.id);
+  return aConsultaConstruida(await obtenerPagina(url, campos.year), campos);
+}
+
+// Lee un enlace pegado para precargar el formulario: los filtros salen del query string y la
+// dimensión, del encabezado de la página
+export async function analizarConsulta(body: any): Promise<ConsultaConstruida> {
+  const url = typeof body?.url === "string" ? body.url.trim() : "";
+  if (!url) {
+    throw new ErrorSolicitud("La URL es requerida.");
+  }
+  if (url.startsWith(PREFIJO_ARCHIVO)) {
+    throw new ErrorSolicitud("Las páginas cargadas como archivo no se pueden editar en el formulario.");
+  }
+  validarUrlMef(url);
+
+  const campos = camposDesdeUrl(url);
+  if (!campos.year) {
+    throw new ErrorSolicitud("La URL no contiene el parámetro de año 'y='. Arme la consulta con el formulario o copie el enlace desde el Navegador de Consulta Amigable.");
+  }
+  const pagina = await obtenerPagina(url, campos.year);
+  return aConsultaConstruida(pagina, {
+    nivelGobierno: "",
+    sector: "",
+    pliego: "",
+    ...campos,
+    dimension: dimensionDePagina(pagina) ?? ""
+  } as CamposConsulta);
+}
@@ -0,0 +1,34 @@
+import type { NextFunction, Request, Response } from "express";
+
+// Consultas que disparan scraping permitidas por cliente y por minuto; 0 desactiva el límite
+const CONSULTAS_POR_MINUTO = Number(process.env.LIMITE_CONSULTAS_POR_MINUTO ?? 30);
+const VENTANA_MS = 60000;
+
+const ventanas = new Map<string, { inicio: number; cuenta: number }>();
+
+// Límite por IP en ventanas fijas de un minuto; al excederlo se responde 429 con Retry-After
+export function limitarPorCliente(req: Request, res: Response, next: NextFunction) {
+  if (!(CONSULTAS_POR_MINUTO > 0)) return next();
+
+  const ahora = Date.now();
+  const cliente = req.ip || req.socket.remoteAddress || "desconocido";
+  let ventana = ventanas.get(cliente);
+  if (!ventana || ahora - ventana.inicio >= VENTANA_MS) {
+    // Un cliente nuevo es buen momento para descartar las ventanas vencidas de los demás
+    if (!ventana) {
+      for (const [clave, otra] of ventanas) {
+        if (ahora - otra.inicio >= VENTANA_MS) ventanas.delete(clave);
+      }
+    }
+    ventana = { inicio: ahora, cuenta: 0 };
+    ventanas.set(cliente, ventana);
+  }
+
+  ventana.cuenta++;
+  if (ventana.cuenta > CONSULTAS_POR_MINUTO) {
+    const segundos = Math.ceil((ventana.inicio + VENTANA_MS - ahora) / 1000);
+    res.setHeader("Retry-After", String(segundos));
+    return res.status(429).json({ error: `Demasiadas consultas desde este equipo. Espere ${segundos} segundos antes de volver a intentar.` });
+  }
+  next();
+}
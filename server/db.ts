@@ -0,0 +1,43 @@
+import Database from "better-sqlite3";
+import fs from "fs";
+import path from "path";
+
+const DB_PATH = process.env.MEF_DB_PATH || path.join("data", "mef-analyzer.db");
+
+fs.mkdirSync(path.dirname(DB_PATH), { recursive: true });
+
+export const db = new Database(DB_PATH);
+db.pragma("journal_mode = WAL");
+
+db.exec(`
+  CREATE TABLE IF NOT EXISTS snapshots (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    url TEXT NOT NULL,
+    year INTEGER NOT NULL,
+    fetched_at TEXT NOT NULL,
+    columnas TEXT NOT NULL,
+    encabezado TEXT NOT NULL,
+    filas TEXT NOT NULL,
+    navegacion TEXT,
+    mensual TEXT
+  );
+  CREATE INDEX IF NOT EXISTS idx_snapshots_url ON snapshots (url, fetched_at);
+
+  CREATE TABLE IF NOT EXISTS deflactores (
+    serie TEXT NOT NULL,
+    periodo TEXT NOT NULL,
+    indice REAL NOT NULL,
+    PRIMARY KEY (serie, periodo)
+  );
+`);
+
+// Migraciones de columnas agregadas después de la primera versión del esquema
+export function agregarColumna(tabla: string, columna: string, tipo: string) {
+  const existentes = (db.prepare(`PRAGMA table_info(${tabla})`).all() as { name: string }[]).map(c => c.name);
+  if (!existentes.includes(columna)) {
+    db.exec(`ALTER TABLE ${tabla} ADD COLUMN ${columna} ${tipo}`);
+  }
+}
+
+agregarColumna("snapshots", "navegacion", "TEXT");
+agregarColumna("snapshots", "mensual", "TEXT");
@@ -0,0 +1,140 @@
+import fs from "fs";
+import path from "path";
+import { fileURLToPath } from "url";
+import { db } from "./db";
+
+export interface PuntoDeflactor {
+  // "2024" para índices anuales o "2024-03" para mensuales
+  periodo: string;
+  indice: number;
+}
+
+export const SERIE_POR_DEFECTO = "ipc-lima";
+
+const RECURSOS = path.join(path.dirname(fileURLToPath(import.meta.url)), "recursos");
+
+const deleteSerie = db.prepare(`DELETE FROM deflactores WHERE serie = ?`);
+const insertPunto = db.prepare(`INSERT INTO deflactores (serie, periodo, indice) VALUES (?, ?, ?)`);
+const selectSerie = db.prepare(`SELECT periodo, indice FROM deflactores WHERE serie = ? ORDER BY periodo`);
+const selectSeries = db.prepare(
+  `SELECT serie, COUNT(*) AS puntos, MIN(periodo) AS desde, MAX(periodo) AS hasta FROM deflactores GROUP BY serie ORDER BY serie`
+);
+
+function normalizarPeriodo(texto: string) {
+  const limpio = texto.trim().replace(/^"|"$/g, "");
+  let match = limpio.match(/^(\d{4})$/);
+  if (match) return match[1];
+  match = limpio.match(/^(\d{4})[-/]?(\d{1,2})$/);
+  if (match && Number(match[2]) >= 1 && Number(match[2]) <= 12) return `${match[1]}-${match[2].padStart(2, "0")}`;
+  match = limpio.match(/^(\d{1,2})[-/](\d{4})$/);
+  if (match && Number(match[1]) >= 1 && Number(match[1]) <= 12) return `${match[2]}-${match[1].padStart(2, "0")}`;
+  return null;
+}
+
+// Acepta "periodo,indice" o "periodo;indice" (con coma decimal), con o sin fila de encabezado
+export function parseDeflactorCsv(texto: string): PuntoDeflactor[] {
+  const puntos: PuntoDeflactor[] = [];
+  const lineas = texto.split(/\r?\n/);
+
+  lineas.forEach((linea, i) => {
+    const contenido = linea.trim();
+    if (!contenido || contenido.startsWith("#")) return;
+
+    const separador = contenido.includes(";") ? ";" : ",";
+    const [periodoRaw, indiceRaw] = contenido.split(separador);
+    const periodo = normalizarPeriodo(periodoRaw ?? "");
+    const indiceTexto = (indiceRaw ?? "").trim().replace(/^"|"$/g, "");
+    // Con ";" los puntos separan miles y la coma es decimal: "1.234,56"
+    const indice = parseFloat(separador === ";" && indiceTexto.includes(",") ? indiceTexto.replace(/\./g, "").replace(",", ".") : indiceTexto);
+
+    if (!periodo || isNaN(indice)) {
+      // La primera fila no numérica se toma como encabezado
+      if (puntos.length === 0 && isNaN(indice)) return;
+      throw new Error(`Línea ${i + 1} del archivo de deflactores no válida: "${contenido}". Use el formato año,índice o año-mes,índice.`);
+    }
+    if (indice <= 0) {
+      throw new Error(`Línea ${i + 1}: el índice debe ser mayor que cero.`);
+    }
+    puntos.push({ periodo, indice });
+  });
+
+  if (!puntos.length) {
+    throw new Error("El archivo de deflactores no contiene datos.");
+  }
+  return puntos;
+}
+
+export const guardarSerie = db.transaction((serie: string, puntos: PuntoDeflactor[]) => {
+  deleteSerie.run(serie);
+  for (const punto of puntos) {
+    insertPunto.run(serie, punto.periodo, punto.indice);
+  }
+});
+
+export function listarSeries() {
+  return selectSeries.all() as { serie: string; puntos: number; desde: string; hasta: string }[];
+}
+
+// Índice de un año: el anual si existe, o el promedio de los meses disponibles (hasta el mes de corte)
+function indiceDelYear(puntos: PuntoDeflactor[], year: number, mesCorte?: number) {
+  const anual = puntos.find(p => p.periodo === String(year));
+  const mensuales = puntos.filter(p =>
+    p.periodo.startsWith(`${year}-`) && (!mesCorte || Number(p.periodo.slice(5)) <= mesCorte)
+  );
+
+  if (mesCorte && mensuales.length) {
+    return mensuales.reduce((sum, p) => sum + p.indice, 0) / mensuales.length;
+  }
+  if (anual) return anual.indice;
+  if (mensuales.length) return mensuales.reduce((sum, p) => sum + p.indice, 0) / mensuales.length;
+  return undefined;
+}
+
+// Índice de un año posterior al último publicado: se repite el último año de la serie, es decir,
+// se supone que los precios no variaron desde entonces
+function indiceEstimado(puntos: PuntoDeflactor[], year: number, mesCorte?: number) {
+  const ultimo = Number(puntos[puntos.length - 1].periodo.slice(0, 4));
+  return year > ultimo ? indiceDelYear(puntos, ultimo, mesCorte) ?? indiceDelYear(puntos, ultimo) : undefined;
+}
+
+// Factor por año para expresar montos a precios constantes del año base. Los años posteriores al
+// último índice de la serie se devuelven en estimados en lugar de impedir la comparación.
+export function factoresDeflactor(serie: string, years: number[], yearBase: number, mesCorte?: number) {
+  const puntos = selectSerie.all(serie) as PuntoDeflactor[];
+  if (!puntos.length) {
+    throw new Error(`La serie de deflactores '${serie}' no existe.`);
+  }
+
+  const estimados: number[] = [];
+  const indice = (year: number) => {
+    const publicado = indiceDelYear(puntos, year, mesCorte);
+    if (publicado !== undefined) return publicado;
+    const estimado = indiceEstimado(puntos, year, mesCorte);
+    if (estimado !== undefined && !estimados.includes(year)) estimados.push(year);
+    return estimado;
+  };
+
+  const base = indice(yearBase);
+  if (base === undefined) {
+    throw new Error(`La serie '${serie}' no tiene índice para el año base ${yearBase}.`);
+  }
+
+  const factores: Record<number, number> = {};
+  for (const year of years) {
+    const valor = indice(year);
+    if (valor === undefined) {
+      throw new Error(`La serie '${serie}' no tiene índice para ${year}. Cargue un archivo de deflactores que cubra ese año.`);
+    }
+    factores[year] = base / valor;
+  }
+  return { factores, estimados: estimados.sort((a, b) => a - b) };
+}
+
+// La serie incluida se carga al iniciar si falta o si la guardada es una versión anterior del archivo
+// (todos sus puntos coinciden con los del archivo actual); si el usuario la reemplazó se respeta su versión
+const incluida = parseDeflactorCsv(fs.readFileSync(path.join(RECURSOS, `${SERIE_POR_DEFECTO}.csv`), "utf-8"));
+const guardada = selectSerie.all(SERIE_POR_DEFECTO) as PuntoDeflactor[];
+const esVersionAnterior = guardada.every(punto => incluida.some(p => p.periodo === punto.periodo && p.indice === punto.indice));
+if (esVersionAnterior && guardada.length < incluida.length) {
+  guardarSerie(SERIE_POR_DEFECTO, incluida);
+}
@@ -0,0 +1,216 @@
+import { db } from "./db";
+import { FilaMef, sumarFilas } from "../src/lib/metricas";
+import { removeAccents } from "./scraper";
+import { ErrorNoEncontrado, ErrorSolicitud } from "./errores";
+
+// Cómo se unió un concepto de un año anterior con el nombre que tiene en el año más reciente
+export type MetodoEmparejamiento = "manual" | "codigo" | "similitud";
+
+export interface Emparejamiento {
+  year: number;
+  concepto: string;
+  metodo: MetodoEmparejamiento;
+  // Similitud entre 0 y 1, solo para el emparejamiento aproximado
+  similitud?: number;
+}
+
+export interface MapeoConcepto {
+  id: number;
+  anterior: string;
+  nuevo: string;
+  creadoEn: string;
+}
+
+// Por debajo de este umbral dos nombres se consideran conceptos distintos
+const UMBRAL_SIMILITUD = 0.85;
+
+db.exec(`
+  CREATE TABLE IF NOT EXISTS mapeos_conceptos (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    anterior TEXT NOT NULL UNIQUE,
+    nuevo TEXT NOT NULL,
+    creado_en TEXT NOT NULL
+  );
+`);
+
+const selectMapeos = db.prepare(
+  `SELECT id, anterior, nuevo, creado_en AS creadoEn FROM mapeos_conceptos ORDER BY creado_en DESC, id DESC`
+);
+const upsertMapeo = db.prepare(`
+  INSERT INTO mapeos_conceptos (anterior, nuevo, creado_en) VALUES (?, ?, ?)
+  ON CONFLICT (anterior) DO UPDATE SET nuevo = excluded.nuevo, creado_en = excluded.creado_en
+`);
+const deleteMapeo = db.prepare(`DELETE FROM mapeos_conceptos WHERE id = ?`);
+
+// Los conceptos se guardan como los entrega el scraper: sin tildes y sin espacios sobrantes
+export function normalizarConcepto(concepto: string) {
+  return removeAccents(concepto).replace(/\s+/g, " ").trim();
+}
+
+export function listarMapeos() {
+  return selectMapeos.all() as MapeoConcepto[];
+}
+
+export function guardarMapeo(anterior: string, nuevo: string) {
+  const origen = normalizarConcepto(anterior);
+  const destino = normalizarConcepto(nuevo);
+  if (!origen || !destino) {
+    throw new ErrorSolicitud("El concepto anterior y el nuevo son requeridos.");
+  }
+  if (origen === destino) {
+    throw new ErrorSolicitud("El concepto anterior y el nuevo deben ser distintos.");
+  }
+  upsertMapeo.run(origen, destino, new Date().toISOString());
+}
+
+export function eliminarMapeo(id: number) {
+  if (deleteMapeo.run(id).changes === 0) {
+    throw new ErrorNoEncontrado(`La equivalencia ${id} no existe.`);
+  }
+}
+
+// Código numérico con el que Consulta Amigable antepone programas, pliegos y proyectos ("0068: ...")
+function codigoConcepto(concepto: string) {
+  return concepto.match(/^\s*(\d+)\s*[:.\-]\s*\S/)?.[1];
+}
+
+function bigramas(texto: string) {
+  const limpio = texto.toLowerCase().replace(/^\s*\d+\s*[:.\-]\s*/, "").replace(/[^a-z0-9]+/g, " ").trim();
+  const resultado = new Map<string, number>();
+  for (let i = 0; i < limpio.length - 1; i++) {
+    const bigrama = limpio.slice(i, i + 2);
+    resultado.set(bigrama, (resultado.get(bigrama) || 0) + 1);
+  }
+  return resultado;
+}
+
+// Coeficiente de Dice sobre bigramas de caracteres: tolera palabras agregadas o cambios menores
+function similitud(a: Map<string, number>, b: Map<string, number>) {
+  let totalA = 0;
+  let totalB = 0;
+  let comunes = 0;
+  a.forEach(n => { totalA += n; });
+  b.forEach((n, bigrama) => {
+    totalB += n;
+    comunes += Math.min(n, a.get(bigrama) || 0);
+  });
+  return totalA + totalB > 0 ? (2 * comunes) / (totalA + totalB) : 0;
+}
+
+// Sigue la cadena de equivalencias manuales (A→B, B→C) hasta el nombre más reciente
+function destinoManual(concepto: string, mapeos: Map<string, string>) {
+  let actual = concepto;
+  const vistos = new Set([actual]);
+  while (mapeos.has(actual)) {
+    actual = mapeos.get(actual)!;
+    if (vistos.has(actual)) break;
+    vistos.add(actual);
+  }
+  return actual === concepto ? undefined : actual;
+}
+
+// Reescribe las filas de cada año con el nombre que el concepto tiene en el año más reciente.
+// Se prueba, en orden: nombre idéntico, equivalencia manual, código numérico y similitud del texto.
+export function emparejarConceptos(years: number[], datosPorYear: Record<string, FilaMef>[]) {
+  const mapeos = new Map(listarMapeos().map(m => [m.anterior, m.nuevo]));
+  const canonicos = new Set(Object.keys(datosPorYear[datosPorYear.length - 1] || {}));
+  const emparejamientos: Record<string, Emparejamiento[]> = {};
+  const resultado: Record<string, FilaMef>[] = new Array(datosPorYear.length);
+  resultado[datosPorYear.length - 1] = datosPorYear[datosPorYear.length - 1];
+
+  // Se recorre hacia atrás: cada año se une con los nombres ya vistos en los años posteriores
+  for (let i = datosPorYear.length - 2; i >= 0; i--) {
+    const filas: Record<string, FilaMef> = {};
+    const pendientes: string[] = [];
+
+    const asignar = (concepto: string, canonico: string, metodo?: MetodoEmparejamiento, puntaje?: number) => {
+      const fila = datosPorYear[i][concepto];
+      // Varias equivalencias manuales hacia un mismo concepto (fusiones) se suman
+      filas[canonico] = filas[canonico] ? sumarFilas([filas[canonico], fila]) : fila;
+      if (metodo) {
+        (emparejamientos[canonico] ||= []).push({
+          year: years[i],
+          concepto,
+          metodo,
+          ...(puntaje !== undefined ? { similitud: puntaje } : {})
+        });
+      }
+    };
+
+    for (const concepto of Object.keys(datosPorYear[i])) {
+      if (canonicos.has(concepto)) {
+        asignar(concepto, concepto);
+      } else {
+        pendientes.push(concepto);
+      }
+    }
+
+    let sinEmparejar: string[] = [];
+    for (const concepto of pendientes) {
+      const destino = destinoManual(concepto, mapeos);
+      if (destino && canonicos.has(destino)) {
+        asignar(concepto, destino, "manual");
+      } else {
+        sinEmparejar.push(concepto);
+      }
+    }
+
+    // Los automáticos solo se unen con conceptos que aún no tienen fila en este año
+    const libres = () => Array.from(canonicos).filter(canonico => !filas[canonico]);
+
+    // Código: solo si es único a ambos lados, para no unir proyectos distintos con prefijos repetidos
+    const contarCodigos = (conceptos: string[]) => {
+      const conteo = new Map<string, number>();
+      conceptos.forEach(c => {
+        const codigo = codigoConcepto(c);
+        if (codigo) conteo.set(codigo, (conteo.get(codigo) || 0) + 1);
+      });
+      return conteo;
+    };
+    const codigosPendientes = contarCodigos(sinEmparejar);
+    const canonicosLibres = libres();
+    const codigosLibres = contarCodigos(canonicosLibres);
+    const porCodigo = new Map(canonicosLibres.map(c => [codigoConcepto(c), c]));
+
+    sinEmparejar = sinEmparejar.filter(concepto => {
+      const codigo = codigoConcepto(concepto);
+      if (!codigo || codigosPendientes.get(codigo) !== 1 || codigosLibres.get(codigo) !== 1) return true;
+      asignar(concepto, porCodigo.get(codigo)!, "codigo");
+      return false;
+    });
+
+    // Similitud: se asignan primero los pares más parecidos; códigos distintos nunca se unen
+    const candidatos = libres();
+    const bigramasCandidatos = new Map(candidatos.map(c => [c, bigramas(c)]));
+    const pares: { concepto: string; canonico: string; puntaje: number }[] = [];
+    for (const concepto of sinEmparejar) {
+      const codigo = codigoConcepto(concepto);
+      const propios = bigramas(concepto);
+      for (const canonico of candidatos) {
+        const codigoCanonico = codigoConcepto(canonico);
+        if (codigo && codigoCanonico && codigo !== codigoCanonico) continue;
+        const puntaje = similitud(propios, bigramasCandidatos.get(canonico)!);
+        if (puntaje >= UMBRAL_SIMILITUD) pares.push({ concepto, canonico, puntaje });
+      }
+    }
+    pares.sort((a, b) => b.puntaje - a.puntaje);
+
+    const usados = new Set<string>();
+    for (const par of pares) {
+      if (usados.has(par.concepto) || filas[par.canonico]) continue;
+      usados.add(par.concepto);
+      asignar(par.concepto, par.canonico, "similitud", Number(par.puntaje.toFixed(2)));
+    }
+
+    // Lo que queda es un concepto que no existe en los años siguientes
+    for (const concepto of sinEmparejar) {
+      if (usados.has(concepto)) continue;
+      asignar(concepto, concepto);
+      canonicos.add(concepto);
+    }
+
+    resultado[i] = filas;
+  }
+
+  return { datosPorYear: resultado, emparejamientos };
+}
@@ -0,0 +1,5 @@
+import dotenv from "dotenv";
+
+// Carga .env.local y .env antes que los demás módulos, que leen su configuración al importarse.
+// Las variables ya definidas en el entorno tienen prioridad.
+dotenv.config({ path: [".env.local", ".env"], quiet: true });
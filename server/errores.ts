@@ -0,0 +1,60 @@
+import type { TipoErrorMef } from "../src/types";
+
+// Error causado por los datos de la petición (parámetros inválidos, combinación no permitida);
+// las rutas lo responden con 400 en lugar de 500
+export class ErrorSolicitud extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ErrorSolicitud";
+  }
+}
+
+// Recurso que no existe, como una captura guardada; las rutas lo responden con 404
+export class ErrorNoEncontrado extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ErrorNoEncontrado";
+  }
+}
+
+// Servicio externo distinto del MEF, como el proveedor de resúmenes, que no está configurado o no respondió;
+// las rutas lo responden con 503
+export class ErrorServicio extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ErrorServicio";
+  }
+}
+
+// Falla al consultar o leer una página del MEF. El tipo permite a la interfaz distinguir
+// un tiempo de espera agotado, un estado HTTP de error, un fallo de red o una página ilegible.
+export class ErrorMef extends Error {
+  tipo: TipoErrorMef;
+  // Estado HTTP con que respondió el MEF, solo para el tipo 'http'
+  estado?: number;
+
+  constructor(message: string, tipo: TipoErrorMef, estado?: number) {
+    super(message);
+    this.name = "ErrorMef";
+    this.tipo = tipo;
+    this.estado = estado;
+  }
+}
+
+// Estado HTTP y cuerpo con que la API responde un error. La CLI usa la misma clasificación
+// para su mensaje y su código de salida.
+export function respuestaError(error: any): { estado: number; cuerpo: { error: string; tipo?: TipoErrorMef; estado?: number } } {
+  if (error instanceof ErrorSolicitud) {
+    return { estado: 400, cuerpo: { error: error.message } };
+  }
+  if (error instanceof ErrorNoEncontrado) {
+    return { estado: 404, cuerpo: { error: error.message } };
+  }
+  if (error instanceof ErrorServicio) {
+    return { estado: 503, cuerpo: { error: error.message } };
+  }
+  if (error instanceof ErrorMef) {
+    return { estado: error.tipo === "timeout" ? 504 : 502, cuerpo: { error: error.message, tipo: error.tipo, estado: error.estado } };
+  }
+  return { estado: 500, cuerpo: { error: error?.message || "Error interno del servidor" } };
+}
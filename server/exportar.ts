@@ -0,0 +1,172 @@
+import ExcelJS from "exceljs";
+import { FormatoNumeros, UNIDADES, escalarMonto } from "../src/lib/format";
+import type { ConceptoData, FuenteData, LoteData, MetricaInfo, TotalesData } from "../src/types";
+
+export type FormatoExportacion = "xlsx" | "csv";
+
+// Lo que el usuario ve en pantalla: filas ya filtradas y ordenadas, con la unidad elegida
+export interface Reporte {
+  metrica: MetricaInfo;
+  yearAnterior: number;
+  yearActual: number;
+  // Etiquetas del usuario al comparar dos consultas explícitas
+  etiquetas?: { anterior: string; actual: string } | null;
+  // Periodo acumulado y precios constantes, tal como se rotulan en pantalla
+  corte?: string;
+  formato: FormatoNumeros;
+  filtro?: string;
+  filas: ConceptoData[];
+  totales: TotalesData;
+  fuentes: FuenteData[];
+}
+
+const ORIGENES: Record<FuenteData["origen"], string> = {
+  cache: "caché",
+  red: "en línea",
+  archivo: "archivo"
+};
+
+export function validarReporte(reporte: any): string | undefined {
+  if (!reporte || !Array.isArray(reporte.filas) || !reporte.metrica || !reporte.totales || !reporte.formato) {
+    return "El reporte debe incluir la métrica, las filas, los totales y el formato de números.";
+  }
+  if (!UNIDADES.some(u => u.id === reporte.formato.unidad)) {
+    return `La unidad '${reporte.formato.unidad}' no es válida.`;
+  }
+  return undefined;
+}
+
+export function nombreArchivo(reporte: Reporte, formato: FormatoExportacion) {
+  const nombre = `comparacion-${reporte.metrica.id}-${reporte.yearAnterior}-${reporte.yearActual}`;
+  return `${nombre.replace(/[^\w-]+/g, "-")}.${formato}`;
+}
+
+function unidadReporte(reporte: Reporte) {
+  return reporte.metrica.tipo === "monto"
+    ? UNIDADES.find(u => u.id === reporte.formato.unidad)!.etiqueta
+    : "Puntos porcentuales";
+}
+
+function encabezados(reporte: Reporte) {
+  const { metrica, yearAnterior, yearActual, etiquetas } = reporte;
+  const unidad = metrica.tipo === "monto" ? unidadReporte(reporte) : "%";
+  return [
+    "Concepto",
+    `${etiquetas?.anterior ?? `${metrica.abreviatura}_${yearAnterior}`} (${unidad})`,
+    `${etiquetas?.actual ?? `${metrica.abreviatura}_${yearActual}`} (${unidad})`,
+    `Variación (${metrica.tipo === "monto" ? unidad : "p.p."})`,
+    "Variación (%)",
+    "Emparejado con"
+  ];
+}
+
+// Los montos se expresan en la unidad elegida, sin redondear; los porcentajes no se escalan
+function valores(reporte: Reporte, fila: Pick<ConceptoData, "montoAnterior" | "montoActual" | "variacionS">) {
+  const escalar = (valor: number) => reporte.metrica.tipo === "monto" ? escalarMonto(valor, reporte.formato.unidad) : valor;
+  return [escalar(fila.montoAnterior), escalar(fila.montoActual), escalar(fila.variacionS)];
+}
+
+function emparejadoCon(fila: ConceptoData) {
+  return (fila.emparejamientos || []).map(e => `${e.year}: ${e.concepto}`).join("; ");
+}
+
+function titulo(reporte: Reporte) {
+  const { etiquetas } = reporte;
+  return `Comparación de ${reporte.metrica.etiqueta} ${etiquetas ? `${etiquetas.anterior} vs. ${etiquetas.actual}` : `${reporte.yearAnterior}–${reporte.yearActual}`}`;
+}
+
+export async function generarXlsx(reporte: Reporte): Promise<Buffer> {
+  const libro = new ExcelJS.Workbook();
+  const hoja = libro.addWorksheet("Comparación");
+  const formatoNumero = reporte.formato.decimales > 0 ? `#,##0.${"0".repeat(reporte.formato.decimales)}` : "#,##0";
+
+  hoja.addRow([titulo(reporte)]).font = { bold: true, size: 14 };
+  hoja.addRow([`Unidades: ${unidadReporte(reporte)}${reporte.corte || ""}`]);
+  if (reporte.filtro) {
+    hoja.addRow([`Filtro: "${reporte.filtro}" (${reporte.filas.length} conceptos)`]);
+  }
+  hoja.addRow([]);
+
+  const cabecera = hoja.addRow(encabezados(reporte));
+  cabecera.font = { bold: true, color: { argb: "FFFFFFFF" } };
+  cabecera.eachCell(celda => {
+    celda.fill = { type: "pattern", pattern: "solid", fgColor: { argb: "FF003366" } };
+    celda.alignment = { horizontal: "center", vertical: "middle", wrapText: true };
+  });
+
+  const agregarFila = (concepto: string, fila: ConceptoData | TotalesData, extra = "") => {
+    const variacionPorcentaje = fila.nuevo ? "Nuevo" : fila.variacionPorcentaje === null ? "—" : fila.variacionPorcentaje / 100;
+    const row = hoja.addRow([concepto, ...valores(reporte, fila), variacionPorcentaje, extra]);
+    [2, 3, 4].forEach(col => { row.getCell(col).numFmt = formatoNumero; });
+    row.getCell(5).numFmt = "+0.0%;-0.0%;0.0%";
+    row.getCell(5).alignment = { horizontal: "right" };
+    return row;
+  };
+
+  reporte.filas.forEach(fila => agregarFila(fila.concepto, fila, emparejadoCon(fila)));
+
+  const total = agregarFila("TOTAL GENERAL", reporte.totales);
+  total.font = { bold: true };
+  total.eachCell(celda => { celda.border = { top: { style: "thin" } }; });
+
+  if (reporte.fuentes.length) {
+    hoja.addRow([]);
+    hoja.addRow(["Fuentes"]).font = { bold: true };
+    reporte.fuentes.forEach(fuente => {
+      hoja.addRow([`${fuente.year}: ${fuente.url}`, `Capturado: ${new Date(fuente.fetchedAt).toLocaleString("es-PE")} (${ORIGENES[fuente.origen]})`]);
+    });
+  }
+
+  hoja.getColumn(1).width = 60;
+  [2, 3, 4, 5].forEach(col => { hoja.getColumn(col).width = 18; });
+  hoja.getColumn(6).width = 50;
+
+  return Buffer.from(await libro.xlsx.writeBuffer());
+}
+
+// Un texto que empieza con =, +, - o @ se antepone con ' para que la hoja de cálculo no lo evalúe
+// como fórmula; los números se escriben tal cual, con su signo
+const celdaCsv = (valor: string | number) => {
+  const texto = typeof valor === "string" && /^[=+\-@\t\r]/.test(valor) ? `'${valor}` : String(valor);
+  return /[",\r\n]/.test(texto) ? `"${texto.replace(/"/g, '""')}"` : texto;
+};
+
+// CSV separado por comas con BOM para que Excel reconozca las tildes
+export function generarCsv(reporte: Reporte) {
+  const lineas: (string | number)[][] = [encabezados(reporte)];
+
+  const agregarFila = (concepto: string, fila: ConceptoData | TotalesData, extra = "") => {
+    const variacionPorcentaje = fila.nuevo ? "Nuevo" : fila.variacionPorcentaje === null ? "" : fila.variacionPorcentaje;
+    lineas.push([concepto, ...valores(reporte, fila), variacionPorcentaje, extra]);
+  };
+
+  reporte.filas.forEach(fila => agregarFila(fila.concepto, fila, emparejadoCon(fila)));
+  agregarFila("TOTAL GENERAL", reporte.totales);
+
+  return "\uFEFF" + lineas.map(linea => linea.map(celdaCsv).join(",")).join("\r\n") + "\r\n";
+}
+
+// Resumen de un lote: una línea por entidad con sus totales, sin escalar; las entidades con error llevan el mensaje
+export function generarCsvLote(lote: LoteData) {
+  const lineas: (string | number)[][] = [["Entidad", "URL", "Métrica", "Año anterior", "Año actual", "Total anterior", "Total actual", "Variación", "Variación (%)", "Error"]];
+  lote.resultados.forEach(resultado => {
+    if ("error" in resultado) {
+      lineas.push([resultado.etiqueta, resultado.url, "", "", "", "", "", "", "", resultado.error]);
+      return;
+    }
+    const { totales } = resultado;
+    lineas.push([
+      resultado.etiqueta,
+      resultado.url,
+      resultado.metrica.etiqueta,
+      resultado.yearAnterior,
+      resultado.yearActual,
+      totales.montoAnterior,
+      totales.montoActual,
+      totales.variacionS,
+      totales.nuevo ? "Nuevo" : totales.variacionPorcentaje === null ? "" : totales.variacionPorcentaje,
+      ""
+    ]);
+  });
+  return "\uFEFF" + lineas.map(linea => linea.map(celdaCsv).join(",")).join("\r\n") + "\r\n";
+}
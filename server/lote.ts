@@ -0,0 +1,139 @@
+import { Seguimiento, ejecutarComparacion } from "./comparacion";
+import { ErrorMef, ErrorSolicitud } from "./errores";
+import { validarUrlMef } from "./peticiones";
+import { PREFIJO_ARCHIVO } from "./snapshots";
+import type { LoteData, ResultadoLote } from "../src/types";
+
+// Una entidad del lote: su URL completa, o un código que se reemplaza en la plantilla
+export interface EntidadLote {
+  etiqueta?: string;
+  url?: string;
+  codigo?: string;
+}
+
+const MAX_ENTIDADES = 100;
+// Consultas simultáneas al MEF durante un lote
+const CONCURRENCIA_LOTE = 3;
+// Conceptos con mayor alza y mayor baja que se informan por entidad
+const CONCEPTOS_DESTACADOS = 3;
+
+// Opciones de /api/comparar que se aplican por igual a todas las entidades
+const OPCIONES_COMUNES = ["metrica", "periodo", "mesCorte", "modo", "maxAgeHoras", "forzar", "hasta"];
+
+export function leerEntidades(body: any) {
+  const { entidades, plantilla } = body;
+  if (!Array.isArray(entidades) || !entidades.length) {
+    throw new ErrorSolicitud("Debe indicar al menos una entidad (URL o código).");
+  }
+  if (entidades.length > MAX_ENTIDADES) {
+    throw new ErrorSolicitud(`Un lote puede tener como máximo ${MAX_ENTIDADES} entidades.`);
+  }
+  if (plantilla !== undefined && (typeof plantilla !== "string" || !plantilla.includes("{codigo}"))) {
+    throw new ErrorSolicitud("La plantilla debe ser una URL con el marcador {codigo}.");
+  }
+
+  return (entidades as EntidadLote[]).map((entidad, i) => {
+    const codigo = typeof entidad?.codigo === "string" ? entidad.codigo.trim() : "";
+    let url = typeof entidad?.url === "string" ? entidad.url.trim() : "";
+    if (!url && codigo) {
+      if (!plantilla) {
+        throw new ErrorSolicitud(`La entidad ${i + 1} tiene un código pero no se indicó una plantilla de URL.`);
+      }
+      url = plantilla.replace(/\{codigo\}/g, encodeURIComponent(codigo));
+    }
+    if (!url) {
+      throw new ErrorSolicitud(`La entidad ${i + 1} no tiene URL ni código.`);
+    }
+    const etiqueta = typeof entidad?.etiqueta === "string" && entidad.etiqueta.trim() ? entidad.etiqueta.trim() : codigo || url;
+    if (!url.startsWith(PREFIJO_ARCHIVO)) {
+      try {
+        validarUrlMef(url);
+      } catch (e: any) {
+        throw new ErrorSolicitud(`La entidad ${i + 1} (${etiqueta}): ${e.message}`);
+      }
+    }
+    return { etiqueta, url };
+  });
+}
+
+export interface SeguimientoLote extends Seguimiento {
+  // Resultados de las entidades ya terminadas, en el orden de entrada
+  alParcial?: (parcial: LoteData) => void;
+}
+
+// Recorre los elementos con un máximo de tareas en curso, conservando el orden de entrada.
+// Al cancelar no se inician elementos nuevos.
+async function mapConLimite<T, R>(items: T[], limite: number, fn: (item: T) => Promise<R>, signal?: AbortSignal) {
+  const resultados: R[] = new Array(items.length);
+  let siguiente = 0;
+  const trabajador = async () => {
+    while (siguiente < items.length) {
+      signal?.throwIfAborted();
+      const i = siguiente++;
+      resultados[i] = await fn(items[i]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limite, items.length) }, trabajador));
+  return resultados;
+}
+
+// Comparación de dos años para cada entidad; un error en una entidad no detiene el lote
+export async function compararLote(body: any, seguimiento: SeguimientoLote = {}) {
+  const entidades = leerEntidades(body);
+  const opciones = Object.fromEntries(OPCIONES_COMUNES.filter(clave => body[clave] !== undefined).map(clave => [clave, body[clave]]));
+  const { alAvanzar, alParcial, signal } = seguimiento;
+
+  const terminados: ResultadoLote[] = new Array(entidades.length);
+  let completadas = 0;
+  const registrar = (i: number, resultado: ResultadoLote) => {
+    terminados[i] = resultado;
+    completadas++;
+    alAvanzar?.({
+      tipo: "entidad",
+      etiqueta: resultado.etiqueta,
+      ok: resultado.ok,
+      error: "error" in resultado ? resultado.error : undefined,
+      completadas,
+      total: entidades.length
+    });
+    alParcial?.({ resultados: terminados.filter(Boolean) });
+    return resultado;
+  };
+
+  const resultados = await mapConLimite(entidades.map((entidad, i) => ({ ...entidad, i })), CONCURRENCIA_LOTE, async ({ etiqueta, url, i }) => {
+    try {
+      const comparacion = await ejecutarComparacion({ ...opciones, url }, {
+        signal,
+        // Las páginas de cada entidad se informan con su etiqueta
+        alAvanzar: evento => alAvanzar?.(evento.tipo === "pagina" ? { ...evento, entidad: etiqueta } : evento)
+      });
+      const conDatos = comparacion.data.filter(item => item.variacionS !== 0);
+      return registrar(i, {
+        etiqueta,
+        url,
+        ok: true as const,
+        yearAnterior: comparacion.yearAnterior,
+        yearActual: comparacion.yearActual,
+        metrica: comparacion.metrica,
+        periodo: comparacion.periodo,
+        conceptos: comparacion.data.length,
+        totales: comparacion.totales,
+        // data ya viene ordenada por variación absoluta descendente
+        alzas: conDatos.filter(item => item.variacionS > 0).slice(0, CONCEPTOS_DESTACADOS),
+        bajas: conDatos.filter(item => item.variacionS < 0).reverse().slice(0, CONCEPTOS_DESTACADOS)
+      });
+    } catch (error: any) {
+      // Una cancelación detiene el lote completo, no solo esta entidad
+      if (signal?.aborted) throw error;
+      return registrar(i, {
+        etiqueta,
+        url,
+        ok: false as const,
+        error: error.message || "Error interno del servidor",
+        tipoError: error instanceof ErrorMef ? error.tipo : undefined
+      });
+    }
+  }, signal);
+
+  return { resultados };
+}
@@ -0,0 +1,86 @@
+import * as cheerio from "cheerio";
+import { ErrorMef, ErrorSolicitud } from "./errores";
+import { peticionMef } from "./peticiones";
+import { Pagina } from "./snapshots";
+import type { FormularioMef } from "./scraper";
+
+// Resuelve la URL de consulta del nivel inferior de un concepto de la página
+export async function resolverUrlHijo(pagina: Pagina, concepto: string, nivel?: string) {
+  const navegacion = pagina.datos.navegacion;
+  const enlace = navegacion?.enlaces[concepto];
+  if (!enlace) {
+    throw new ErrorSolicitud(`El concepto '${concepto}' no tiene un nivel inferior disponible en esta consulta.`);
+  }
+
+  if (enlace.tipo === "href") {
+    return new URL(enlace.href, pagina.url).toString();
+  }
+
+  const formulario = navegacion.formulario;
+  if (!formulario) {
+    throw new ErrorMef(`La página no contiene el formulario necesario para desglosar '${concepto}'.`, "parseo");
+  }
+
+  const boton = nivel ? formulario.niveles.find(n => n.id === nivel) : formulario.niveles[0];
+  if (nivel && !boton) {
+    throw new ErrorSolicitud(`El nivel '${nivel}' no está disponible en esta consulta.`);
+  }
+
+  const campos: Record<string, string> = { ...formulario.campos, ...enlace.campos };
+  if (boton) campos[boton.id] = boton.etiqueta;
+  return enviarFormulario(pagina, formulario, campos, `El MEF no devolvió la URL del nivel inferior para '${concepto}'.`);
+}
+
+// Resuelve la URL de la misma consulta agrupada por otra dimensión, con el botón de ese nivel
+export async function resolverNivel(pagina: Pagina, nivel: string) {
+  const formulario = pagina.datos.navegacion?.formulario;
+  const boton = formulario?.niveles.find(n => n.id === nivel);
+  if (!boton) {
+    throw new ErrorSolicitud(`El nivel '${nivel}' no está disponible en esta consulta.`);
+  }
+  return enviarFormulario(pagina, formulario, { ...formulario.campos, [boton.id]: boton.etiqueta }, `El MEF no devolvió la URL del nivel '${boton.etiqueta}'.`);
+}
+
+async function enviarFormulario(pagina: Pagina, formulario: FormularioMef, campos: Record<string, string>, errorSinUrl: string) {
+  const action = new URL(formulario.action || pagina.url, pagina.url);
+
+  if (formulario.metodo === "get") {
+    for (const [nombre, valor] of Object.entries(campos)) {
+      action.searchParams.set(nombre, valor);
+    }
+    return action.toString();
+  }
+
+  // Consulta Amigable responde al postback con una redirección a la URL del nivel elegido o, en
+  // algunas páginas, con el propio nivel; en ese caso su URL es la del formulario que trae
+  const response = await peticionMef({
+    url: action.toString(),
+    method: "post",
+    data: new URLSearchParams(campos).toString(),
+    maxRedirects: 0,
+    validateStatus: status => status < 400,
+    headers: { "Content-Type": "application/x-www-form-urlencoded" }
+  });
+
+  const location = response.headers["location"];
+  if (response.status >= 300 && location) {
+    return new URL(location, action).toString();
+  }
+  const destino = response.status < 300 && urlEnRespuesta(String(response.data ?? ""), action);
+  if (destino) {
+    return destino;
+  }
+  throw new ErrorMef(errorSinUrl, "parseo");
+}
+
+// URL del nivel en una respuesta 200: la de un meta refresh o la del formulario de la página devuelta,
+// siempre que lleve la consulta en la query y no sea la misma que se envió
+function urlEnRespuesta(html: string, enviada: URL) {
+  const $ = cheerio.load(html);
+  const refresh = $("meta[http-equiv]").filter((_, el) => $(el).attr("http-equiv")!.toLowerCase() === "refresh").attr("content");
+  const candidata = refresh?.match(/url\s*=\s*['"]?([^'"]+)/i)?.[1] ?? $("form").first().attr("action");
+  if (!candidata) return undefined;
+
+  const url = new URL(candidata, enviada);
+  return url.search && url.toString() !== enviada.toString() ? url.toString() : undefined;
+}
@@ -0,0 +1,234 @@
+import axios, { AxiosRequestConfig, AxiosResponse } from "axios";
+import dns from "dns";
+import fs from "fs";
+import http from "http";
+import https from "https";
+import net from "net";
+import { ErrorMef, ErrorSolicitud } from "./errores";
+
+const numeroEnv = (nombre: string, porDefecto: number) => {
+  const valor = Number(process.env[nombre]);
+  return process.env[nombre] && Number.isFinite(valor) && valor >= 0 ? valor : porDefecto;
+};
+
+// Solo se consultan páginas de Consulta Amigable: host (con puerto, si no es el estándar) y prefijo de ruta
+const URLS_PERMITIDAS = (process.env.MEF_URLS_PERMITIDAS || "apps5.mineco.gob.pe/transparencia/,apps5.mineco.gob.pe/bingresos/")
+  .split(",")
+  .map(entrada => entrada.trim().toLowerCase())
+  .filter(Boolean);
+// Solo para pruebas contra un servidor local; en producción la red interna queda bloqueada
+const PERMITIR_RED_PRIVADA = process.env.MEF_PERMITIR_RED_PRIVADA === "1";
+const MAX_BYTES = numeroEnv("MEF_MAX_BYTES", 20 * 1024 * 1024);
+const MAX_REDIRECCIONES = numeroEnv("MEF_MAX_REDIRECCIONES", 5);
+
+// Rangos que no son direcciones públicas de Internet
+const redesPrivadas = new net.BlockList();
+[
+  ["0.0.0.0", 8], ["10.0.0.0", 8], ["100.64.0.0", 10], ["127.0.0.0", 8], ["169.254.0.0", 16],
+  ["172.16.0.0", 12], ["192.0.0.0", 24], ["192.168.0.0", 16], ["198.18.0.0", 15], ["224.0.0.0", 4], ["240.0.0.0", 4]
+].forEach(([red, prefijo]) => redesPrivadas.addSubnet(red as string, prefijo as number, "ipv4"));
+[
+  ["::", 128], ["::1", 128], ["fc00::", 7], ["fe80::", 10], ["ff00::", 8]
+].forEach(([red, prefijo]) => redesPrivadas.addSubnet(red as string, prefijo as number, "ipv6"));
+
+function esDireccionPrivada(direccion: string) {
+  // Una IPv4 escrita como IPv6 (::ffff:10.0.0.1) se evalúa como IPv4
+  const mapeada = direccion.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i)?.[1];
+  if (mapeada) return redesPrivadas.check(mapeada, "ipv4");
+  return redesPrivadas.check(direccion, net.isIP(direccion) === 6 ? "ipv6" : "ipv4");
+}
+
+// Valida una URL antes de consultarla y en cada redirección; lanza ErrorSolicitud si no está permitida
+export function validarUrlMef(url: string) {
+  let destino: URL;
+  try {
+    destino = new URL(url);
+  } catch {
+    throw new ErrorSolicitud(`La URL '${url}' no es válida.`);
+  }
+  if (destino.protocol !== "https:" && destino.protocol !== "http:") {
+    throw new ErrorSolicitud(`Solo se admiten URLs http o https (se recibió '${destino.protocol}').`);
+  }
+  if (destino.username || destino.password) {
+    throw new ErrorSolicitud("La URL no puede incluir usuario ni contraseña.");
+  }
+  const ruta = `${destino.host}${destino.pathname}`.toLowerCase();
+  if (!URLS_PERMITIDAS.some(permitida => ruta.startsWith(permitida))) {
+    throw new ErrorSolicitud(`La URL no pertenece a Consulta Amigable del MEF (${destino.host}${destino.pathname}). Se admiten: ${URLS_PERMITIDAS.join(", ")}.`);
+  }
+  const host = destino.hostname.replace(/^\[|\]$/g, "");
+  if (!PERMITIR_RED_PRIVADA && net.isIP(host) && esDireccionPrivada(host)) {
+    throw new ErrorSolicitud(`La dirección ${host} pertenece a una red privada y no se puede consultar.`);
+  }
+  return destino;
+}
+
+// Resuelve el nombre y rechaza las direcciones privadas justo antes de conectar, también en las
+// redirecciones; así un nombre público que resuelve a la red interna no sirve para saltarse el filtro
+const lookupSeguro: net.LookupFunction = (hostname, opciones, callback) => {
+  dns.lookup(hostname, { ...opciones, all: true }, (error, direcciones: dns.LookupAddress[]) => {
+    if (error) return callback(error, "", 4);
+    const privada = direcciones.find(d => esDireccionPrivada(d.address));
+    if (privada && !PERMITIR_RED_PRIVADA) {
+      return callback(new ErrorSolicitud(`${hostname} resuelve a una dirección de red privada (${privada.address}) y no se puede consultar.`), "", 4);
+    }
+    // Con all: true quien llama espera la lista completa, como la devuelve dns.lookup
+    if (opciones.all) return callback(null, direcciones);
+    callback(null, direcciones[0].address, direcciones[0].family);
+  });
+};
+
+// El certificado del MEF se verifica siempre; MEF_CA_CERT fija la CA de su cadena en lugar de las del sistema
+const CA_MEF = process.env.MEF_CA_CERT ? fs.readFileSync(process.env.MEF_CA_CERT) : undefined;
+
+const httpAgent = new http.Agent({ lookup: lookupSeguro });
+const httpsAgent = new https.Agent({ lookup: lookupSeguro, ca: CA_MEF });
+
+// Todas las consultas al MEF pasan por aquí; los valores se ajustan con variables de entorno
+const TIMEOUT_MS = numeroEnv("MEF_TIMEOUT_MS", 30000);
+const REINTENTOS = numeroEnv("MEF_REINTENTOS", 3);
+const ESPERA_BASE_MS = numeroEnv("MEF_ESPERA_BASE_MS", 1000);
+// Espera máxima entre reintentos, también cuando el servidor pide más con Retry-After
+const ESPERA_MAXIMA_MS = 60000;
+const CONCURRENCIA = Math.max(1, numeroEnv("MEF_CONCURRENCIA", 4));
+const PETICIONES_POR_SEGUNDO = numeroEnv("MEF_PETICIONES_POR_SEGUNDO", 2);
+const USER_AGENT = process.env.MEF_USER_AGENT || "Mozilla/5.0 (compatible; MEF-Data-Analyzer/1.0; comparacion presupuestal)";
+
+interface Limitador {
+  activas: number;
+  cola: (() => void)[];
+  // Momento a partir del cual puede empezar la siguiente petición
+  proximoInicio: number;
+}
+
+// Un limitador por servidor: el límite protege al MEF, no a otros hosts
+const limitadores = new Map<string, Limitador>();
+
+function esperar(ms: number, signal?: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(new Error("Consulta cancelada."));
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", alAbortar);
+      resolve();
+    }, ms);
+    const alAbortar = () => {
+      clearTimeout(timer);
+      reject(new Error("Consulta cancelada."));
+    };
+    signal?.addEventListener("abort", alAbortar, { once: true });
+  });
+}
+
+// Espera un lugar libre y respeta el espaciado entre peticiones; devuelve la función que libera el lugar
+async function turno(host: string, signal?: AbortSignal) {
+  let limitador = limitadores.get(host);
+  if (!limitador) {
+    limitador = { activas: 0, cola: [], proximoInicio: 0 };
+    limitadores.set(host, limitador);
+  }
+  const actual = limitador;
+
+  if (actual.activas < CONCURRENCIA) {
+    actual.activas++;
+  } else {
+    // Quien libera su lugar se lo pasa directamente al primero de la cola
+    await new Promise<void>(resolve => actual.cola.push(resolve));
+  }
+  const liberar = () => {
+    const siguiente = actual.cola.shift();
+    if (siguiente) siguiente();
+    else actual.activas--;
+  };
+
+  if (PETICIONES_POR_SEGUNDO > 0) {
+    const ahora = Date.now();
+    const inicio = Math.max(ahora, actual.proximoInicio);
+    actual.proximoInicio = inicio + 1000 / PETICIONES_POR_SEGUNDO;
+    try {
+      await esperar(inicio - ahora, signal);
+    } catch (error) {
+      liberar();
+      throw error;
+    }
+  }
+  return liberar;
+}
+
+// Convierte el error de axios en un ErrorMef; la cancelación se propaga tal cual
+function clasificar(error: any) {
+  if (axios.isCancel(error)) {
+    return new Error("Consulta cancelada.");
+  }
+  // Los rechazos del filtro de destino llegan envueltos por axios y follow-redirects
+  for (let causa = error; causa; causa = causa.cause) {
+    if (causa instanceof ErrorSolicitud) return causa;
+  }
+  if (error.code === "ERR_FR_TOO_MANY_REDIRECTS") {
+    return new ErrorSolicitud(`La consulta superó el máximo de ${MAX_REDIRECCIONES} redirecciones.`);
+  }
+  if (/maxContentLength/.test(error.message)) {
+    const limite = MAX_BYTES >= 1024 * 1024 ? `${Math.round(MAX_BYTES / 1024 / 1024)} MB` : `${Math.ceil(MAX_BYTES / 1024)} KB`;
+    return new ErrorSolicitud(`La respuesta supera el tamaño máximo de ${limite}.`);
+  }
+  if (/certificate|self[- ]signed|UNABLE_TO_VERIFY|CERT_/i.test(`${error.code} ${error.message}`)) {
+    return new ErrorMef(`No se pudo verificar el certificado TLS del servidor (${error.code || error.message}). Configure MEF_CA_CERT con la CA de su cadena.`, "red");
+  }
+  if (error.code === "ECONNABORTED" || error.code === "ETIMEDOUT") {
+    return new ErrorMef(`El MEF no respondió en ${Math.round(TIMEOUT_MS / 1000)} segundos.`, "timeout");
+  }
+  if (error.response) {
+    return new ErrorMef(`Error al acceder a la URL: El servidor respondió con estado ${error.response.status}.`, "http", error.response.status);
+  }
+  if (error.request) {
+    return new ErrorMef(`Error de red: No se pudo conectar a la URL proporcionada.`, "red");
+  }
+  return error;
+}
+
+// Se reintentan las caídas de red, los tiempos agotados, los errores 5xx y el 429 por exceso de consultas
+function esReintentable(error: Error) {
+  if (!(error instanceof ErrorMef)) return false;
+  if (error.tipo === "http") return error.estado! >= 500 || error.estado === 429;
+  return error.tipo === "red" || error.tipo === "timeout";
+}
+
+function esperaReintento(intento: number, respuesta?: AxiosResponse) {
+  const retryAfter = Number(respuesta?.headers?.["retry-after"]);
+  const espera = Number.isFinite(retryAfter) && retryAfter > 0
+    ? retryAfter * 1000
+    : ESPERA_BASE_MS * 2 ** intento + Math.random() * ESPERA_BASE_MS / 4;
+  return Math.min(espera, ESPERA_MAXIMA_MS);
+}
+
+// Petición HTTP al MEF con tiempo límite, reintentos con espera exponencial y límite de concurrencia.
+// Solo sale hacia URLs permitidas, con tamaño de respuesta y cantidad de redirecciones acotados.
+export async function peticionMef(config: AxiosRequestConfig & { url: string }): Promise<AxiosResponse> {
+  const host = validarUrlMef(config.url).host;
+
+  for (let intento = 0; ; intento++) {
+    const liberar = await turno(host, config.signal as AbortSignal | undefined);
+    let espera: number;
+    try {
+      return await axios.request({
+        httpAgent,
+        httpsAgent,
+        timeout: TIMEOUT_MS,
+        maxContentLength: MAX_BYTES,
+        maxRedirects: MAX_REDIRECCIONES,
+        ...config,
+        // Sin proxy del entorno: el filtro de destino debe ver la conexión real
+        proxy: false,
+        beforeRedirect: opciones => { validarUrlMef(opciones.href); },
+        headers: { "User-Agent": USER_AGENT, ...config.headers }
+      });
+    } catch (error: any) {
+      const fallo = clasificar(error);
+      if (intento >= REINTENTOS || !esReintentable(fallo)) throw fallo;
+      espera = esperaReintento(intento, error.response);
+      console.warn(`Reintento ${intento + 1} de ${REINTENTOS} para ${config.url} en ${Math.round(espera)} ms: ${fallo.message}`);
+    } finally {
+      liberar();
+    }
+    await esperar(espera, config.signal as AbortSignal | undefined);
+  }
+}
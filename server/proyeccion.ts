@@ -0,0 +1,117 @@
+import { FilaMef, sumarFilas } from "../src/lib/metricas";
+import { Emparejamiento } from "./emparejamiento";
+import { Pagina } from "./snapshots";
+import type { EstadoProyeccion, ProyeccionConcepto, ProyeccionData } from "../src/types";
+
+// Porcentaje del PIM que se considera una ejecución completa al cierre
+export const META_EJECUCION = 90;
+// Un año que al mes de corte llevaba menos de esta participación no sirve para proyectar:
+// dividir entre casi cero amplifica cualquier monto
+const PARTICIPACION_MINIMA = 0.02;
+// Años con ejecución que necesita un concepto para usar su propio perfil estacional
+const YEARS_PERFIL_PROPIO = 2;
+
+const promedio = (valores: number[]) => valores.reduce((suma, valor) => suma + valor, 0) / valores.length;
+
+function acumular(mensual: number[]) {
+  let suma = 0;
+  return Array.from({ length: 12 }, (_, i) => (suma += mensual[i] ?? 0));
+}
+
+function sumarMeses(meses: number[][]) {
+  return Array.from({ length: 12 }, (_, i) => meses.reduce((suma, mensual) => suma + (mensual[i] ?? 0), 0));
+}
+
+// Participación acumulada de cada mes en la ejecución del año; null si el año no ejecutó nada
+function curvaDelYear(mensual: number[]): number[] | null {
+  const acumulado = acumular(mensual);
+  const anual = acumulado[11];
+  if (!(anual > 0)) return null;
+  return acumulado.map(monto => Math.min(Math.max(monto / anual, 0), 1));
+}
+
+function estadoProyeccion(proyeccion: number, maximo: number, pim: number): EstadoProyeccion | null {
+  if (!(pim > 0)) return null;
+  const meta = pim * META_EJECUCION / 100;
+  if (proyeccion >= meta) return "en_camino";
+  // Ni siguiendo el año histórico más rápido llega a la meta
+  return maximo < meta ? "en_riesgo" : "rezagado";
+}
+
+// Lo ejecutado al mes de corte dividido entre la participación que ese mes tenía en años anteriores.
+// La proyección central usa el perfil promedio; la banda, el perfil de cada año por separado.
+function proyectar(mensualActual: number[], pim: number, curvas: number[][], mesCorte: number, perfil: ProyeccionConcepto["perfil"]): ProyeccionConcepto | null {
+  const validas = curvas.filter(curva => curva[mesCorte - 1] >= PARTICIPACION_MINIMA);
+  if (!validas.length) return null;
+
+  const curva = Array.from({ length: 12 }, (_, i) => promedio(validas.map(c => c[i])));
+  const acumuladoMensual = acumular(mensualActual).slice(0, mesCorte);
+  const acumulado = acumuladoMensual[mesCorte - 1];
+  const proyeccion = acumulado / curva[mesCorte - 1];
+  const porYear = validas.map(c => acumulado / c[mesCorte - 1]);
+  const maximo = Math.max(...porYear);
+
+  return {
+    acumulado,
+    pim,
+    proyeccion,
+    minimo: Math.min(...porYear),
+    maximo,
+    avanceProyectado: pim > 0 ? proyeccion / pim * 100 : null,
+    estado: estadoProyeccion(proyeccion, maximo, pim),
+    perfil,
+    years: validas.length,
+    curva,
+    mensual: acumuladoMensual
+  };
+}
+
+// Ejecución mensual de un año bajo el nombre del concepto en el año actual, sumando los nombres que
+// el emparejamiento unió en ese año
+function mensualEmparejado(pagina: Pagina, year: number, concepto: string, emparejamientos: Emparejamiento[] = []) {
+  const nombres = [concepto, ...emparejamientos.filter(e => e.year === year).map(e => e.concepto)];
+  return sumarMeses(nombres.map(nombre => pagina.datos.mensual![nombre]).filter(Boolean));
+}
+
+// Proyecta el cierre del último año de la serie. Requiere la vista mensual en todas las páginas,
+// al menos un año anterior y que el año actual no esté cerrado; si no, devuelve null.
+export function proyectarCierre(
+  years: number[],
+  paginas: Pagina[],
+  filasActuales: Record<string, FilaMef>,
+  emparejamientos: Record<string, Emparejamiento[]>,
+  mesCorte: number
+): ProyeccionData | null {
+  if (years.length < 2 || mesCorte >= 12 || paginas.some(pagina => !pagina.datos.mensual)) return null;
+
+  const actual = paginas[paginas.length - 1];
+  const historia = paginas.slice(0, -1);
+  const yearsHistoria = years.slice(0, -1);
+  const mensualActual = actual.datos.mensual!;
+
+  const curvasTotal = historia
+    .map(pagina => curvaDelYear(sumarMeses(Object.values(pagina.datos.mensual!))))
+    .filter(Boolean);
+  const total = proyectar(
+    sumarMeses(Object.values(mensualActual)),
+    sumarFilas(Object.values(filasActuales)).pim,
+    curvasTotal,
+    mesCorte,
+    "agregado"
+  );
+  if (!total) return null;
+
+  const conceptos: Record<string, ProyeccionConcepto> = {};
+  for (const [concepto, fila] of Object.entries(filasActuales)) {
+    const curvasPropias = historia
+      .map((pagina, i) => curvaDelYear(mensualEmparejado(pagina, yearsHistoria[i], concepto, emparejamientos[concepto])))
+      .filter(curva => curva && curva[mesCorte - 1] >= PARTICIPACION_MINIMA);
+    const mensual = mensualActual[concepto] ?? [];
+    const proyeccion = curvasPropias.length >= YEARS_PERFIL_PROPIO
+      ? proyectar(mensual, fila.pim, curvasPropias, mesCorte, "propio")
+      : proyectar(mensual, fila.pim, curvasTotal, mesCorte, "agregado");
+    if (proyeccion) conceptos[concepto] = proyeccion;
+  }
+
+  return { year: years[years.length - 1], mesCorte, meta: META_EJECUCION, yearsHistoria, total, conceptos };
+}
@@ -0,0 +1,211 @@
+import { GoogleGenAI } from "@google/genai";
+import { ErrorServicio, ErrorSolicitud } from "./errores";
+import { FormatoNumeros, formatPorcentaje, formatValor, formatVariacion } from "../src/lib/format";
+import type { CifraResumen, ComparacionResumen, ConceptoData, MetricaInfo, ResumenComparacion, TotalesData } from "../src/types";
+
+// Conceptos con mayor alza, mayor baja, nuevos y discontinuados que se envían al proveedor
+const CONCEPTOS_DESTACADOS = 5;
+// Los montos del resumen se citan en millones con un decimal
+const FORMATO_RESUMEN: FormatoNumeros = { unidad: "millones", decimales: 1 };
+const MODELO_POR_DEFECTO = process.env.RESUMEN_MODELO || "gemini-2.5-flash";
+const TIMEOUT_RESUMEN_MS = Number(process.env.RESUMEN_TIMEOUT_MS || 60000);
+
+const INSTRUCCIONES = `Eres analista de presupuesto público del Perú. A partir de la comparación en JSON, redacta en español
+un resumen para un informe semanal: un solo párrafo de 4 a 6 oraciones, sin títulos ni viñetas.
+Menciona el total, las mayores alzas y bajas y, si los hay, los conceptos nuevos y los que dejaron de registrar montos.
+Cita solo cifras que aparezcan en los datos, escritas tal como están (con su unidad). No calcules cifras nuevas,
+no cambies el redondeo ni agregues información que no esté en los datos.`;
+
+interface FilaResumen {
+  concepto: string;
+  anterior: string;
+  actual: string;
+  variacion: string;
+  variacionPorcentual: string;
+}
+
+// Lo que recibe el proveedor: cifras ya formateadas, para que el texto las cite tal cual
+export interface DatosResumen {
+  metrica: string;
+  comparacion: string;
+  periodo: string;
+  // Solo para montos: los porcentajes no dependen del nivel de precios
+  precios: string | null;
+  conceptos: number;
+  total: FilaResumen;
+  mayoresAlzas: FilaResumen[];
+  mayoresBajas: FilaResumen[];
+  cantidadNuevos: number;
+  nuevos: FilaResumen[];
+  cantidadDiscontinuados: number;
+  discontinuados: FilaResumen[];
+}
+
+export interface ProveedorResumen {
+  nombre: string;
+  modelo: string | null;
+  generar(datos: DatosResumen, signal: AbortSignal): Promise<string>;
+}
+
+function leerComparacion(body: any): ComparacionResumen {
+  if (!body || !Array.isArray(body.data) || !body.totales || !body.metrica?.etiqueta || !body.metrica?.tipo) {
+    throw new ErrorSolicitud("El resumen necesita la métrica, los conceptos y los totales de la comparación.");
+  }
+  if (typeof body.periodo?.etiqueta !== "string") {
+    throw new ErrorSolicitud("El resumen necesita el periodo de la comparación.");
+  }
+  if (!body.data.length) {
+    throw new ErrorSolicitud("La comparación no tiene conceptos que resumir.");
+  }
+  return body;
+}
+
+function filaResumen(concepto: string, fila: ConceptoData | TotalesData, metrica: MetricaInfo): FilaResumen {
+  const monto = metrica.tipo === "monto";
+  const valor = (num: number) => monto ? `${formatValor(num, metrica.tipo, FORMATO_RESUMEN)} millones` : formatValor(num, metrica.tipo, FORMATO_RESUMEN);
+  const variacion = formatVariacion(fila.variacionS, metrica.tipo, FORMATO_RESUMEN);
+  return {
+    concepto,
+    anterior: valor(fila.montoAnterior),
+    actual: valor(fila.montoActual),
+    variacion: monto ? `${variacion} millones` : `${variacion} p.p.`,
+    variacionPorcentual: formatPorcentaje(fila.variacionPorcentaje, fila.nuevo)
+  };
+}
+
+export function datosParaResumen(comparacion: ComparacionResumen): DatosResumen {
+  const { metrica, data } = comparacion;
+  const fila = (item: ConceptoData) => filaResumen(item.concepto, item, metrica);
+  const nuevos = data.filter(item => item.nuevo);
+  const discontinuados = data.filter(item => item.montoAnterior > 0 && item.montoActual === 0);
+  const porVariacion = [...data].sort((a, b) => b.variacionS - a.variacionS);
+
+  return {
+    metrica: metrica.etiqueta,
+    comparacion: comparacion.etiquetas
+      ? `${comparacion.etiquetas.anterior} vs. ${comparacion.etiquetas.actual}`
+      : `${comparacion.yearAnterior} vs. ${comparacion.yearActual}`,
+    periodo: comparacion.periodo.etiqueta,
+    precios: metrica.tipo !== "monto" ? null : comparacion.yearBase ? `Precios constantes de ${comparacion.yearBase}` : "Precios corrientes",
+    conceptos: data.length,
+    total: filaResumen("TOTAL", comparacion.totales, metrica),
+    mayoresAlzas: porVariacion.filter(item => item.variacionS > 0).slice(0, CONCEPTOS_DESTACADOS).map(fila),
+    mayoresBajas: porVariacion.filter(item => item.variacionS < 0).reverse().slice(0, CONCEPTOS_DESTACADOS).map(fila),
+    cantidadNuevos: nuevos.length,
+    nuevos: [...nuevos].sort((a, b) => b.montoActual - a.montoActual).slice(0, CONCEPTOS_DESTACADOS).map(fila),
+    cantidadDiscontinuados: discontinuados.length,
+    discontinuados: [...discontinuados].sort((a, b) => b.montoAnterior - a.montoAnterior).slice(0, CONCEPTOS_DESTACADOS).map(fila)
+  };
+}
+
+export function proveedorGemini(apiKey: string, modelo = MODELO_POR_DEFECTO): ProveedorResumen {
+  const ai = new GoogleGenAI({ apiKey });
+  return {
+    nombre: "Gemini",
+    modelo,
+    async generar(datos, signal) {
+      const respuesta = await ai.models.generateContent({
+        model: modelo,
+        contents: JSON.stringify(datos, null, 2),
+        config: { systemInstruction: INSTRUCCIONES, temperature: 0.2, abortSignal: signal }
+      });
+      return respuesta.text ?? "";
+    }
+  };
+}
+
+const enumerar = (partes: string[]) => partes.length > 1 ? `${partes.slice(0, -1).join(", ")} y ${partes[partes.length - 1]}` : partes[0];
+
+// Resumen armado con plantillas, sin red: para pruebas y para trabajar sin clave de API
+export const proveedorLocal: ProveedorResumen = {
+  nombre: "Plantilla local",
+  modelo: null,
+  async generar(datos) {
+    const { total } = datos;
+    const oraciones = [
+      `${datos.metrica} ${datos.comparacion} (${[datos.periodo, datos.precios].filter(Boolean).join(", ").toLowerCase()}): el total pasó de ${total.anterior} a ${total.actual}, una variación de ${total.variacion} (${total.variacionPorcentual}).`
+    ];
+    if (datos.mayoresAlzas.length) {
+      oraciones.push(`Las mayores alzas fueron ${enumerar(datos.mayoresAlzas.map(f => `${f.concepto} (${f.variacion})`))}.`);
+    }
+    if (datos.mayoresBajas.length) {
+      oraciones.push(`Las mayores bajas fueron ${enumerar(datos.mayoresBajas.map(f => `${f.concepto} (${f.variacion})`))}.`);
+    }
+    if (datos.cantidadNuevos) {
+      const nuevos = enumerar(datos.nuevos.map(f => `${f.concepto} (${f.actual})`));
+      oraciones.push(datos.cantidadNuevos === 1
+        ? `Aparece un concepto nuevo: ${nuevos}.`
+        : `Aparecen ${datos.cantidadNuevos} conceptos nuevos, entre ellos ${nuevos}.`);
+    }
+    if (datos.cantidadDiscontinuados) {
+      const discontinuados = enumerar(datos.discontinuados.map(f => `${f.concepto} (${f.anterior})`));
+      oraciones.push(datos.cantidadDiscontinuados === 1
+        ? `Un concepto dejó de registrar montos: ${discontinuados}.`
+        : `${datos.cantidadDiscontinuados} conceptos dejaron de registrar montos, entre ellos ${discontinuados}.`);
+    }
+    return oraciones.join(" ");
+  }
+};
+
+// RESUMEN_PROVEEDOR elige el proveedor; sin él se usa Gemini si hay clave y, si no, la plantilla local
+export function proveedorConfigurado(): ProveedorResumen {
+  const elegido = process.env.RESUMEN_PROVEEDOR || (process.env.GEMINI_API_KEY ? "gemini" : "local");
+  if (elegido === "local") return proveedorLocal;
+  if (elegido !== "gemini") {
+    throw new ErrorServicio(`El proveedor de resúmenes '${elegido}' no es válido. Use 'gemini' o 'local'.`);
+  }
+  if (!process.env.GEMINI_API_KEY) {
+    throw new ErrorServicio("Falta GEMINI_API_KEY para generar resúmenes con Gemini.");
+  }
+  return proveedorGemini(process.env.GEMINI_API_KEY);
+}
+
+// Números escritos con miles separados por espacio o coma ("1 234", "1,234") y decimales con punto o coma
+const NUMERO = /(\d{1,3}(?:[ \u00a0,]\d{3})+|\d+)(?:[.,](\d+))?/g;
+
+function extraerNumeros(texto: string) {
+  return [...texto.matchAll(NUMERO)].map(m => ({
+    texto: m[0],
+    inicio: m.index!,
+    valor: Number(`${m[1].replace(/[ \u00a0,]/g, "")}.${m[2] ?? "0"}`),
+    decimales: m[2]?.length ?? 0
+  }));
+}
+
+// Cada número del texto debe coincidir, con el redondeo con que se escribió, con alguna cifra de los datos
+// (montos, porcentajes, años, cantidades o códigos de los conceptos). El signo no se compara: suele ir en palabras.
+export function verificarCifras(texto: string, datos: DatosResumen): CifraResumen[] {
+  const permitidos: number[] = [];
+  const recorrer = (valor: unknown) => {
+    if (typeof valor === "number") permitidos.push(Math.abs(valor));
+    else if (typeof valor === "string") extraerNumeros(valor).forEach(n => permitidos.push(n.valor));
+    else if (valor && typeof valor === "object") Object.values(valor).forEach(recorrer);
+  };
+  recorrer(datos);
+
+  return extraerNumeros(texto).map(numero => ({
+    texto: numero.texto,
+    inicio: numero.inicio,
+    verificada: permitidos.some(permitido => Math.abs(Number(permitido.toFixed(numero.decimales)) - numero.valor) < 1e-9)
+  }));
+}
+
+export async function generarResumen(body: any, proveedor = proveedorConfigurado()): Promise<ResumenComparacion> {
+  const datos = datosParaResumen(leerComparacion(body));
+  let texto: string;
+  try {
+    texto = (await proveedor.generar(datos, AbortSignal.timeout(TIMEOUT_RESUMEN_MS))).trim();
+  } catch (e: any) {
+    throw new ErrorServicio(`No se pudo generar el resumen con ${proveedor.nombre}: ${e.message}`);
+  }
+  if (!texto) {
+    throw new ErrorServicio(`${proveedor.nombre} no devolvió texto para el resumen.`);
+  }
+  return {
+    texto,
+    proveedor: proveedor.nombre,
+    modelo: proveedor.modelo,
+    cifras: verificarCifras(texto, datos),
+    generadoEn: new Date().toISOString()
+  };
+}
@@ -0,0 +1,348 @@
+import * as cheerio from "cheerio";
+import { FilaMef, ColumnaMef, COLUMNAS_MEF, COLUMNA_EJECUCION, filaVacia } from "../src/lib/metricas";
+import type { TipoConsulta } from "../src/types";
+import { peticionMef } from "./peticiones";
+import { ErrorMef } from "./errores";
+
+// Cómo se llega al nivel inferior de una fila: un enlace directo o un postback del formulario
+export type EnlaceHijo =
+  | { tipo: "href"; href: string }
+  | { tipo: "postback"; campos: Record<string, string> };
+
+export interface NivelMef {
+  id: string;
+  etiqueta: string;
+}
+
+export interface FormularioMef {
+  action: string;
+  metodo: "get" | "post";
+  campos: Record<string, string>;
+  niveles: NivelMef[];
+}
+
+export interface NavegacionMef {
+  enlaces: Record<string, EnlaceHijo>;
+  formulario?: FormularioMef;
+}
+
+export interface DatosMef {
+  // Gasto o ingreso, según las columnas de la tabla
+  tipo: TipoConsulta;
+  filas: Record<string, FilaMef>;
+  columnas: ColumnaMef[];
+  encabezado: string[];
+  navegacion?: NavegacionMef;
+  // Ejecución mensual (devengado o recaudado, de enero a diciembre) por concepto, cuando la consulta lo desglosa
+  mensual?: Record<string, number[]>;
+}
+
+// Nombres con los que Consulta Amigable rotula cada columna según el nivel y el año
+const ALIAS_COLUMNAS: Record<ColumnaMef, string[]> = {
+  pia: ["pia", "presupuesto institucional de apertura"],
+  pim: ["pim", "presupuesto institucional modificado"],
+  certificacion: ["certificacion", "certificado"],
+  compromisoAnual: ["compromiso anual", "compromiso"],
+  atencionCompromisoMensual: ["atencion de compromiso mensual", "atencion compromiso mensual", "compromiso mensual"],
+  devengado: ["devengado", "ejecucion devengado"],
+  girado: ["girado"],
+  avance: ["avance", "avance porcentual"],
+  recaudado: ["recaudado", "recaudacion", "ingreso recaudado"]
+};
+
+// Encabezados posibles de la columna descriptiva (varía con el nivel de agrupación)
+const ALIAS_CONCEPTO = [
+  "concepto", "descripcion", "nivel de gobierno", "sector", "pliego", "unidad ejecutora",
+  "departamento", "provincia", "distrito", "municipalidad", "funcion", "division funcional",
+  "grupo funcional", "programa", "categoria presupuestal", "producto proyecto", "actividad accion obra",
+  "actividad", "proyecto", "fuente de financiamiento", "rubro", "generica", "subgenerica", "especifica",
+  "tipo de recurso", "mes"
+];
+
+// Rótulos de las columnas de ejecución mensual, en orden de enero a diciembre
+const ALIAS_MESES = [
+  ["enero", "ene"], ["febrero", "feb"], ["marzo", "mar"], ["abril", "abr"],
+  ["mayo", "may"], ["junio", "jun"], ["julio", "jul"], ["agosto", "ago"],
+  ["setiembre", "septiembre", "set", "sep"], ["octubre", "oct"], ["noviembre", "nov"], ["diciembre", "dic"]
+];
+
+export function removeAccents(str: string) {
+  return str.normalize("NFD").replace(/[\u0300-\u036f]/g, "");
+}
+
+function normalizarEncabezado(texto: string) {
+  return removeAccents(texto)
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+function esFilaTotal(concepto: string) {
+  const normalizado = normalizarEncabezado(concepto);
+  return /^(sub ?)?totale?s?\b/.test(normalizado);
+}
+
+// Devuelve el texto de cada celda en su posición real, expandiendo colspan
+function celdasPorPosicion($: cheerio.CheerioAPI, row: cheerio.Cheerio<any>) {
+  const celdas: string[] = [];
+  row.children("td, th").each((_, cell) => {
+    const span = parseInt($(cell).attr("colspan") || "1", 10) || 1;
+    const texto = $(cell).text().replace(/\s+/g, " ").trim();
+    for (let i = 0; i < span; i++) {
+      celdas.push(i === 0 ? texto : "");
+    }
+  });
+  return celdas;
+}
+
+// Combina encabezados de varias filas (p. ej. "Ejecución" sobre "Devengado | Girado")
+// respetando rowspan y colspan; cada columna toma el rótulo más bajo disponible
+function encabezadoCombinado($: cheerio.CheerioAPI, rows: cheerio.Cheerio<any>[]) {
+  const grid: string[][] = rows.map(() => []);
+
+  rows.forEach((row, r) => {
+    let col = 0;
+    row.children("td, th").each((_, cell) => {
+      while (grid[r][col] !== undefined) col++;
+      const colspan = parseInt($(cell).attr("colspan") || "1", 10) || 1;
+      const rowspan = parseInt($(cell).attr("rowspan") || "1", 10) || 1;
+      const texto = $(cell).text().replace(/\s+/g, " ").trim();
+      for (let dr = 0; dr < rowspan && r + dr < rows.length; dr++) {
+        for (let dc = 0; dc < colspan; dc++) {
+          grid[r + dr][col + dc] = dc === 0 ? texto : "";
+        }
+      }
+      col += colspan;
+    });
+  });
+
+  const ancho = Math.max(...grid.map(fila => fila.length));
+  return Array.from({ length: ancho }, (_, col) => {
+    for (let r = grid.length - 1; r >= 0; r--) {
+      if (grid[r][col]) return grid[r][col];
+    }
+    return "";
+  });
+}
+
+function tieneRotulos(celdas: string[]) {
+  const { indices } = mapearEncabezado(celdas);
+  return Object.keys(indices).length > 0 || celdas.some(texto => ALIAS_CONCEPTO.includes(normalizarEncabezado(texto)));
+}
+
+function esFilaDeDatos(celdas: string[]) {
+  return celdas.some(texto => /^-?[\d,]+(\.\d+)?%?$/.test(texto.trim()));
+}
+
+function mapearEncabezado(celdas: string[]) {
+  const indices: Partial<Record<ColumnaMef, number>> = {};
+  const meses: number[] = ALIAS_MESES.map(() => -1);
+  let concepto = -1;
+
+  celdas.forEach((texto, idx) => {
+    const normalizado = normalizarEncabezado(texto);
+    if (!normalizado) return;
+
+    const columna = COLUMNAS_MEF.find(col => indices[col] === undefined && ALIAS_COLUMNAS[col].includes(normalizado));
+    const mes = ALIAS_MESES.findIndex(alias => alias.includes(normalizado.replace(/^(devengado|recaudado) /, "")));
+    if (columna) {
+      indices[columna] = idx;
+    } else if (mes >= 0 && meses[mes] === -1) {
+      meses[mes] = idx;
+    } else if (concepto === -1 && ALIAS_CONCEPTO.includes(normalizado)) {
+      concepto = idx;
+    }
+  });
+
+  // Si el rótulo descriptivo no es conocido se usa la primera columna de texto no numérica
+  if (concepto === -1) {
+    concepto = celdas.findIndex((texto, idx) =>
+      normalizarEncabezado(texto) !== "" && !Object.values(indices).includes(idx) && !meses.includes(idx)
+    );
+  }
+
+  return { indices, meses, concepto };
+}
+
+function parseEnlace($: cheerio.CheerioAPI, row: cheerio.Cheerio<any>): EnlaceHijo | undefined {
+  const href = row.find("a[href]").toArray()
+    .map(a => $(a).attr("href")!)
+    .find(h => h && !h.startsWith("#"));
+
+  const postback = href?.match(/__doPostBack\(\s*'([^']*)'\s*,\s*'([^']*)'\s*\)/);
+  if (postback) {
+    return { tipo: "postback", campos: { __EVENTTARGET: postback[1], __EVENTARGUMENT: postback[2] } };
+  }
+  if (href && !href.startsWith("javascript:")) {
+    return { tipo: "href", href };
+  }
+
+  const seleccion = row.find("input[type=radio], input[type=checkbox]").first();
+  const nombre = seleccion.attr("name");
+  if (nombre) {
+    return { tipo: "postback", campos: { [nombre]: seleccion.attr("value") ?? "on" } };
+  }
+  return undefined;
+}
+
+function parseFormulario($: cheerio.CheerioAPI): FormularioMef | undefined {
+  const form = $("form").first();
+  if (!form.length) return undefined;
+
+  const campos: Record<string, string> = {};
+  form.find("input[type=hidden], input[type=text], input:not([type]), select").each((_, el) => {
+    const nombre = $(el).attr("name");
+    if (!nombre) return;
+    campos[nombre] = $(el).is("select")
+      ? ($(el).find("option[selected]").attr("value") ?? $(el).find("option").first().attr("value") ?? "")
+      : ($(el).attr("value") ?? "");
+  });
+
+  // Los botones del formulario son las dimensiones por las que se puede desagregar
+  const niveles: NivelMef[] = [];
+  form.find("input[type=submit], input[type=button], button[name]").each((_, el) => {
+    const id = $(el).attr("name");
+    const etiqueta = ($(el).attr("value") || $(el).text()).trim();
+    if (id && etiqueta) niveles.push({ id, etiqueta });
+  });
+
+  return {
+    action: form.attr("action") || "",
+    metodo: (form.attr("method") || "get").toLowerCase() === "post" ? "post" : "get",
+    campos,
+    niveles
+  };
+}
+
+// Las páginas guardadas antes de distinguir ingresos no traen el tipo: se deduce de sus columnas
+export function tipoDeColumnas(columnas: ColumnaMef[]): TipoConsulta {
+  return columnas.includes("recaudado") ? "ingreso" : "gasto";
+}
+
+function parseMonto(texto: string) {
+  return parseFloat(texto.replace(/,/g, "").replace(/%/g, "").trim());
+}
+
+export function parseMefHtml(html: string): DatosMef {
+  const $ = cheerio.load(html);
+
+  const table = $("table.Data").first();
+  if (!table.length) {
+    throw new ErrorMef(`No se encontró la tabla de datos en la URL proporcionada. Verifique que el enlace sea de Consulta Amigable.`, "parseo");
+  }
+
+  // El encabezado puede estar dentro de table.Data o en una tabla anterior de la página
+  const filasTabla = table.find("tr").toArray();
+  const todasLasFilas = $("tr").toArray();
+  const filasPrevias = todasLasFilas.slice(0, Math.max(todasLasFilas.indexOf(filasTabla[0]), 0));
+
+  let encabezado: string[] = [];
+  let mapa: ReturnType<typeof mapearEncabezado> | null = null;
+  let inicioDatos = 0;
+
+  const esCandidato = (row: any) => {
+    const { indices, meses } = mapearEncabezado(celdasPorPosicion($, $(row)));
+    return Object.keys(indices).length + meses.filter(idx => idx >= 0).length >= 2;
+  };
+
+  const idxTabla = filasTabla.findIndex(esCandidato);
+  if (idxTabla >= 0) {
+    // Se agregan las filas de encabezado siguientes (sub-rótulos) hasta la primera fila con datos
+    let fin = idxTabla + 1;
+    while (fin < filasTabla.length && fin - idxTabla < 3 && !esFilaDeDatos(celdasPorPosicion($, $(filasTabla[fin])))) {
+      fin++;
+    }
+    encabezado = encabezadoCombinado($, filasTabla.slice(idxTabla, fin).map(row => $(row)));
+    mapa = mapearEncabezado(encabezado);
+    inicioDatos = fin;
+  } else {
+    const idxPrevia = filasPrevias.map(esCandidato).lastIndexOf(true);
+    if (idxPrevia >= 0) {
+      // Encabezado en una tabla aparte: se sube mientras las filas anteriores también sean rótulos
+      const tablaEncabezado = $(filasPrevias[idxPrevia]).closest("table")[0];
+      let inicio = idxPrevia;
+      while (
+        inicio > 0 &&
+        idxPrevia - inicio < 2 &&
+        $(filasPrevias[inicio - 1]).closest("table")[0] === tablaEncabezado &&
+        !esFilaDeDatos(celdasPorPosicion($, $(filasPrevias[inicio - 1]))) &&
+        tieneRotulos(celdasPorPosicion($, $(filasPrevias[inicio - 1])))
+      ) {
+        inicio--;
+      }
+      encabezado = encabezadoCombinado($, filasPrevias.slice(inicio, idxPrevia + 1).map(row => $(row)));
+      mapa = mapearEncabezado(encabezado);
+      inicioDatos = 0;
+    }
+  }
+
+  if (!mapa) {
+    throw new ErrorMef(`No se encontró la fila de encabezados de la tabla (se esperaba al menos PIA, PIM, Devengado o Recaudado).`, "parseo");
+  }
+
+  // Las páginas de ingreso rotulan la ejecución como recaudado, también en la vista mensual
+  const tipo: TipoConsulta = mapa.indices.recaudado !== undefined || encabezado.some(texto => normalizarEncabezado(texto).startsWith("recaud"))
+    ? "ingreso"
+    : "gasto";
+  const ejecucion = COLUMNA_EJECUCION[tipo];
+
+  // Sin columna anual de ejecución, la vista mensual permite reconstruirla sumando los meses
+  const tieneMeses = mapa.meses.some(idx => idx >= 0);
+  const faltaEjecucion = mapa.indices[ejecucion] === undefined && !tieneMeses;
+  if (faltaEjecucion || mapa.concepto === -1) {
+    const nombres = [...(mapa.concepto === -1 ? ["concepto"] : []), ...(faltaEjecucion ? [ejecucion] : [])];
+    throw new ErrorMef(`Faltan columnas esperadas (${nombres.join(", ")}). Encabezado encontrado: ${encabezado.filter(Boolean).join(" | ")}`, "parseo");
+  }
+
+  const columnas = COLUMNAS_MEF.filter(col => mapa!.indices[col] !== undefined || (col === ejecucion && tieneMeses));
+  const filas: Record<string, FilaMef> = {};
+  const enlaces: Record<string, EnlaceHijo> = {};
+  const mensual: Record<string, number[]> = {};
+  let hasData = false;
+
+  for (const row of filasTabla.slice(inicioDatos)) {
+    const celdas = celdasPorPosicion($, $(row));
+    const conceptoRaw = celdas[mapa.concepto];
+    if (!conceptoRaw || esFilaTotal(conceptoRaw)) continue;
+
+    const montosMes = mapa.meses.map(idx => idx >= 0 ? parseMonto(celdas[idx] ?? "") : NaN);
+    const ejecutado = mapa.indices[ejecucion] !== undefined
+      ? parseMonto(celdas[mapa.indices[ejecucion]!] ?? "")
+      : (montosMes.every(isNaN) ? NaN : montosMes.reduce((sum, monto) => sum + (isNaN(monto) ? 0 : monto), 0));
+    if (isNaN(ejecutado)) continue;
+
+    const fila = filaVacia();
+    for (const columna of columnas) {
+      const idx = mapa.indices[columna];
+      const valor = idx !== undefined ? parseMonto(celdas[idx] ?? "") : NaN;
+      fila[columna] = isNaN(valor) ? 0 : valor;
+    }
+    fila[ejecucion] = ejecutado;
+
+    const concepto = removeAccents(conceptoRaw);
+    filas[concepto] = fila;
+    if (tieneMeses) mensual[concepto] = montosMes.map(monto => isNaN(monto) ? 0 : monto);
+    const enlace = parseEnlace($, $(row));
+    if (enlace) enlaces[concepto] = enlace;
+    hasData = true;
+  }
+
+  if (!hasData) {
+    throw new ErrorMef(`La tabla se encontró pero no contiene datos numéricos válidos en las columnas esperadas.`, "parseo");
+  }
+
+  return {
+    tipo,
+    filas,
+    columnas,
+    encabezado,
+    navegacion: { enlaces, formulario: parseFormulario($) },
+    ...(tieneMeses ? { mensual } : {})
+  };
+}
+
+export async function scrapeMefData(url: string, signal?: AbortSignal) {
+  const response = await peticionMef({ url, responseType: 'arraybuffer', signal });
+  const html = new TextDecoder('utf-8').decode(response.data);
+  return parseMefHtml(html);
+}
@@ -0,0 +1,140 @@
+import { db } from "./db";
+import { ErrorNoEncontrado, ErrorSolicitud } from "./errores";
+import { DatosMef, scrapeMefData, tipoDeColumnas } from "./scraper";
+
+// Prefijo de las URLs de páginas cargadas como archivo en lugar de consultadas al MEF
+export const PREFIJO_ARCHIVO = "archivo://";
+
+export type ModoDatos = "online" | "offline";
+
+export interface OpcionesSnapshot {
+  modo?: ModoDatos;
+  // Antigüedad máxima aceptable de una captura guardada, en horas
+  maxAgeHoras?: number;
+  forzar?: boolean;
+  // Reproduce los datos tal como estaban a esa fecha (ISO 8601)
+  hasta?: string;
+}
+
+export interface Pagina {
+  url: string;
+  year: number;
+  fetchedAt: string;
+  origen: "cache" | "red" | "archivo";
+  datos: DatosMef;
+}
+
+interface SnapshotRow {
+  id: number;
+  url: string;
+  year: number;
+  fetched_at: string;
+  columnas: string;
+  encabezado: string;
+  filas: string;
+  navegacion: string | null;
+  mensual: string | null;
+}
+
+const MAX_AGE_HORAS_POR_DEFECTO = Number(process.env.SNAPSHOT_MAX_AGE_HOURS || 24);
+
+const insertSnapshot = db.prepare(
+  `INSERT INTO snapshots (url, year, fetched_at, columnas, encabezado, filas, navegacion, mensual) VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+);
+const selectUltimo = db.prepare(
+  `SELECT * FROM snapshots WHERE url = ? AND fetched_at <= ? ORDER BY fetched_at DESC LIMIT 1`
+);
+const selectPorId = db.prepare(`SELECT * FROM snapshots WHERE id = ?`);
+const selectResumen = db.prepare(
+  `SELECT id, url, year, fetched_at FROM snapshots WHERE (? IS NULL OR url = ?) ORDER BY fetched_at DESC LIMIT ?`
+);
+
+function aPagina(row: SnapshotRow, origen: Pagina["origen"]): Pagina {
+  const columnas = JSON.parse(row.columnas);
+  return {
+    url: row.url,
+    year: row.year,
+    fetchedAt: row.fetched_at,
+    origen,
+    datos: {
+      tipo: tipoDeColumnas(columnas),
+      columnas,
+      encabezado: JSON.parse(row.encabezado),
+      filas: JSON.parse(row.filas),
+      navegacion: row.navegacion ? JSON.parse(row.navegacion) : undefined,
+      mensual: row.mensual ? JSON.parse(row.mensual) : undefined
+    }
+  };
+}
+
+export function guardarSnapshot(url: string, year: number, datos: DatosMef, fetchedAt = new Date().toISOString()) {
+  insertSnapshot.run(
+    url,
+    year,
+    fetchedAt,
+    JSON.stringify(datos.columnas),
+    JSON.stringify(datos.encabezado),
+    JSON.stringify(datos.filas),
+    datos.navegacion ? JSON.stringify(datos.navegacion) : null,
+    datos.mensual ? JSON.stringify(datos.mensual) : null
+  );
+  return fetchedAt;
+}
+
+export function ultimoSnapshot(url: string, hasta = new Date().toISOString()): Pagina | undefined {
+  const row = selectUltimo.get(url, hasta) as SnapshotRow | undefined;
+  return row ? aPagina(row, "cache") : undefined;
+}
+
+export function listarSnapshots(url?: string, limite = 100) {
+  const rows = selectResumen.all(url ?? null, url ?? null, limite) as Pick<SnapshotRow, "id" | "url" | "year" | "fetched_at">[];
+  return rows.map(row => ({ id: row.id, url: row.url, year: row.year, fetchedAt: row.fetched_at }));
+}
+
+export function obtenerSnapshot(id: number): (Pagina & { id: number }) | undefined {
+  const row = selectPorId.get(id) as SnapshotRow | undefined;
+  return row ? { id: row.id, ...aPagina(row, "cache") } : undefined;
+}
+
+// Las capturas se comparan por texto con fetched_at, que se guarda en UTC: la fecha de corte se lleva
+// al mismo formato. Una fecha sin hora incluye todas las capturas de ese día.
+function limiteHasta(hasta: string) {
+  if (/^\d{4}-\d{2}-\d{2}$/.test(hasta)) return `${hasta}T23:59:59.999Z`;
+  return new Date(hasta).toISOString();
+}
+
+// Devuelve la página desde la caché si es reciente; si no, la scrapea y guarda la captura
+export async function obtenerPagina(url: string, year: number, opciones: OpcionesSnapshot = {}, signal?: AbortSignal): Promise<Pagina> {
+  const { modo = "online", maxAgeHoras = MAX_AGE_HORAS_POR_DEFECTO, forzar = false, hasta } = opciones;
+
+  // Las páginas cargadas desde archivos solo existen como capturas
+  if (url.startsWith(PREFIJO_ARCHIVO)) {
+    const cargada = ultimoSnapshot(url);
+    if (!cargada) {
+      throw new ErrorSolicitud(`No se cargó una página para ${year}. Agregue la página de ese año o compare solo los años cargados.`);
+    }
+    return { ...cargada, origen: "archivo" };
+  }
+
+  // Forzar pide datos nuevos aunque haya fecha de corte; solo el modo sin conexión lo impide
+  if (modo === "offline" || (hasta && !forzar)) {
+    const guardada = ultimoSnapshot(url, hasta ? limiteHasta(hasta) : undefined);
+    if (!guardada) {
+      throw new ErrorNoEncontrado(hasta
+        ? `No hay una captura guardada anterior a ${hasta}.`
+        : `No hay una captura guardada para esta consulta (modo sin conexión).`);
+    }
+    return guardada;
+  }
+
+  if (!forzar) {
+    const guardada = ultimoSnapshot(url);
+    if (guardada && Date.now() - Date.parse(guardada.fetchedAt) <= maxAgeHoras * 3600 * 1000) {
+      return guardada;
+    }
+  }
+
+  const datos = await scrapeMefData(url, signal);
+  const fetchedAt = guardarSnapshot(url, year, datos);
+  return { url, year, fetchedAt, origen: "red", datos };
+}
@@ -0,0 +1,233 @@
+import { randomUUID } from "crypto";
+import { EventEmitter } from "events";
+import { db, agregarColumna } from "./db";
+import { ejecutarComparacion, prepararComparacion } from "./comparacion";
+import { compararLote, leerEntidades } from "./lote";
+import { ErrorMef, ErrorNoEncontrado, ErrorSolicitud } from "./errores";
+import { esFinal } from "../src/lib/trabajos";
+import type { EstadoTrabajo, EventoProgreso, ProgresoTrabajo, TipoErrorMef, TipoTrabajo, Trabajo } from "../src/types";
+
+// Trabajos que corren a la vez; el resto espera en la cola
+const CONCURRENCIA_TRABAJOS = 2;
+// Eventos que se conservan en el progreso de cada trabajo
+const MAX_EVENTOS = 30;
+// Los trabajos terminados más antiguos se eliminan al crear uno nuevo
+const MAX_TRABAJOS_GUARDADOS = 200;
+
+interface TrabajoRow {
+  id: string;
+  tipo: TipoTrabajo;
+  estado: EstadoTrabajo;
+  descripcion: string;
+  parametros: string;
+  progreso: string;
+  resultado: string | null;
+  error: string | null;
+  tipo_error: TipoErrorMef | null;
+  creado_en: string;
+  actualizado_en: string;
+}
+
+db.exec(`
+  CREATE TABLE IF NOT EXISTS trabajos (
+    id TEXT PRIMARY KEY,
+    tipo TEXT NOT NULL,
+    estado TEXT NOT NULL,
+    descripcion TEXT NOT NULL,
+    parametros TEXT NOT NULL,
+    progreso TEXT NOT NULL,
+    resultado TEXT,
+    error TEXT,
+    creado_en TEXT NOT NULL,
+    actualizado_en TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_trabajos_creado ON trabajos (creado_en);
+`);
+
+agregarColumna("trabajos", "tipo_error", "TEXT");
+
+const insertTrabajo = db.prepare(`
+  INSERT INTO trabajos (id, tipo, estado, descripcion, parametros, progreso, creado_en, actualizado_en)
+  VALUES (?, ?, 'pendiente', ?, ?, ?, ?, ?)
+`);
+const selectTrabajo = db.prepare(`SELECT * FROM trabajos WHERE id = ?`);
+const selectRecientes = db.prepare(`SELECT * FROM trabajos ORDER BY creado_en DESC LIMIT ?`);
+const selectPendientes = db.prepare(`SELECT id FROM trabajos WHERE estado = 'pendiente' ORDER BY creado_en`);
+// Un trabajo en cola o en curso no se elimina aunque quede fuera del límite: su fila se sigue actualizando
+const deleteAntiguos = db.prepare(`
+  DELETE FROM trabajos WHERE estado NOT IN ('pendiente', 'en_curso')
+    AND id NOT IN (SELECT id FROM trabajos ORDER BY creado_en DESC LIMIT ?)
+`);
+
+const avisos = new EventEmitter();
+avisos.setMaxListeners(0);
+
+const cola: string[] = [];
+const enCurso = new Map<string, AbortController>();
+
+function aTrabajo(row: TrabajoRow, conResultado = true): Trabajo {
+  return {
+    id: row.id,
+    tipo: row.tipo,
+    estado: row.estado,
+    descripcion: row.descripcion,
+    parametros: JSON.parse(row.parametros),
+    progreso: JSON.parse(row.progreso),
+    ...(conResultado ? { resultado: row.resultado ? JSON.parse(row.resultado) : null } : {}),
+    error: row.error,
+    tipoError: row.tipo_error,
+    creadoEn: row.creado_en,
+    actualizadoEn: row.actualizado_en
+  };
+}
+
+export function obtenerTrabajo(id: string): Trabajo | undefined {
+  const row = selectTrabajo.get(id) as TrabajoRow | undefined;
+  return row ? aTrabajo(row) : undefined;
+}
+
+export function listarTrabajos(limite = 20) {
+  return (selectRecientes.all(limite) as TrabajoRow[]).map(row => aTrabajo(row, false));
+}
+
+// Guarda los cambios y avisa a quienes siguen el trabajo
+function actualizar(id: string, cambios: { estado?: EstadoTrabajo; progreso?: ProgresoTrabajo; resultado?: unknown; error?: string; tipoError?: TipoErrorMef }) {
+  const columnas: string[] = ["actualizado_en = ?"];
+  const valores: unknown[] = [new Date().toISOString()];
+  if (cambios.estado !== undefined) { columnas.push("estado = ?"); valores.push(cambios.estado); }
+  if (cambios.progreso !== undefined) { columnas.push("progreso = ?"); valores.push(JSON.stringify(cambios.progreso)); }
+  if (cambios.resultado !== undefined) { columnas.push("resultado = ?"); valores.push(JSON.stringify(cambios.resultado)); }
+  if (cambios.error !== undefined) { columnas.push("error = ?"); valores.push(cambios.error); }
+  if (cambios.tipoError !== undefined) { columnas.push("tipo_error = ?"); valores.push(cambios.tipoError); }
+  db.prepare(`UPDATE trabajos SET ${columnas.join(", ")} WHERE id = ?`).run(...valores, id);
+
+  const trabajo = obtenerTrabajo(id);
+  if (trabajo) avisos.emit(id, trabajo);
+}
+
+export function suscribirTrabajo(id: string, fn: (trabajo: Trabajo) => void) {
+  avisos.on(id, fn);
+  return () => { avisos.off(id, fn); };
+}
+
+function describirEvento(evento: EventoProgreso) {
+  if (evento.tipo === "entidad") {
+    return `${evento.etiqueta}: ${evento.ok ? "listo" : evento.error}`;
+  }
+  const pagina = `Página ${evento.rotulo} (${evento.filas} filas${evento.origen === "cache" ? ", desde la caché" : ""})`;
+  return evento.entidad ? `${evento.entidad} · ${pagina}` : pagina;
+}
+
+// Valida los parámetros antes de encolar, para responder los errores con 400 y no como trabajo fallido
+function describirSolicitud(tipo: TipoTrabajo, parametros: any) {
+  if (tipo === "comparar") {
+    const { consultas, urls, years } = prepararComparacion(parametros);
+    return consultas
+      ? `${consultas[0].etiqueta} vs. ${consultas[1].etiqueta}`
+      : `${years[0]}–${years[years.length - 1]} · ${urls[urls.length - 1]}`;
+  }
+  const entidades = leerEntidades(parametros);
+  return `Lote de ${entidades.length} ${entidades.length === 1 ? "entidad" : "entidades"}`;
+}
+
+export function crearTrabajo(tipo: TipoTrabajo, parametros: any) {
+  if (tipo !== "comparar" && tipo !== "lote") {
+    throw new ErrorSolicitud(`El tipo de trabajo '${tipo}' no es válido. Use 'comparar' o 'lote'.`);
+  }
+  if (!parametros || typeof parametros !== "object") {
+    throw new ErrorSolicitud("Los parámetros del trabajo son requeridos.");
+  }
+
+  const descripcion = describirSolicitud(tipo, parametros);
+  const id = randomUUID();
+  const ahora = new Date().toISOString();
+  const progreso: ProgresoTrabajo = { completadas: 0, total: 0, mensaje: "En cola", eventos: [] };
+  insertTrabajo.run(id, tipo, descripcion, JSON.stringify(parametros), JSON.stringify(progreso), ahora, ahora);
+  deleteAntiguos.run(MAX_TRABAJOS_GUARDADOS);
+
+  cola.push(id);
+  procesarCola();
+  return obtenerTrabajo(id)!;
+}
+
+export function cancelarTrabajo(id: string) {
+  const trabajo = obtenerTrabajo(id);
+  if (!trabajo) {
+    throw new ErrorNoEncontrado("El trabajo no existe.");
+  }
+  if (esFinal(trabajo.estado)) {
+    throw new ErrorSolicitud("El trabajo ya terminó.");
+  }
+
+  const controlador = enCurso.get(id);
+  if (controlador) {
+    // El trabajo en curso pasa a cancelado cuando la consulta termina de abortarse
+    controlador.abort();
+  } else {
+    const enCola = cola.indexOf(id);
+    if (enCola >= 0) cola.splice(enCola, 1);
+    actualizar(id, { estado: "cancelado", progreso: { ...trabajo.progreso, mensaje: "Cancelado antes de iniciar" } });
+  }
+  return obtenerTrabajo(id)!;
+}
+
+async function ejecutarTrabajo(id: string, signal: AbortSignal) {
+  const row = selectTrabajo.get(id) as TrabajoRow | undefined;
+  if (!row || row.estado !== "pendiente") return;
+
+  const parametros = JSON.parse(row.parametros);
+  let progreso: ProgresoTrabajo = { ...JSON.parse(row.progreso), mensaje: "Iniciando" };
+  actualizar(id, { estado: "en_curso", progreso });
+
+  const alAvanzar = (evento: EventoProgreso) => {
+    // En un lote el avance se mide por entidades; las páginas solo se registran
+    const cuenta = row.tipo === "comparar" || evento.tipo === "entidad";
+    progreso = {
+      completadas: cuenta ? evento.completadas : progreso.completadas,
+      total: cuenta ? evento.total : progreso.total,
+      mensaje: describirEvento(evento),
+      eventos: [...progreso.eventos, evento].slice(-MAX_EVENTOS)
+    };
+    actualizar(id, { progreso });
+  };
+
+  try {
+    const resultado = row.tipo === "comparar"
+      ? await ejecutarComparacion(parametros, { alAvanzar, signal })
+      : await compararLote(parametros, { alAvanzar, signal, alParcial: parcial => actualizar(id, { resultado: parcial }) });
+    actualizar(id, { estado: "completado", resultado, progreso: { ...progreso, mensaje: "Completado" } });
+  } catch (error: any) {
+    if (signal.aborted) {
+      actualizar(id, { estado: "cancelado", progreso: { ...progreso, mensaje: "Cancelado por el usuario" } });
+    } else {
+      console.error(`Error en el trabajo ${id}:`, error.message);
+      actualizar(id, {
+        estado: "error",
+        error: error.message || "Error interno del servidor",
+        tipoError: error instanceof ErrorMef ? error.tipo : undefined,
+        progreso: { ...progreso, mensaje: "Error" }
+      });
+    }
+  }
+}
+
+function procesarCola() {
+  while (enCurso.size < CONCURRENCIA_TRABAJOS && cola.length) {
+    const id = cola.shift()!;
+    const controlador = new AbortController();
+    enCurso.set(id, controlador);
+    ejecutarTrabajo(id, controlador.signal).finally(() => {
+      enCurso.delete(id);
+      procesarCola();
+    });
+  }
+}
+
+// Al iniciar el servidor, los trabajos interrumpidos por un reinicio vuelven a la cola
+export function reanudarTrabajos() {
+  db.prepare(`UPDATE trabajos SET estado = 'pendiente' WHERE estado = 'en_curso'`).run();
+  for (const { id } of selectPendientes.all() as { id: string }[]) {
+    cola.push(id);
+  }
+  procesarCola();
+}
@@ -0,0 +1,328 @@
+import axios from "axios";
+import { createHmac } from "crypto";
+import { db } from "./db";
+import { ErrorNoEncontrado, ErrorSolicitud } from "./errores";
+import { ejecutarComparacion, prepararComparacion } from "./comparacion";
+import { PREFIJO_ARCHIVO } from "./snapshots";
+import { describirRegla, evaluarReglas, formatValorRegla } from "../src/lib/alertas";
+import type { ApiResponse, Notificacion, ReglaAlerta, Vigilancia } from "../src/types";
+
+// Cada cuánto el planificador busca consultas vigiladas pendientes de actualizar
+const INTERVALO_REVISION_MS = 60 * 1000;
+const MAX_FRECUENCIA_HORAS = 24 * 30;
+const MAX_REGLAS = 20;
+// Resultados que se conservan por consulta vigilada
+const MAX_RESULTADOS = 30;
+const MAX_NOTIFICACIONES = 200;
+// Cada notificación nueva se envía por POST a esta URL, firmada con HMAC-SHA256 si hay secreto
+const WEBHOOK_URL = process.env.NOTIFICACIONES_WEBHOOK_URL;
+const WEBHOOK_SECRETO = process.env.NOTIFICACIONES_WEBHOOK_SECRETO;
+
+interface VigilanciaRow {
+  id: number;
+  nombre: string;
+  parametros: string;
+  reglas: string;
+  frecuencia_horas: number;
+  ultima_ejecucion: string | null;
+  proxima_ejecucion: string;
+  ultimo_error: string | null;
+  alertas: string;
+  creado_en: string;
+}
+
+interface NotificacionRow {
+  id: number;
+  vigilancia_id: number | null;
+  vigilancia: string;
+  concepto: string;
+  mensaje: string;
+  creado_en: string;
+  leida: number;
+}
+
+db.exec(`
+  CREATE TABLE IF NOT EXISTS vigilancias (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    nombre TEXT NOT NULL,
+    parametros TEXT NOT NULL,
+    reglas TEXT NOT NULL,
+    frecuencia_horas INTEGER NOT NULL,
+    ultima_ejecucion TEXT,
+    proxima_ejecucion TEXT NOT NULL,
+    ultimo_error TEXT,
+    alertas TEXT NOT NULL DEFAULT '[]',
+    creado_en TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS vigilancia_resultados (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    vigilancia_id INTEGER NOT NULL,
+    ejecutado_en TEXT NOT NULL,
+    resultado TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_vigilancia_resultados ON vigilancia_resultados (vigilancia_id, ejecutado_en);
+  CREATE TABLE IF NOT EXISTS notificaciones (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    vigilancia_id INTEGER,
+    vigilancia TEXT NOT NULL,
+    concepto TEXT NOT NULL,
+    mensaje TEXT NOT NULL,
+    creado_en TEXT NOT NULL,
+    leida INTEGER NOT NULL DEFAULT 0
+  );
+`);
+
+const insertVigilancia = db.prepare(`
+  INSERT INTO vigilancias (nombre, parametros, reglas, frecuencia_horas, proxima_ejecucion, creado_en) VALUES (?, ?, ?, ?, ?, ?)
+`);
+const selectVigilancia = db.prepare(`SELECT * FROM vigilancias WHERE id = ?`);
+const selectVigilancias = db.prepare(`SELECT * FROM vigilancias ORDER BY creado_en DESC`);
+const selectVencidas = db.prepare(`SELECT id FROM vigilancias WHERE proxima_ejecucion <= ? ORDER BY proxima_ejecucion`);
+const deleteVigilancia = db.prepare(`DELETE FROM vigilancias WHERE id = ?`);
+const deleteResultados = db.prepare(`DELETE FROM vigilancia_resultados WHERE vigilancia_id = ?`);
+const desvincularNotificaciones = db.prepare(`UPDATE notificaciones SET vigilancia_id = NULL WHERE vigilancia_id = ?`);
+const updateEjecucion = db.prepare(`
+  UPDATE vigilancias SET ultima_ejecucion = ?, proxima_ejecucion = ?, ultimo_error = ?, alertas = ? WHERE id = ?
+`);
+const insertResultado = db.prepare(`INSERT INTO vigilancia_resultados (vigilancia_id, ejecutado_en, resultado) VALUES (?, ?, ?)`);
+const deleteResultadosAntiguos = db.prepare(`
+  DELETE FROM vigilancia_resultados WHERE vigilancia_id = ? AND id NOT IN (
+    SELECT id FROM vigilancia_resultados WHERE vigilancia_id = ? ORDER BY ejecutado_en DESC LIMIT ?
+  )
+`);
+const selectResultados = db.prepare(`
+  SELECT ejecutado_en, resultado FROM vigilancia_resultados WHERE vigilancia_id = ? ORDER BY ejecutado_en DESC
+`);
+const insertNotificacion = db.prepare(`
+  INSERT INTO notificaciones (vigilancia_id, vigilancia, concepto, mensaje, creado_en) VALUES (?, ?, ?, ?, ?)
+`);
+const deleteNotificacionesAntiguas = db.prepare(`
+  DELETE FROM notificaciones WHERE id NOT IN (SELECT id FROM notificaciones ORDER BY creado_en DESC, id DESC LIMIT ?)
+`);
+const selectNotificaciones = db.prepare(`SELECT * FROM notificaciones ORDER BY creado_en DESC, id DESC LIMIT ?`);
+const selectNoLeidas = db.prepare(`SELECT COUNT(*) AS cantidad FROM notificaciones WHERE leida = 0`);
+
+function aVigilancia(row: VigilanciaRow): Vigilancia {
+  return {
+    id: row.id,
+    nombre: row.nombre,
+    parametros: JSON.parse(row.parametros),
+    reglas: JSON.parse(row.reglas),
+    frecuenciaHoras: row.frecuencia_horas,
+    ultimaEjecucion: row.ultima_ejecucion,
+    proximaEjecucion: row.proxima_ejecucion,
+    ultimoError: row.ultimo_error,
+    alertasActivas: JSON.parse(row.alertas).length,
+    creadoEn: row.creado_en
+  };
+}
+
+function aNotificacion(row: NotificacionRow): Notificacion {
+  return {
+    id: row.id,
+    vigilanciaId: row.vigilancia_id,
+    vigilancia: row.vigilancia,
+    concepto: row.concepto,
+    mensaje: row.mensaje,
+    creadoEn: row.creado_en,
+    leida: row.leida === 1
+  };
+}
+
+function leerRegla(regla: any, idx: number): ReglaAlerta {
+  const prefijo = `La regla ${idx + 1}`;
+  if (!regla || typeof regla !== "object") {
+    throw new ErrorSolicitud(`${prefijo} no es válida.`);
+  }
+  if (!["actual", "variacionPorcentaje", "variacionS"].includes(regla.campo)) {
+    throw new ErrorSolicitud(`${prefijo} tiene un campo no válido ('${regla.campo}').`);
+  }
+  if (regla.operador !== "menor" && regla.operador !== "mayor") {
+    throw new ErrorSolicitud(`${prefijo} debe usar el operador 'menor' o 'mayor'.`);
+  }
+  const umbral = Number(regla.umbral);
+  if (regla.umbral === "" || regla.umbral === null || !Number.isFinite(umbral)) {
+    throw new ErrorSolicitud(`${prefijo} necesita un umbral numérico.`);
+  }
+  const desdeMes = regla.desdeMes ? Number(regla.desdeMes) : null;
+  if (desdeMes !== null && (!Number.isInteger(desdeMes) || desdeMes < 1 || desdeMes > 12)) {
+    throw new ErrorSolicitud(`${prefijo} tiene un mes no válido ('${regla.desdeMes}').`);
+  }
+  return {
+    campo: regla.campo,
+    operador: regla.operador,
+    umbral,
+    alcance: regla.alcance === "total" ? "total" : "conceptos",
+    filtro: typeof regla.filtro === "string" ? regla.filtro.trim() : "",
+    desdeMes
+  };
+}
+
+export function listarVigilancias() {
+  return (selectVigilancias.all() as VigilanciaRow[]).map(aVigilancia);
+}
+
+// Una consulta vigilada se actualiza siempre contra el MEF con los datos del día: sin fecha de corte
+// ni modo de caché, y no sobre páginas cargadas como archivo, que nunca cambian
+function parametrosVigilancia(parametros: any) {
+  const { hasta, modo, forzar, ...resto } = parametros;
+  if (prepararComparacion(resto).urls.some(url => url.startsWith(PREFIJO_ARCHIVO))) {
+    throw new ErrorSolicitud("Las páginas cargadas como archivo no se actualizan y no se pueden vigilar. Vigile la consulta del MEF.");
+  }
+  return resto;
+}
+
+export function crearVigilancia(body: any): Vigilancia {
+  const nombre = typeof body?.nombre === "string" ? body.nombre.trim() : "";
+  if (!nombre) {
+    throw new ErrorSolicitud("El nombre de la consulta vigilada es requerido.");
+  }
+  if (!body.parametros || typeof body.parametros !== "object") {
+    throw new ErrorSolicitud("Los parámetros de la comparación son requeridos.");
+  }
+  const parametros = parametrosVigilancia(body.parametros);
+  if (!Array.isArray(body.reglas) || !body.reglas.length) {
+    throw new ErrorSolicitud("Defina al menos una regla de alerta.");
+  }
+  if (body.reglas.length > MAX_REGLAS) {
+    throw new ErrorSolicitud(`Se admiten hasta ${MAX_REGLAS} reglas por consulta vigilada.`);
+  }
+  const reglas = body.reglas.map(leerRegla);
+  const frecuenciaHoras = body.frecuenciaHoras === undefined ? 24 : Number(body.frecuenciaHoras);
+  if (!Number.isInteger(frecuenciaHoras) || frecuenciaHoras < 1 || frecuenciaHoras > MAX_FRECUENCIA_HORAS) {
+    throw new ErrorSolicitud(`La frecuencia debe ser un número entero de horas entre 1 y ${MAX_FRECUENCIA_HORAS}.`);
+  }
+
+  // La primera actualización queda pendiente para la próxima revisión del planificador
+  const ahora = new Date().toISOString();
+  const { lastInsertRowid } = insertVigilancia.run(nombre, JSON.stringify(parametros), JSON.stringify(reglas), frecuenciaHoras, ahora, ahora);
+  return aVigilancia(selectVigilancia.get(lastInsertRowid) as VigilanciaRow);
+}
+
+// Las notificaciones ya emitidas se conservan con el nombre de la consulta
+export const eliminarVigilancia = db.transaction((id: number) => {
+  const { changes } = deleteVigilancia.run(id);
+  if (!changes) {
+    throw new ErrorNoEncontrado(`La consulta vigilada ${id} no existe.`);
+  }
+  deleteResultados.run(id);
+  desvincularNotificaciones.run(id);
+});
+
+export function listarResultados(id: number) {
+  if (!selectVigilancia.get(id)) {
+    throw new ErrorNoEncontrado(`La consulta vigilada ${id} no existe.`);
+  }
+  return (selectResultados.all(id) as { ejecutado_en: string; resultado: string }[])
+    .map(row => ({ ejecutadoEn: row.ejecutado_en, resultado: JSON.parse(row.resultado) as ApiResponse }));
+}
+
+export function listarNotificaciones(limite = 50) {
+  return {
+    notificaciones: (selectNotificaciones.all(limite) as NotificacionRow[]).map(aNotificacion),
+    noLeidas: (selectNoLeidas.get() as { cantidad: number }).cantidad
+  };
+}
+
+// Sin id marca todas como leídas
+export function marcarLeidas(id?: number) {
+  if (id === undefined) {
+    db.prepare(`UPDATE notificaciones SET leida = 1 WHERE leida = 0`).run();
+    return;
+  }
+  const { changes } = db.prepare(`UPDATE notificaciones SET leida = 1 WHERE id = ?`).run(id);
+  if (!changes) {
+    throw new ErrorNoEncontrado(`La notificación ${id} no existe.`);
+  }
+}
+
+async function enviarWebhook(notificacion: Notificacion) {
+  if (!WEBHOOK_URL) return;
+  const cuerpo = JSON.stringify({ evento: "notificacion", notificacion });
+  const headers: Record<string, string> = { "Content-Type": "application/json" };
+  if (WEBHOOK_SECRETO) {
+    headers["X-Firma"] = `sha256=${createHmac("sha256", WEBHOOK_SECRETO).update(cuerpo).digest("hex")}`;
+  }
+  try {
+    await axios.post(WEBHOOK_URL, cuerpo, { headers, timeout: 10000 });
+  } catch (error: any) {
+    console.warn(`No se pudo enviar la notificación ${notificacion.id} al webhook: ${error.message}`);
+  }
+}
+
+// Vuelve a ejecutar la comparación, guarda el resultado y notifica las alertas nuevas: las que
+// no se cumplían en la actualización anterior. Una alerta que sigue activa no se repite.
+// Un error queda registrado en la consulta; con relanzar, además se propaga a quien la actualizó.
+// Si la consulta se elimina mientras se consulta al MEF no se guarda ni se notifica nada y se
+// lanza ErrorNoEncontrado, con o sin relanzar.
+export async function ejecutarVigilancia(id: number, relanzar = false): Promise<Vigilancia> {
+  const row = selectVigilancia.get(id) as VigilanciaRow | undefined;
+  if (!row) {
+    throw new ErrorNoEncontrado(`La consulta vigilada ${id} no existe.`);
+  }
+  const eliminada = () => new ErrorNoEncontrado(`La consulta vigilada ${id} se eliminó durante la actualización.`);
+
+  const inicio = new Date();
+  const proxima = new Date(inicio.getTime() + row.frecuencia_horas * 3600 * 1000).toISOString();
+  const reglas: ReglaAlerta[] = JSON.parse(row.reglas);
+  try {
+    const resultado = await ejecutarComparacion({ ...parametrosVigilancia(JSON.parse(row.parametros)), modo: "online", forzar: true });
+    if (!selectVigilancia.get(id)) throw eliminada();
+    const ahora = new Date().toISOString();
+    insertResultado.run(id, ahora, JSON.stringify(resultado));
+    deleteResultadosAntiguos.run(id, id, MAX_RESULTADOS);
+
+    const anteriores = new Set<string>(JSON.parse(row.alertas));
+    const activas = evaluarReglas(resultado, reglas, inicio);
+    const nuevas = activas.filter(alerta => !anteriores.has(alerta.clave)).map(alerta => {
+      const regla = reglas[alerta.regla];
+      const mensaje = `${alerta.concepto}: ${formatValorRegla(alerta.valor, regla.campo, resultado.metrica)} (${describirRegla(regla, resultado.metrica)})`;
+      const { lastInsertRowid } = insertNotificacion.run(id, row.nombre, alerta.concepto, mensaje, ahora);
+      return aNotificacion(db.prepare(`SELECT * FROM notificaciones WHERE id = ?`).get(lastInsertRowid) as NotificacionRow);
+    });
+    if (nuevas.length) deleteNotificacionesAntiguas.run(MAX_NOTIFICACIONES);
+
+    updateEjecucion.run(ahora, proxima, null, JSON.stringify(activas.map(alerta => alerta.clave)), id);
+    await Promise.all(nuevas.map(enviarWebhook));
+  } catch (error: any) {
+    if (!selectVigilancia.get(id)) throw eliminada();
+    // Las alertas activas se conservan para no repetirlas cuando la consulta vuelva a responder
+    console.error(`Error al actualizar la consulta vigilada ${id}:`, error.message);
+    updateEjecucion.run(inicio.toISOString(), proxima, error.message || "Error interno del servidor", row.alertas, id);
+    if (relanzar) throw error;
+  }
+  // El envío al webhook también se espera: la consulta pudo eliminarse mientras tanto
+  const actualizada = selectVigilancia.get(id) as VigilanciaRow | undefined;
+  if (!actualizada) throw eliminada();
+  return aVigilancia(actualizada);
+}
+
+let revisando = false;
+
+// Actualiza una por una las consultas vigiladas vencidas; una revisión no empieza si la anterior sigue en curso.
+// Una consulta que falla, o que se elimina mientras se actualiza, no detiene a las siguientes.
+async function revisarVencidas() {
+  if (revisando) return;
+  revisando = true;
+  try {
+    for (const { id } of selectVencidas.all(new Date().toISOString()) as { id: number }[]) {
+      try {
+        await ejecutarVigilancia(id);
+      } catch (error: any) {
+        console.warn(`No se actualizó la consulta vigilada ${id}: ${error.message}`);
+      }
+    }
+  } finally {
+    revisando = false;
+  }
+}
+
+// El planificador corre sin nadie que espere su resultado: un error se registra y no termina el proceso
+function revisarEnSegundoPlano() {
+  revisarVencidas().catch(error => console.error("Error al revisar las consultas vigiladas:", error.message));
+}
+
+export function iniciarPlanificador() {
+  revisarEnSegundoPlano();
+  setInterval(revisarEnSegundoPlano, INTERVALO_REVISION_MS).unref();
+}
@@ -1,6 +1,5 @@
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useEffect } from 'react';
 import { 
-  Bell, 
   User, 
   Link as LinkIcon, 
   Calendar, 
@@ -12,69 +11,472 @@ import {
   Search, 
   ArrowUpDown,
   Loader2,
-  AlertCircle
+  AlertCircle,
+  WifiOff,
+  ChevronRight,
+  Link2
 } from 'lucide-react';
+import { AnalisisGuardado, ConceptoData, ApiResponse, CargaArchivosData, ConsultaComparada, LoteData, TipoConsulta, TipoErrorMef, TipoTrabajo, Trabajo } from './types';
 import { 
-  BarChart, 
-  Bar, 
-  XAxis, 
-  YAxis, 
-  CartesianGrid, 
-  Tooltip, 
-  ResponsiveContainer,
-  Cell
-} from 'recharts';
-
-interface ConceptoData {
-  concepto: string;
-  montoAnterior: number;
-  montoActual: number;
-  variacionS: number;
-  variacionPorcentaje: number;
-}
+  FORMATO_POR_DEFECTO, 
+  FormatoNumeros, 
+  UNIDADES, 
+  UnidadMonto, 
+  formatCifra, 
+  formatPorcentaje, 
+  formatVariacion, 
+  formatValor, 
+  unidadMetrica 
+} from './lib/format';
+import { METRICAS, METRICA_POR_DEFECTO, METRICAS_ACUMULABLES, COLUMNA_EJECUCION, MetricaId, getMetrica, metricaParaTipo } from './lib/metricas';
+import { metodoProyeccion } from './lib/proyeccion';
+import { camposDesdeUrl } from './lib/consulta';
+import { MESES, TipoPeriodo } from './lib/periodo';
+import SerieTemporal from './components/SerieTemporal';
+import FuentesDatos, { formatFechaCaptura } from './components/FuentesDatos';
+import RutaDesglose from './components/RutaDesglose';
+import ControlDeflactor from './components/ControlDeflactor';
+import MapeoConceptos from './components/MapeoConceptos';
+import InsigniaEmparejamiento from './components/InsigniaEmparejamiento';
+import CargaArchivos from './components/CargaArchivos';
+import BotonesExportar from './components/BotonesExportar';
+import EntradaLote from './components/EntradaLote';
+import ConstructorConsulta from './components/ConstructorConsulta';
+import RankingLote from './components/RankingLote';
+import GuardarAnalisis from './components/GuardarAnalisis';
+import HistorialAnalisis from './components/HistorialAnalisis';
+import CampanaNotificaciones from './components/CampanaNotificaciones';
+import AgregarVigilancia from './components/AgregarVigilancia';
+import ResumenNarrativo from './components/ResumenNarrativo';
+import DesgloseVariacion from './components/DesgloseVariacion';
+import IngresosGastos from './components/IngresosGastos';
+import ProyeccionCierre from './components/ProyeccionCierre';
+import InsigniaProyeccion from './components/InsigniaProyeccion';
+import { ListaLote, entidadesDesdeTexto } from './lib/lote';
+import { esFinal } from './lib/trabajos';
+import { tituloErrorMef } from './lib/errores';
+import AvanceTrabajo from './components/AvanceTrabajo';
+import TrabajosRecientes from './components/TrabajosRecientes';
 
-interface ApiResponse {
-  yearActual: number;
-  yearAnterior: number;
-  data: ConceptoData[];
-}
+// Sigue el avance de un trabajo por Server-Sent Events hasta que llega a un estado final
+const seguirTrabajo = (id: string, alActualizar: (trabajo: Trabajo) => void) => new Promise<Trabajo>((resolve, reject) => {
+  const fuente = new EventSource(`/api/trabajos/${id}/eventos`);
+  fuente.onmessage = (e) => {
+    const trabajo: Trabajo = JSON.parse(e.data);
+    alActualizar(trabajo);
+    if (esFinal(trabajo.estado)) {
+      fuente.close();
+      resolve(trabajo);
+    }
+  };
+  // EventSource reintenta solo; únicamente se abandona si cierra la conexión
+  fuente.onerror = () => {
+    if (fuente.readyState === EventSource.CLOSED) {
+      reject(new Error('Se perdió la conexión con el servidor mientras se seguía el trabajo.'));
+    }
+  };
+});
 
 export default function App() {
   const [url, setUrl] = useState('');
+  const [yearInicio, setYearInicio] = useState('');
+  const [metrica, setMetrica] = useState<MetricaId>(METRICA_POR_DEFECTO);
+  const [offline, setOffline] = useState(false);
+  const [hasta, setHasta] = useState('');
+  const [periodo, setPeriodo] = useState<TipoPeriodo>('anual');
+  const [mesCorte, setMesCorte] = useState('');
+  const [deflactor, setDeflactor] = useState('');
+  const [yearBase, setYearBase] = useState('');
+  const [vista, setVista] = useState<'nominal' | 'real'>('nominal');
+  const [formato, setFormato] = useState<FormatoNumeros>(FORMATO_POR_DEFECTO);
   const [loading, setLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const [fallo, setFallo] = useState<{ mensaje: string; tipo?: TipoErrorMef | null; estado?: number } | null>(null);
   const [apiData, setApiData] = useState<ApiResponse | null>(null);
+  const [ruta, setRuta] = useState<{ etiqueta: string; url: string }[]>([]);
+  const [nivel, setNivel] = useState('');
   const [searchTerm, setSearchTerm] = useState('');
+  const [mostrarMapeos, setMostrarMapeos] = useState(false);
+  const [comparacion, setComparacion] = useState<'years' | 'consultas'>('years');
+  const [pantalla, setPantalla] = useState<'individual' | 'lote'>('individual');
+  const [listaLote, setListaLote] = useState<ListaLote>({ modo: 'urls', plantilla: '', texto: '' });
+  const [lote, setLote] = useState<LoteData | null>(null);
+  const [trabajo, setTrabajo] = useState<Trabajo | null>(null);
+  const [trabajos, setTrabajos] = useState<Trabajo[]>([]);
+  // Parámetros con que se obtuvieron los datos en pantalla, para guardarlos como análisis
+  const [parametrosMostrados, setParametrosMostrados] = useState<Record<string, unknown> | null>(null);
+  const [analisisAbierto, setAnalisisAbierto] = useState<AnalisisGuardado | null>(null);
+  const [consultas, setConsultas] = useState<ConsultaComparada[]>([
+    { etiqueta: '', url: '' },
+    { etiqueta: '', url: '' }
+  ]);
   const [sortConfig, setSortConfig] = useState<{ key: keyof ConceptoData; direction: 'asc' | 'desc' } | null>({
     key: 'variacionS',
     direction: 'desc'
   });
 
-  const handleEjecutar = async () => {
-    if (!url) return;
-    
+  // Los errores del MEF traen su causa (tiempo agotado, estado HTTP, red, página ilegible)
+  const setError = (mensaje: string | null, detalle?: { tipo?: TipoErrorMef | null; estado?: number }) => {
+    setFallo(mensaje ? { mensaje, ...detalle } : null);
+  };
+  const error = fallo?.mensaje;
+
+  // Una URL comparada contra sus años anteriores, o dos consultas explícitas con etiqueta
+  type Destino = { url: string; yearInicio?: string } | { consultas: ConsultaComparada[] };
+
+  const actualizarTrabajos = async () => {
+    try {
+      const response = await fetch('/api/trabajos');
+      const data = await response.json();
+      if (response.ok) setTrabajos(data.trabajos);
+    } catch {
+      // El listado es informativo; un fallo no interrumpe la consulta
+    }
+  };
+
+  useEffect(() => {
+    actualizarTrabajos();
+  }, []);
+
+  // Los lotes muestran sus resultados parciales a medida que avanzan
+  const alActualizarTrabajo = (actual: Trabajo) => {
+    setTrabajo(actual);
+    if (actual.tipo === 'lote' && actual.resultado) setLote(actual.resultado as LoteData);
+  };
+
+  // Crea el trabajo en el servidor y sigue su avance hasta que termina
+  const ejecutarTrabajo = async (tipo: TipoTrabajo, parametros: Record<string, unknown>) => {
+    const response = await fetch('/api/trabajos', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({ tipo, parametros })
+    });
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.error || 'Error al procesar la solicitud');
+    }
+
+    setTrabajo(data);
+    try {
+      return await seguirTrabajo(data.id, alActualizarTrabajo);
+    } finally {
+      actualizarTrabajos();
+    }
+  };
+
+  // Muestra lo que dejó un trabajo terminado; devuelve true si hay una comparación completa
+  const mostrarTrabajo = (final: Trabajo) => {
+    if (final.estado === 'error') {
+      setError(final.error, { tipo: final.tipoError });
+      return false;
+    }
+    if (final.tipo === 'lote') {
+      if (final.resultado) setLote(final.resultado as LoteData);
+      return final.estado === 'completado';
+    }
+    if (final.estado !== 'completado') return false;
+
+    const data = final.resultado as ApiResponse;
+    setApiData(data);
+    if (!data.real) setVista('nominal');
+    setParametrosMostrados(final.parametros);
+    setAnalisisAbierto(null);
+    mostrarEnlace(null);
+    return true;
+  };
+
+  // Ejecuta la comparación; devuelve true si se obtuvieron datos
+  const consultar = async (destino: Destino, forzar = false) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const final = await ejecutarTrabajo('comparar', {
+        ...('consultas' in destino
+          ? { consultas: destino.consultas }
+          : { url: destino.url, yearInicio: destino.yearInicio || undefined }),
+        metrica,
+        periodo,
+        mesCorte: periodo === 'acumulado' && mesCorte ? Number(mesCorte) : undefined,
+        deflactor: deflactor || undefined,
+        yearBase: deflactor && yearBase ? Number(yearBase) : undefined,
+        modo: offline ? 'offline' : 'online',
+        hasta: hasta || undefined,
+        forzar
+      });
+      return mostrarTrabajo(final);
+    } catch (err: any) {
+      setError(err.message);
+      return false;
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCancelar = async () => {
+    if (!trabajo) return;
+    try {
+      const response = await fetch(`/api/trabajos/${trabajo.id}/cancelar`, { method: 'POST' });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Error al cancelar el trabajo');
+      }
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  // Devuelve el formulario a los parámetros con que se ejecutó una comparación o un lote
+  const restaurarParametros = (parametros: any) => {
+    if (parametros.metrica) setMetrica(parametros.metrica);
+    setPeriodo(parametros.periodo || 'anual');
+    setMesCorte(parametros.mesCorte ? String(parametros.mesCorte) : '');
+    setOffline(parametros.modo === 'offline');
+    setHasta(parametros.hasta || '');
+    if (parametros.consultas) {
+      setComparacion('consultas');
+      setConsultas(parametros.consultas);
+    } else if (parametros.url) {
+      setComparacion('years');
+      setUrl(parametros.url);
+      setYearInicio(parametros.yearInicio ? String(parametros.yearInicio) : '');
+    }
+    if (!parametros.entidades) {
+      setDeflactor(parametros.deflactor || '');
+      setYearBase(parametros.yearBase ? String(parametros.yearBase) : '');
+    }
+  };
+
+  // El enlace permanente del análisis abierto queda en la barra de direcciones
+  const mostrarEnlace = (id: string | null) => {
+    const destino = id ? `?analisis=${id}` : window.location.pathname;
+    if (window.location.search !== (id ? destino : '')) {
+      window.history.replaceState(null, '', destino);
+    }
+  };
+
+  // Reabre un análisis guardado con sus datos capturados, sin volver a consultar al MEF
+  const handleAbrirAnalisis = async (id: string) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/analisis/${encodeURIComponent(id)}`);
+      const data: AnalisisGuardado | { error: string } = await response.json();
+      if (!response.ok || 'error' in data) {
+        throw new Error(('error' in data && data.error) || 'Error al abrir el análisis');
+      }
+
+      restaurarParametros(data.parametros);
+      setPantalla('individual');
+      setTrabajo(null);
+      setApiData(data.datos);
+      setParametrosMostrados(data.parametros);
+      setSearchTerm(data.vista.filtro);
+      setSortConfig(data.vista.orden);
+      setFormato(data.vista.formato);
+      setVista(data.vista.montos === 'real' && data.datos.real ? 'real' : 'nominal');
+      setRuta(data.vista.ruta);
+      setNivel('');
+      setAnalisisAbierto(data);
+      mostrarEnlace(data.id);
+    } catch (err: any) {
+      setError(err.message);
+      mostrarEnlace(null);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    const id = new URLSearchParams(window.location.search).get('analisis');
+    if (id) handleAbrirAnalisis(id);
+  }, []);
+
+  // Abre un trabajo del listado: restaura su consulta y muestra su resultado, o sigue su avance
+  const handleAbrirTrabajo = async (id: string) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/trabajos/${id}`);
+      const data: Trabajo | { error: string } = await response.json();
+      // Un trabajo también tiene 'error' (el de su ejecución): la respuesta de error es la que no trae estado
+      if (!response.ok || !('estado' in data)) {
+        throw new Error(data.error || 'Error al abrir el trabajo');
+      }
+      let actual = data;
+
+      const { parametros } = actual;
+      restaurarParametros(parametros);
+      if (actual.tipo === 'lote') {
+        setPantalla('lote');
+        setLote(null);
+      } else {
+        setPantalla('individual');
+      }
+
+      alActualizarTrabajo(actual);
+      if (!esFinal(actual.estado)) {
+        actual = await seguirTrabajo(actual.id, alActualizarTrabajo);
+        actualizarTrabajos();
+      }
+      if (mostrarTrabajo(actual) && actual.tipo === 'comparar') {
+        setRuta(parametros.consultas ? [] : [{ etiqueta: 'Consulta inicial', url: parametros.url }]);
+      }
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const destinoActual = (): Destino => comparacion === 'consultas' ? { consultas } : { url, yearInicio };
+
+  const handleEjecutar = async (forzar = false) => {
+    if (comparacion === 'consultas' ? consultas.some(c => !c.url) : !url) return;
+
+    const ok = await consultar(destinoActual(), forzar);
+    // Una consulta nueva reinicia la ruta de desglose; la actualización forzada la conserva.
+    // Dos consultas explícitas no se desglosan.
+    if (ok && !forzar) {
+      setRuta(comparacion === 'consultas' ? [] : [{ etiqueta: 'Consulta inicial', url }]);
+    }
+  };
+
+  const entidadesLote = entidadesDesdeTexto(listaLote);
+
+  // Las métricas que se ofrecen dependen de si el enlace es de gasto o de ingreso; el servidor lo
+  // confirma con las columnas de la página y lee el devengado como recaudado si hace falta
+  const enlaceTipo = pantalla === 'lote'
+    ? (listaLote.modo === 'codigos' ? listaLote.plantilla : entidadesLote[0]?.url ?? '')
+    : comparacion === 'consultas' ? consultas[0].url : url;
+  const tipoConsulta: TipoConsulta = camposDesdeUrl(enlaceTipo).tipo ?? 'gasto';
+
+  useEffect(() => {
+    setMetrica(actual => metricaParaTipo(actual, tipoConsulta) ?? metricaParaTipo(METRICA_POR_DEFECTO, tipoConsulta)!);
+  }, [tipoConsulta]);
+
+  const handleLote = async () => {
+    if (!entidadesLote.length) return;
+
     setLoading(true);
     setError(null);
+    setLote(null);
     try {
-      const response = await fetch('/api/comparar', {
+      const final = await ejecutarTrabajo('lote', {
+        entidades: entidadesLote,
+        plantilla: listaLote.modo === 'codigos' ? listaLote.plantilla : undefined,
+        metrica,
+        periodo,
+        mesCorte: periodo === 'acumulado' && mesCorte ? Number(mesCorte) : undefined,
+        modo: offline ? 'offline' : 'online',
+        hasta: hasta || undefined
+      });
+      mostrarTrabajo(final);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Desde el ranking se abre la comparación completa de una entidad
+  const handleAbrirEntidad = async (destino: string) => {
+    setPantalla('individual');
+    setComparacion('years');
+    setUrl(destino);
+    setYearInicio('');
+    if (await consultar({ url: destino })) {
+      setRuta([{ etiqueta: 'Consulta inicial', url: destino }]);
+    }
+  };
+
+  const actualizarConsulta = (idx: number, cambios: Partial<ConsultaComparada>) => {
+    setConsultas(prev => prev.map((consulta, i) => i === idx ? { ...consulta, ...cambios } : consulta));
+  };
+
+  // Los archivos cargados se consultan como cualquier URL. La serie abarca los años consecutivos que
+  // terminan en el último cargado; si el anterior cargado no es consecutivo se comparan esos dos años.
+  const handleArchivos = async (carga: CargaArchivosData) => {
+    const { years } = carga;
+    setUrl(carga.url);
+    if (years.length < 2) {
+      setError(`Se cargó la página de ${years[0]}. Agregue la página de otro año para comparar.`);
+      return;
+    }
+
+    let inicio = years.length - 1;
+    while (inicio > 0 && years[inicio - 1] === years[inicio] - 1) inicio--;
+    if (inicio < years.length - 1) {
+      const desde = String(years[inicio]);
+      setYearInicio(desde);
+      setComparacion('years');
+      if (await consultar({ url: carga.url, yearInicio: desde })) {
+        setRuta([{ etiqueta: 'Archivos cargados', url: carga.url }]);
+      }
+      return;
+    }
+
+    const pares = years.slice(-2).map(year => ({ etiqueta: String(year), url: carga.url.replace(/y=\d{4}/, `y=${year}`) }));
+    setConsultas(pares);
+    setComparacion('consultas');
+    if (await consultar({ consultas: pares })) {
+      setRuta([]);
+    }
+  };
+
+  const handleDesglose = async (concepto: string) => {
+    if (!url || loading) return;
+
+    setLoading(true);
+    setError(null);
+    let urlHijo: string;
+    try {
+      const response = await fetch('/api/desglose', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json'
         },
-        body: JSON.stringify({ url })
+        body: JSON.stringify({
+          url,
+          concepto,
+          nivel: nivel || undefined,
+          modo: offline ? 'offline' : 'online',
+          hasta: hasta || undefined
+        })
       });
-      
+
       const data = await response.json();
-      
+
       if (!response.ok) {
-        throw new Error(data.error || 'Error al procesar la solicitud');
+        setError(data.error || 'Error al desglosar el concepto', { tipo: data.tipo, estado: data.estado });
+        setLoading(false);
+        return;
       }
-      
-      setApiData(data);
+      urlHijo = data.url;
     } catch (err: any) {
       setError(err.message);
-    } finally {
       setLoading(false);
+      return;
+    }
+
+    if (await consultar({ url: urlHijo, yearInicio })) {
+      setRuta(prev => [...prev, { etiqueta: concepto, url: urlHijo }]);
+      setUrl(urlHijo);
+      setSearchTerm('');
+      setNivel('');
+    }
+  };
+
+  const handleRuta = async (idx: number) => {
+    const destino = ruta[idx];
+    if (!destino || idx === ruta.length - 1) return;
+
+    if (await consultar({ url: destino.url, yearInicio })) {
+      setRuta(prev => prev.slice(0, idx + 1));
+      setUrl(destino.url);
+      setSearchTerm('');
+      setNivel('');
     }
   };
 
@@ -86,10 +488,19 @@ export default function App() {
     setSortConfig({ key, direction });
   };
 
+  // La vista real reemplaza montos, totales y serie por los deflactados al año base
+  const vistaData = useMemo(() => {
+    if (!apiData) return null;
+    if (vista === 'real' && apiData.real) {
+      return { ...apiData, data: apiData.real.data, totales: apiData.real.totales, serie: apiData.real.serie };
+    }
+    return apiData;
+  }, [apiData, vista]);
+
   const filteredAndSortedData = useMemo(() => {
-    if (!apiData) return [];
+    if (!vistaData) return [];
     
-    let result = [...apiData.data];
+    let result = [...vistaData.data];
     
     if (searchTerm) {
       const lowerSearch = searchTerm.toLowerCase();
@@ -97,11 +508,15 @@ export default function App() {
     }
     
     if (sortConfig) {
+      // Los conceptos nuevos no tienen variación % y se ordenan como el mayor crecimiento
+      const valor = (item: ConceptoData) => sortConfig.key === 'variacionPorcentaje' && item.variacionPorcentaje === null
+        ? (item.nuevo ? Infinity : -Infinity)
+        : item[sortConfig.key];
       result.sort((a, b) => {
-        if (a[sortConfig.key] < b[sortConfig.key]) {
+        if (valor(a) < valor(b)) {
           return sortConfig.direction === 'asc' ? -1 : 1;
         }
-        if (a[sortConfig.key] > b[sortConfig.key]) {
+        if (valor(a) > valor(b)) {
           return sortConfig.direction === 'asc' ? 1 : -1;
         }
         return 0;
@@ -109,26 +524,58 @@ export default function App() {
     }
     
     return result;
-  }, [apiData, searchTerm, sortConfig]);
+  }, [vistaData, searchTerm, sortConfig]);
 
-  const totalAnterior = apiData?.data.reduce((sum, item) => sum + item.montoAnterior, 0) || 0;
-  const totalActual = apiData?.data.reduce((sum, item) => sum + item.montoActual, 0) || 0;
-  const totalVariacionS = totalActual - totalAnterior;
-  const totalVariacionPorcentaje = totalAnterior !== 0 ? Number((((totalActual / totalAnterior) * 100) - 100).toFixed(1)) : 0;
+  const totalAnterior = vistaData?.totales.montoAnterior || 0;
+  const totalActual = vistaData?.totales.montoActual || 0;
+  const totalVariacionS = vistaData?.totales.variacionS || 0;
+  const totalVariacionPorcentaje = vistaData ? vistaData.totales.variacionPorcentaje : 0;
+  const totalNuevo = vistaData?.totales.nuevo || false;
+  const tipoMetrica = apiData?.metrica.tipo || 'monto';
+  // Con dos consultas explícitas las columnas llevan las etiquetas del usuario en lugar del año
+  const columnaAnterior = apiData ? apiData.etiquetas?.anterior ?? `${apiData.metrica.abreviatura}_${apiData.yearAnterior}` : '';
+  const columnaActual = apiData ? apiData.etiquetas?.actual ?? `${apiData.metrica.abreviatura}_${apiData.yearActual}` : '';
+  const unidad = unidadMetrica(tipoMetrica, formato);
+  const proyeccion = apiData?.proyeccion ?? null;
+  const ejecucion = getMetrica(COLUMNA_EJECUCION[apiData?.tipo ?? 'gasto'])!.etiqueta;
+  // El corte del periodo acumulado se muestra junto a cada cifra para no confundirlo con el año completo
+  const corte = (apiData?.periodo.tipo === 'acumulado' ? ` · ${apiData.periodo.etiqueta}` : '')
+    + (vista === 'real' && apiData?.real ? ` · Precios de ${apiData.real.yearBase}` : '')
+    + (vista === 'real' && apiData?.real?.estimados?.length ? ` (índice estimado para ${apiData.real.estimados.join(', ')})` : '');
 
-  const formatNumber = (num: number) => {
-    return new Intl.NumberFormat('es-PE').format(num).replace(/,/g, ' ');
-  };
-
-  const formatVariacion = (num: number) => {
-    const formatted = formatNumber(Math.abs(num));
-    return num > 0 ? `+${formatted}` : num < 0 ? `-${formatted}` : '0';
-  };
+  const controlesFormato = (
+    <>
+      <label className="flex items-center gap-2 text-slate-500 font-medium">
+        Unidades
+        <select 
+          className="px-3 py-1.5 bg-white dark:bg-slate-900 border border-primary/10 rounded-lg outline-none"
+          value={formato.unidad}
+          onChange={(e) => setFormato({ ...formato, unidad: e.target.value as UnidadMonto })}
+        >
+          {UNIDADES.map(u => (
+            <option key={u.id} value={u.id}>{u.etiqueta}</option>
+          ))}
+        </select>
+      </label>
+      <label className="flex items-center gap-2 text-slate-500 font-medium">
+        Decimales
+        <select 
+          className="px-3 py-1.5 bg-white dark:bg-slate-900 border border-primary/10 rounded-lg outline-none"
+          value={formato.decimales}
+          onChange={(e) => setFormato({ ...formato, decimales: Number(e.target.value) })}
+        >
+          {[0, 1, 2, 3].map(d => (
+            <option key={d} value={d}>{d}</option>
+          ))}
+        </select>
+      </label>
+    </>
+  );
 
   return (
     <div className="bg-background-light dark:bg-background-dark font-display text-slate-900 dark:text-slate-100 min-h-screen">
       {/* Top Navigation Bar */}
-      <header className="bg-white dark:bg-slate-900 border-b border-primary/10 sticky top-0 z-50">
+      <header className="bg-white dark:bg-slate-900 border-b border-primary/10 sticky top-0 z-50 print:hidden">
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
           <div className="flex justify-between h-16 items-center">
             <div className="flex items-center gap-3">
@@ -138,9 +585,19 @@ export default function App() {
               <h1 className="text-xl font-bold tracking-tight text-primary dark:text-white">MEF Data Analyzer</h1>
             </div>
             <div className="flex items-center gap-4">
-              <button className="p-2 text-slate-500 hover:bg-primary/5 rounded-full transition-colors">
-                <Bell className="w-5 h-5" />
-              </button>
+              <HistorialAnalisis 
+                deshabilitado={loading} 
+                onAbrirAnalisis={handleAbrirAnalisis} 
+                onAbrirTrabajo={handleAbrirTrabajo} 
+                onError={setError} 
+              />
+              <TrabajosRecientes 
+                trabajos={trabajos} 
+                deshabilitado={loading} 
+                onAbrir={handleAbrirTrabajo} 
+                onActualizar={actualizarTrabajos} 
+              />
+              <CampanaNotificaciones onError={setError} />
               <div className="h-8 w-8 rounded-full bg-primary/20 flex items-center justify-center text-primary font-bold border border-primary/20">
                 <User className="w-5 h-5" />
               </div>
@@ -154,40 +611,205 @@ export default function App() {
         <div className="mb-8">
           <h2 className="text-3xl font-black text-slate-900 dark:text-white">Comparación presupuestal interanual</h2>
           <p className="text-slate-500 dark:text-slate-400 mt-1">Comparación usando información de Consulta Amigable del MEF</p>
+          <div className="inline-flex rounded-lg border border-primary/10 bg-white dark:bg-slate-900 p-1 text-sm font-bold mt-4 print:hidden">
+            {([['individual', 'Consulta individual'], ['lote', 'Lote de entidades']] as const).map(([opcion, etiqueta]) => (
+              <button 
+                key={opcion}
+                onClick={() => setPantalla(opcion)}
+                className={`px-4 py-1.5 rounded-md transition-colors ${pantalla === opcion ? 'bg-primary text-white' : 'text-slate-500 hover:text-primary'}`}
+              >
+                {etiqueta}
+              </button>
+            ))}
+          </div>
+          {apiData && pantalla === 'individual' && (
+            <p className="hidden print:block text-sm text-slate-500 mt-2">
+              {apiData.metrica.etiqueta} {apiData.etiquetas ? `${apiData.etiquetas.anterior} vs. ${apiData.etiquetas.actual}` : `${apiData.yearAnterior}–${apiData.yearActual}`} ({unidad}{corte})
+              {searchTerm && ` · Filtro: "${searchTerm}" (${filteredAndSortedData.length} conceptos)`}
+              {` · Generado el ${new Date().toLocaleString('es-PE', { dateStyle: 'short', timeStyle: 'short' })}`}
+            </p>
+          )}
         </div>
 
         {/* Search / Input Section */}
-        <section className="bg-white dark:bg-slate-900 rounded-xl shadow-sm border border-primary/5 p-6 mb-8">
+        <section className="bg-white dark:bg-slate-900 rounded-xl shadow-sm border border-primary/5 p-6 mb-8 print:hidden">
           <div className="grid grid-cols-1 lg:grid-cols-12 gap-6 items-end">
             <div className="lg:col-span-12">
-              <label className="block text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">
-                URL de Consulta (MEF Transparencia Económica)
-              </label>
-              <div className="flex flex-col sm:flex-row gap-3">
-                <div className="relative flex-grow">
-                  <LinkIcon className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400 w-5 h-5" />
-                  <input 
-                    type="text" 
-                    className="w-full pl-10 pr-4 py-3 bg-background-light dark:bg-slate-800 border-none rounded-lg focus:ring-2 focus:ring-primary/20 placeholder:text-slate-400 outline-none" 
-                    placeholder="Pegue aquí el enlace del portal de transparencia..." 
-                    value={url}
-                    onChange={(e) => setUrl(e.target.value)}
-                    onKeyDown={(e) => e.key === 'Enter' && handleEjecutar()}
-                  />
+              <div className="flex flex-wrap justify-between items-center gap-2 mb-2">
+                <label className="block text-sm font-semibold text-slate-700 dark:text-slate-300">
+                  {pantalla === 'lote'
+                    ? 'Entidades a comparar (una por línea)'
+                    : comparacion === 'years' ? 'URL de Consulta (MEF Transparencia Económica)' : 'Consultas a comparar (etiqueta y URL)'}
+                </label>
+                <div className={`inline-flex rounded-lg border border-primary/10 p-0.5 text-xs font-bold${pantalla === 'lote' ? ' hidden' : ''}`}>
+                  {([['years', 'Mismo enlace por años'], ['consultas', 'Dos consultas']] as const).map(([opcion, etiqueta]) => (
+                    <button 
+                      key={opcion}
+                      onClick={() => setComparacion(opcion)}
+                      className={`px-3 py-1 rounded-md transition-colors ${comparacion === opcion ? 'bg-primary text-white' : 'text-slate-500 hover:text-primary'}`}
+                    >
+                      {etiqueta}
+                    </button>
+                  ))}
                 </div>
+              </div>
+              <div className="flex flex-col sm:flex-row gap-3">
+                {pantalla === 'lote' ? (
+                  <EntradaLote entrada={listaLote} onChange={setListaLote} />
+                ) : comparacion === 'consultas' ? (
+                  <div className="flex-grow flex flex-col gap-3">
+                    {consultas.map((consulta, idx) => (
+                      <div key={idx} className="flex flex-col sm:flex-row gap-3">
+                        <input 
+                          type="text" 
+                          className="sm:w-48 px-4 py-3 bg-background-light dark:bg-slate-800 border-none rounded-lg focus:ring-2 focus:ring-primary/20 placeholder:text-slate-400 outline-none" 
+                          placeholder={idx === 0 ? 'Etiqueta A' : 'Etiqueta B'} 
+                          title="Nombre con el que se rotula esta consulta en tarjetas, tabla y exportaciones"
+                          value={consulta.etiqueta}
+                          onChange={(e) => actualizarConsulta(idx, { etiqueta: e.target.value })}
+                        />
+                        <div className="relative flex-grow">
+                          <LinkIcon className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400 w-5 h-5" />
+                          <input 
+                            type="text" 
+                            className="w-full pl-10 pr-4 py-3 bg-background-light dark:bg-slate-800 border-none rounded-lg focus:ring-2 focus:ring-primary/20 placeholder:text-slate-400 outline-none" 
+                            placeholder={idx === 0 ? 'Enlace de la consulta base (A)' : 'Enlace de la consulta a comparar (B)'} 
+                            value={consulta.url}
+                            onChange={(e) => actualizarConsulta(idx, { url: e.target.value })}
+                            onKeyDown={(e) => e.key === 'Enter' && handleEjecutar()}
+                          />
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                ) : (
+                  <>
+                    <div className="relative flex-grow">
+                      <LinkIcon className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400 w-5 h-5" />
+                      <input 
+                        type="text" 
+                        className="w-full pl-10 pr-4 py-3 bg-background-light dark:bg-slate-800 border-none rounded-lg focus:ring-2 focus:ring-primary/20 placeholder:text-slate-400 outline-none" 
+                        placeholder="Pegue aquí el enlace del portal de transparencia..." 
+                        value={url}
+                        onChange={(e) => setUrl(e.target.value)}
+                        onKeyDown={(e) => e.key === 'Enter' && handleEjecutar()}
+                      />
+                    </div>
+                    <div className="relative sm:w-40">
+                      <Calendar className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400 w-5 h-5" />
+                      <input 
+                        type="number" 
+                        className="w-full pl-10 pr-4 py-3 bg-background-light dark:bg-slate-800 border-none rounded-lg focus:ring-2 focus:ring-primary/20 placeholder:text-slate-400 outline-none" 
+                        placeholder="Desde (año)" 
+                        title="Año inicial de la serie. Vacío compara solo con el año anterior."
+                        value={yearInicio}
+                        onChange={(e) => setYearInicio(e.target.value)}
+                        onKeyDown={(e) => e.key === 'Enter' && handleEjecutar()}
+                      />
+                    </div>
+                  </>
+                )}
+                <select 
+                  className="sm:w-56 px-4 py-3 bg-background-light dark:bg-slate-800 border-none rounded-lg focus:ring-2 focus:ring-primary/20 outline-none text-sm font-medium"
+                  title="Métrica a comparar"
+                  value={metrica}
+                  onChange={(e) => setMetrica(e.target.value as MetricaId)}
+                >
+                  {METRICAS.filter(m => m.tipos.includes(tipoConsulta) && (periodo === 'anual' || METRICAS_ACUMULABLES.includes(m.id))).map(m => (
+                    <option key={m.id} value={m.id}>{m.etiqueta}</option>
+                  ))}
+                </select>
                 <button 
-                  onClick={handleEjecutar}
-                  disabled={loading || !url}
+                  onClick={() => pantalla === 'lote' ? handleLote() : handleEjecutar()}
+                  disabled={loading || (pantalla === 'lote' ? !entidadesLote.length : comparacion === 'consultas' ? consultas.some(c => !c.url) : !url)}
                   className="px-8 py-3 bg-primary hover:bg-primary/90 disabled:bg-primary/50 text-white font-bold rounded-lg transition-all shadow-sm flex items-center justify-center gap-2 min-w-[140px]"
                 >
                   {loading ? <Loader2 className="w-5 h-5 animate-spin" /> : 'Ejecutar'}
                 </button>
               </div>
+              {pantalla === 'individual' && comparacion === 'years' && (
+                <ConstructorConsulta 
+                  url={url} 
+                  onUsar={(destino) => { setUrl(destino); setError(null); }} 
+                  onError={setError} 
+                />
+              )}
+              <div className="flex flex-wrap items-center gap-6 mt-4 text-sm text-slate-600 dark:text-slate-400">
+                <label className="flex items-center gap-2 cursor-pointer">
+                  <input 
+                    type="checkbox" 
+                    className="rounded accent-primary"
+                    checked={offline}
+                    onChange={(e) => setOffline(e.target.checked)}
+                  />
+                  <WifiOff className="w-4 h-4" />
+                  Modo sin conexión (solo capturas guardadas)
+                </label>
+                <label className="flex items-center gap-2">
+                  Periodo
+                  <select 
+                    className="px-3 py-1.5 bg-background-light dark:bg-slate-800 border-none rounded-lg focus:ring-2 focus:ring-primary/20 outline-none"
+                    value={periodo}
+                    onChange={(e) => {
+                      const tipo = e.target.value as TipoPeriodo;
+                      setPeriodo(tipo);
+                      if (tipo === 'acumulado' && !METRICAS_ACUMULABLES.includes(metrica)) {
+                        setMetrica(COLUMNA_EJECUCION[tipoConsulta]);
+                      }
+                    }}
+                  >
+                    <option value="anual">Año completo</option>
+                    <option value="acumulado">Mismo periodo (enero a mes de corte)</option>
+                  </select>
+                  {periodo === 'acumulado' && (
+                    <select 
+                      className="px-3 py-1.5 bg-background-light dark:bg-slate-800 border-none rounded-lg focus:ring-2 focus:ring-primary/20 outline-none"
+                      title="Último mes incluido en ambos años"
+                      value={mesCorte}
+                      onChange={(e) => setMesCorte(e.target.value)}
+                    >
+                      <option value="">Último mes cerrado</option>
+                      {MESES.map((mes, i) => (
+                        <option key={mes} value={i + 1}>Hasta {mes.toLowerCase()}</option>
+                      ))}
+                    </select>
+                  )}
+                </label>
+                {pantalla === 'individual' && (
+                  <>
+                    <CargaArchivos 
+                      grupo={url.match(/^archivo:\/\/([\w-]+)\//)?.[1]} 
+                      onCargado={handleArchivos} 
+                      onError={setError} 
+                    />
+                    <ControlDeflactor 
+                      deflactor={deflactor} 
+                      yearBase={yearBase} 
+                      onDeflactorChange={setDeflactor} 
+                      onYearBaseChange={setYearBase} 
+                      onError={setError} 
+                    />
+                  </>
+                )}
+                <label className="flex items-center gap-2">
+                  Datos al
+                  <input 
+                    type="date" 
+                    className="px-3 py-1.5 bg-background-light dark:bg-slate-800 border-none rounded-lg focus:ring-2 focus:ring-primary/20 outline-none"
+                    title="Reproduce la última captura guardada hasta esa fecha"
+                    value={hasta}
+                    onChange={(e) => setHasta(e.target.value)}
+                  />
+                </label>
+              </div>
+              {trabajo && trabajo.estado !== 'completado' && (trabajo.tipo === 'lote') === (pantalla === 'lote') && (
+                <AvanceTrabajo trabajo={trabajo} onCancelar={handleCancelar} />
+              )}
               {error && (
                 <div className="mt-4 p-4 bg-rose-50 dark:bg-rose-900/20 border border-rose-200 dark:border-rose-800 rounded-lg flex items-start gap-3">
                   <AlertCircle className="w-5 h-5 text-rose-600 mt-0.5 flex-shrink-0" />
                   <div>
-                    <h4 className="text-sm font-bold text-rose-800 dark:text-rose-300">Error al procesar la consulta</h4>
+                    <h4 className="text-sm font-bold text-rose-800 dark:text-rose-300">{tituloErrorMef(fallo.tipo, fallo.estado)}</h4>
                     <p className="text-sm text-rose-600 dark:text-rose-400 mt-1">{error}</p>
                   </div>
                 </div>
@@ -196,24 +818,123 @@ export default function App() {
           </div>
         </section>
 
-        {apiData && (
+        {pantalla === 'lote' && lote && (
           <>
+            <div className="flex flex-wrap justify-end items-center gap-4 mb-4 text-sm print:hidden">
+              {controlesFormato}
+            </div>
+            <RankingLote lote={lote} formato={formato} onAbrir={handleAbrirEntidad} />
+          </>
+        )}
+
+        {pantalla === 'individual' && apiData && (
+          <>
+            <FuentesDatos 
+              fuentes={apiData.fuentes} 
+              loading={loading} 
+              offline={offline || Boolean(hasta)} 
+              onActualizar={() => handleEjecutar(true)} 
+            />
+
+            {ruta.length > 1 && (
+              <RutaDesglose ruta={ruta} loading={loading} onNavegar={handleRuta} />
+            )}
+
+            {analisisAbierto && (
+              <div className="mb-4 p-4 bg-white dark:bg-slate-900 border border-primary/10 rounded-xl text-sm">
+                <p className="font-bold text-slate-900 dark:text-white">{analisisAbierto.nombre}</p>
+                {analisisAbierto.notas && (
+                  <p className="text-slate-600 dark:text-slate-400 mt-1 whitespace-pre-line">{analisisAbierto.notas}</p>
+                )}
+                <p className="text-xs text-slate-400 mt-2">
+                  Análisis guardado el {formatFechaCaptura(analisisAbierto.creadoEn)}. Se muestran los datos tal como se capturaron; ejecute la consulta para actualizarlos.
+                </p>
+              </div>
+            )}
+
+            <div className="flex flex-wrap justify-end items-center gap-4 mb-4 text-sm print:hidden">
+              <ResumenNarrativo 
+                comparacion={{
+                  metrica: apiData.metrica,
+                  yearAnterior: apiData.yearAnterior,
+                  yearActual: apiData.yearActual,
+                  etiquetas: apiData.etiquetas,
+                  periodo: apiData.periodo,
+                  yearBase: vista === 'real' && apiData.real ? apiData.real.yearBase : null,
+                  data: vistaData!.data,
+                  totales: vistaData!.totales
+                }} 
+                onError={setError} 
+              />
+              {parametrosMostrados && (
+                <GuardarAnalisis 
+                  analisis={{
+                    parametros: parametrosMostrados,
+                    vista: { filtro: searchTerm, orden: sortConfig, formato, montos: vista, ruta },
+                    datos: apiData
+                  }} 
+                  onGuardado={(guardado) => { setAnalisisAbierto(guardado); mostrarEnlace(guardado.id); }} 
+                  onError={setError} 
+                />
+              )}
+              {parametrosMostrados && (
+                <AgregarVigilancia 
+                  parametros={parametrosMostrados} 
+                  metrica={apiData.metrica} 
+                  nombreSugerido={analisisAbierto?.nombre ?? `${apiData.metrica.etiqueta} ${apiData.yearAnterior}–${apiData.yearActual}`} 
+                  onError={setError} 
+                />
+              )}
+              <BotonesExportar 
+                reporte={{
+                  metrica: apiData.metrica,
+                  yearAnterior: apiData.yearAnterior,
+                  yearActual: apiData.yearActual,
+                  etiquetas: apiData.etiquetas,
+                  corte,
+                  formato,
+                  filtro: searchTerm || undefined,
+                  filas: filteredAndSortedData,
+                  totales: vistaData!.totales,
+                  fuentes: apiData.fuentes
+                }} 
+                onError={setError} 
+              />
+              {controlesFormato}
+              {apiData.real && (
+                <div className="inline-flex rounded-lg border border-primary/10 bg-white dark:bg-slate-900 p-1 text-sm font-bold">
+                  {(['nominal', 'real'] as const).map(opcion => (
+                    <button 
+                      key={opcion}
+                      onClick={() => setVista(opcion)}
+                      title={opcion === 'real' && apiData.real!.estimados?.length
+                        ? `La serie ${apiData.real!.deflactor} no tiene índice para ${apiData.real!.estimados.join(', ')}; se usa el último publicado, como si los precios no hubieran variado. Cargue la serie actualizada para corregirlo.`
+                        : undefined}
+                      className={`px-4 py-1.5 rounded-md transition-colors ${vista === opcion ? 'bg-primary text-white' : 'text-slate-500 hover:text-primary'}`}
+                    >
+                      {opcion === 'nominal' ? 'Nominal' : `Real (precios de ${apiData.real!.yearBase})`}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+
             {/* Summary Cards */}
-            <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
+            <div className="grid grid-cols-1 md:grid-cols-3 print:grid-cols-3 gap-6 mb-8">
               <div className="bg-white dark:bg-slate-900 p-6 rounded-xl border border-primary/5 shadow-sm">
                 <div className="flex items-center justify-between mb-4">
                   <div>
                     <span className="text-sm font-medium text-slate-500 uppercase tracking-wider block">
-                      Devengado Actual ({apiData.yearActual})
+                      {apiData.metrica.etiqueta} {apiData.etiquetas ? `· ${apiData.etiquetas.actual}` : `Actual (${apiData.yearActual})`}
                     </span>
-                    <span className="text-[10px] text-slate-400 uppercase font-bold">(Millones de S/)</span>
+                    <span className="text-[10px] text-slate-400 uppercase font-bold">({unidad}{corte})</span>
                   </div>
                   <div className="p-2 bg-blue-50 dark:bg-blue-900/20 rounded-lg">
                     <Calendar className="w-5 h-5 text-blue-600" />
                   </div>
                 </div>
                 <div className="flex items-baseline gap-2">
-                  <span className="text-3xl font-black text-slate-900 dark:text-white">S/ {formatNumber(totalActual)}</span>
+                  <span className="text-3xl font-black text-slate-900 dark:text-white">{formatValor(totalActual, tipoMetrica, formato)}</span>
                 </div>
               </div>
 
@@ -221,16 +942,16 @@ export default function App() {
                 <div className="flex items-center justify-between mb-4">
                   <div>
                     <span className="text-sm font-medium text-slate-500 uppercase tracking-wider block">
-                      Devengado Anterior ({apiData.yearAnterior})
+                      {apiData.metrica.etiqueta} {apiData.etiquetas ? `· ${apiData.etiquetas.anterior}` : `Anterior (${apiData.yearAnterior})`}
                     </span>
-                    <span className="text-[10px] text-slate-400 uppercase font-bold">(Millones de S/)</span>
+                    <span className="text-[10px] text-slate-400 uppercase font-bold">({unidad}{corte})</span>
                   </div>
                   <div className="p-2 bg-slate-50 dark:bg-slate-800 rounded-lg">
                     <History className="w-5 h-5 text-slate-600" />
                   </div>
                 </div>
                 <div className="flex items-baseline gap-2">
-                  <span className="text-3xl font-black text-slate-900 dark:text-white">S/ {formatNumber(totalAnterior)}</span>
+                  <span className="text-3xl font-black text-slate-900 dark:text-white">{formatValor(totalAnterior, tipoMetrica, formato)}</span>
                 </div>
               </div>
 
@@ -240,7 +961,7 @@ export default function App() {
                     <span className="text-sm font-medium text-slate-500 uppercase tracking-wider block">
                       Variación Total
                     </span>
-                    <span className="text-[10px] text-slate-400 uppercase font-bold">(Millones de S/)</span>
+                    <span className="text-[10px] text-slate-400 uppercase font-bold">({unidad}{corte})</span>
                   </div>
                   <div className={`p-2 rounded-lg ${totalVariacionS >= 0 ? 'bg-emerald-50 dark:bg-emerald-900/20' : 'bg-rose-50 dark:bg-rose-900/20'}`}>
                     <TrendingUp className={`w-5 h-5 ${totalVariacionS >= 0 ? 'text-emerald-600' : 'text-rose-600'}`} />
@@ -248,68 +969,44 @@ export default function App() {
                 </div>
                 <div className="flex items-center gap-2">
                   <span className={`text-3xl font-black ${totalVariacionS >= 0 ? 'text-emerald-600' : 'text-rose-600'}`}>
-                    {totalVariacionS > 0 ? '+' : ''}S/ {formatNumber(totalVariacionS)}
+                    {tipoMetrica === 'monto' ? 'S/ ' : ''}{formatVariacion(totalVariacionS, tipoMetrica, formato)}{tipoMetrica === 'monto' ? '' : ' p.p.'}
                   </span>
                   <div className={`flex items-center px-2 py-0.5 rounded text-sm font-bold ${
-                    totalVariacionPorcentaje >= 0 
+                    totalVariacionPorcentaje === null || totalVariacionPorcentaje >= 0 
                       ? 'bg-emerald-100 dark:bg-emerald-900/40 text-emerald-700 dark:text-emerald-300' 
                       : 'bg-rose-100 dark:bg-rose-900/40 text-rose-700 dark:text-rose-300'
                   }`}>
-                    {totalVariacionPorcentaje >= 0 ? <ArrowUp className="w-3 h-3 mr-1" /> : <ArrowDown className="w-3 h-3 mr-1" />}
-                    {Math.abs(totalVariacionPorcentaje).toLocaleString('es-PE')}%
+                    {totalVariacionPorcentaje === null || totalVariacionPorcentaje >= 0 ? <ArrowUp className="w-3 h-3 mr-1" /> : <ArrowDown className="w-3 h-3 mr-1" />}
+                    {totalVariacionPorcentaje === null ? formatPorcentaje(null, totalNuevo) : formatPorcentaje(Math.abs(totalVariacionPorcentaje))}
                   </div>
                 </div>
               </div>
             </div>
 
-            {/* Charts Section */}
-            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-8">
-              <div className="bg-white dark:bg-slate-900 p-6 rounded-xl border border-primary/5 shadow-sm">
-                <h3 className="text-lg font-bold text-slate-900 dark:text-white mb-4">Variación Absoluta (Millones S/)</h3>
-                <div className="h-80">
-                  <ResponsiveContainer width="100%" height="100%">
-                    <BarChart data={filteredAndSortedData} margin={{ top: 20, right: 30, left: 20, bottom: 5 }}>
-                      <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#e2e8f0" />
-                      <XAxis dataKey="concepto" hide />
-                      <YAxis tickFormatter={(value) => formatNumber(value)} />
-                      <Tooltip 
-                        formatter={(value: number) => [`S/ ${formatNumber(value)}`, 'Variación S/']}
-                        labelFormatter={(label) => `Concepto: ${label}`}
-                        contentStyle={{ borderRadius: '8px', border: 'none', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)' }}
-                      />
-                      <Bar dataKey="variacionS" radius={[4, 4, 0, 0]}>
-                        {filteredAndSortedData.map((entry, index) => (
-                          <Cell key={`cell-${index}`} fill={entry.variacionS >= 0 ? '#059669' : '#e11d48'} />
-                        ))}
-                      </Bar>
-                    </BarChart>
-                  </ResponsiveContainer>
-                </div>
-              </div>
+            <DesgloseVariacion 
+              data={vistaData!.data} 
+              totales={vistaData!.totales} 
+              metrica={apiData.metrica} 
+              formato={formato} 
+              corte={corte} 
+              etiquetas={{ anterior: columnaAnterior, actual: columnaActual }} 
+              filtro={searchTerm} 
+              onFiltrar={setSearchTerm} 
+            />
 
-              <div className="bg-white dark:bg-slate-900 p-6 rounded-xl border border-primary/5 shadow-sm">
-                <h3 className="text-lg font-bold text-slate-900 dark:text-white mb-4">Variación Porcentual (%)</h3>
-                <div className="h-80">
-                  <ResponsiveContainer width="100%" height="100%">
-                    <BarChart data={filteredAndSortedData} margin={{ top: 20, right: 30, left: 20, bottom: 5 }}>
-                      <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#e2e8f0" />
-                      <XAxis dataKey="concepto" hide />
-                      <YAxis tickFormatter={(value) => `${value}%`} />
-                      <Tooltip 
-                        formatter={(value: number) => [`${value}%`, 'Variación %']}
-                        labelFormatter={(label) => `Concepto: ${label}`}
-                        contentStyle={{ borderRadius: '8px', border: 'none', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)' }}
-                      />
-                      <Bar dataKey="variacionPorcentaje" radius={[4, 4, 0, 0]}>
-                        {filteredAndSortedData.map((entry, index) => (
-                          <Cell key={`cell-${index}`} fill={entry.variacionPorcentaje >= 0 ? '#059669' : '#e11d48'} />
-                        ))}
-                      </Bar>
-                    </BarChart>
-                  </ResponsiveContainer>
-                </div>
-              </div>
-            </div>
+            {proyeccion && (
+              <ProyeccionCierre proyeccion={proyeccion} ejecucion={ejecucion} formato={formato} filtro={searchTerm} />
+            )}
+
+            {!apiData.etiquetas && (
+              <IngresosGastos 
+                url={apiData.fuentes[apiData.fuentes.length - 1].url} 
+                tipo={apiData.tipo ?? 'gasto'} 
+                opciones={{ modo: offline ? 'offline' : 'online', hasta: hasta || undefined }} 
+                formato={formato} 
+                onError={setError} 
+              />
+            )}
 
             {/* Data Table Section */}
             <section className="bg-white dark:bg-slate-900 rounded-xl shadow-sm border border-primary/5 overflow-hidden">
@@ -318,17 +1015,45 @@ export default function App() {
                   <TableIcon className="w-5 h-5" />
                   Detalle por Concepto Presupuestal
                 </h3>
-                <div className="relative w-full sm:w-72">
-                  <Search className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400 w-4 h-4" />
-                  <input 
-                    type="text" 
-                    className="w-full pl-10 pr-4 py-2 bg-background-light dark:bg-slate-800 border-none rounded-lg text-sm focus:ring-2 focus:ring-primary/20 outline-none" 
-                    placeholder="Filtrar por concepto..." 
-                    value={searchTerm}
-                    onChange={(e) => setSearchTerm(e.target.value)}
-                  />
+                <div className="flex flex-col sm:flex-row gap-3 w-full sm:w-auto print:hidden">
+                  <button 
+                    onClick={() => setMostrarMapeos(!mostrarMapeos)}
+                    title="Equivalencias de conceptos renombrados entre años"
+                    className={`px-3 py-2 text-sm font-bold rounded-lg border transition-colors flex items-center justify-center gap-2 whitespace-nowrap ${mostrarMapeos ? 'bg-primary text-white border-primary' : 'text-primary border-primary/20 hover:bg-primary/5'}`}
+                  >
+                    <Link2 className="w-4 h-4" />
+                    Equivalencias
+                  </button>
+                  {apiData.niveles.length > 0 && (
+                    <select 
+                      className="px-3 py-2 bg-background-light dark:bg-slate-800 border-none rounded-lg text-sm focus:ring-2 focus:ring-primary/20 outline-none"
+                      title="Dimensión a usar al desglosar un concepto"
+                      value={nivel}
+                      onChange={(e) => setNivel(e.target.value)}
+                    >
+                      <option value="">Desglosar por: {apiData.niveles[0].etiqueta}</option>
+                      {apiData.niveles.slice(1).map(n => (
+                        <option key={n.id} value={n.id}>Desglosar por: {n.etiqueta}</option>
+                      ))}
+                    </select>
+                  )}
+                  <div className="relative w-full sm:w-72">
+                    <Search className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400 w-4 h-4" />
+                    <input 
+                      type="text" 
+                      className="w-full pl-10 pr-4 py-2 bg-background-light dark:bg-slate-800 border-none rounded-lg text-sm focus:ring-2 focus:ring-primary/20 outline-none" 
+                      placeholder="Filtrar por concepto..." 
+                      value={searchTerm}
+                      onChange={(e) => setSearchTerm(e.target.value)}
+                    />
+                  </div>
                 </div>
               </div>
+              {mostrarMapeos && (
+                <div className="print:hidden">
+                  <MapeoConceptos data={apiData.data} onCambio={() => consultar(destinoActual())} onError={setError} />
+                </div>
+              )}
               <div className="overflow-x-auto">
                 <table className="w-full text-left border-collapse">
                   <thead>
@@ -343,19 +1068,19 @@ export default function App() {
                         className="px-6 py-4 text-xs font-bold text-slate-500 uppercase tracking-wider text-center cursor-pointer hover:text-primary transition-colors"
                         onClick={() => handleSort('montoAnterior')}
                       >
-                        DEV_{apiData.yearAnterior} <br/><span className="lowercase text-[10px]">(Millones de S/)</span> <ArrowUpDown className="w-3 h-3 inline-block align-middle ml-1" />
+                        {columnaAnterior} <br/><span className="lowercase text-[10px]">({unidad}{corte})</span> <ArrowUpDown className="w-3 h-3 inline-block align-middle ml-1" />
                       </th>
                       <th 
                         className="px-6 py-4 text-xs font-bold text-slate-500 uppercase tracking-wider text-center cursor-pointer hover:text-primary transition-colors"
                         onClick={() => handleSort('montoActual')}
                       >
-                        DEV_{apiData.yearActual} <br/><span className="lowercase text-[10px]">(Millones de S/)</span> <ArrowUpDown className="w-3 h-3 inline-block align-middle ml-1" />
+                        {columnaActual} <br/><span className="lowercase text-[10px]">({unidad}{corte})</span> <ArrowUpDown className="w-3 h-3 inline-block align-middle ml-1" />
                       </th>
                       <th 
                         className="px-6 py-4 text-xs font-bold text-slate-500 uppercase tracking-wider text-center cursor-pointer hover:text-primary transition-colors"
                         onClick={() => handleSort('variacionS')}
                       >
-                        Variación (S/)  <ArrowUpDown className="w-3 h-3 inline-block align-middle ml-1" />
+                        Variación ({tipoMetrica === 'monto' ? 'S/' : 'p.p.'})  <ArrowUpDown className="w-3 h-3 inline-block align-middle ml-1" />
                       </th>
                       <th 
                         className="px-6 py-4 text-xs font-bold text-slate-500 uppercase tracking-wider text-center cursor-pointer hover:text-primary transition-colors"
@@ -363,33 +1088,57 @@ export default function App() {
                       >
                         Variación (%) <ArrowUpDown className="w-3 h-3 inline-block align-middle ml-1" />
                       </th>
+                      {proyeccion && (
+                        <th 
+                          className="px-6 py-4 text-xs font-bold text-slate-500 uppercase tracking-wider text-center cursor-help"
+                          title={metodoProyeccion(proyeccion, ejecucion)}
+                        >
+                          Cierre proyectado <br/><span className="lowercase text-[10px]">(% del PIM {proyeccion.year})</span>
+                        </th>
+                      )}
                     </tr>
                   </thead>
                   <tbody className="divide-y divide-primary/5">
                     {filteredAndSortedData.map((item, idx) => (
-                      <tr key={idx} className="hover:bg-primary/5 transition-colors">
-                        <td className="px-6 py-4 font-medium text-slate-700 dark:text-slate-300">{item.concepto}</td>
-                        <td className="px-6 py-4 text-slate-600 dark:text-slate-400 text-right pr-2">{formatNumber(item.montoAnterior)}</td>
-                        <td className="px-6 py-4 text-slate-900 dark:text-white font-semibold text-right pr-2">{formatNumber(item.montoActual)}</td>
+                      <tr 
+                        key={idx} 
+                        className={`hover:bg-primary/5 transition-colors ${item.desglosable ? 'cursor-pointer' : ''}`}
+                        onClick={() => item.desglosable && handleDesglose(item.concepto)}
+                        title={item.desglosable ? 'Ver el desglose de este concepto' : undefined}
+                      >
+                        <td className="px-6 py-4 font-medium text-slate-700 dark:text-slate-300">
+                          {item.concepto}
+                          <InsigniaEmparejamiento emparejamientos={item.emparejamientos} />
+                          {item.desglosable && <ChevronRight className="w-4 h-4 inline-block align-middle ml-1 text-primary/50" />}
+                        </td>
+                        <td className="px-6 py-4 text-slate-600 dark:text-slate-400 text-right pr-2">{formatCifra(item.montoAnterior, tipoMetrica, formato)}</td>
+                        <td className="px-6 py-4 text-slate-900 dark:text-white font-semibold text-right pr-2">{formatCifra(item.montoActual, tipoMetrica, formato)}</td>
                         <td className={`px-6 py-4 font-medium text-right pr-2 ${item.variacionS > 0 ? 'text-emerald-600' : item.variacionS < 0 ? 'text-rose-600' : 'text-slate-600'}`}>
-                          {formatVariacion(item.variacionS)}
+                          {formatVariacion(item.variacionS, tipoMetrica, formato)}
                         </td>
                         <td className="px-6 py-4 text-right pr-2">
                           <span className={`px-2 py-1 rounded text-xs font-bold ${
-                            item.variacionPorcentaje > 0 
+                            item.nuevo
+                              ? 'bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-400'
+                              : item.variacionPorcentaje !== null && item.variacionPorcentaje > 0 
                               ? 'bg-emerald-100 dark:bg-emerald-900/30 text-emerald-700 dark:text-emerald-400' 
-                              : item.variacionPorcentaje < 0
+                              : item.variacionPorcentaje !== null && item.variacionPorcentaje < 0
                                 ? 'bg-rose-100 dark:bg-rose-900/30 text-rose-700 dark:text-rose-400'
                                 : 'bg-slate-100 dark:bg-slate-800 text-slate-700 dark:text-slate-400'
                           }`}>
-                            {item.variacionPorcentaje > 0 ? '+' : ''}{item.variacionPorcentaje.toLocaleString('es-PE')}%
+                            {formatPorcentaje(item.variacionPorcentaje, item.nuevo)}
                           </span>
                         </td>
+                        {proyeccion && (
+                          <td className="px-6 py-4 text-right pr-2 text-slate-700 dark:text-slate-300">
+                            <InsigniaProyeccion proyeccion={proyeccion.conceptos[item.concepto]} mesCorte={proyeccion.mesCorte} formato={formato} />
+                          </td>
+                        )}
                       </tr>
                     ))}
                     {filteredAndSortedData.length === 0 && (
                       <tr>
-                        <td colSpan={5} className="px-6 py-8 text-center text-slate-500">
+                        <td colSpan={proyeccion ? 6 : 5} className="px-6 py-8 text-center text-slate-500">
                           No se encontraron resultados para "{searchTerm}"
                         </td>
                       </tr>
@@ -398,24 +1147,35 @@ export default function App() {
                   <tfoot className="bg-slate-50 dark:bg-slate-800/50 font-bold">
                     <tr>
                       <td className="px-6 py-4 text-slate-900 dark:text-white">TOTAL GENERAL</td>
-                      <td className="px-6 py-4 text-right pr-2">{formatNumber(totalAnterior)}</td>
-                      <td className="px-6 py-4 text-right pr-2">{formatNumber(totalActual)}</td>
+                      <td className="px-6 py-4 text-right pr-2">{formatCifra(totalAnterior, tipoMetrica, formato)}</td>
+                      <td className="px-6 py-4 text-right pr-2">{formatCifra(totalActual, tipoMetrica, formato)}</td>
                       <td className={`px-6 py-4 text-right pr-2 ${totalVariacionS > 0 ? 'text-emerald-600' : totalVariacionS < 0 ? 'text-rose-600' : 'text-slate-900'}`}>
-                        {formatVariacion(totalVariacionS)}
+                        {formatVariacion(totalVariacionS, tipoMetrica, formato)}
                       </td>
-                      <td className={`px-6 py-4 text-right pr-2 ${totalVariacionPorcentaje > 0 ? 'text-emerald-600' : totalVariacionPorcentaje < 0 ? 'text-rose-600' : 'text-slate-900'}`}>
-                        {totalVariacionPorcentaje > 0 ? '+' : ''}{totalVariacionPorcentaje.toLocaleString('es-PE')}%
+                      <td className={`px-6 py-4 text-right pr-2 ${totalVariacionPorcentaje === null ? 'text-blue-600' : totalVariacionPorcentaje > 0 ? 'text-emerald-600' : totalVariacionPorcentaje < 0 ? 'text-rose-600' : 'text-slate-900'}`}>
+                        {formatPorcentaje(totalVariacionPorcentaje, totalNuevo)}
                       </td>
+                      {proyeccion && (
+                        <td className="px-6 py-4 text-right pr-2">
+                          <InsigniaProyeccion proyeccion={proyeccion.total} mesCorte={proyeccion.mesCorte} formato={formato} />
+                        </td>
+                      )}
                     </tr>
                   </tfoot>
                 </table>
               </div>
             </section>
+
+            {vistaData!.serie.years.length > 2 && (
+              <div className="mt-8">
+                <SerieTemporal serie={vistaData!.serie} metrica={apiData.metrica} formato={formato} corte={corte} searchTerm={searchTerm} />
+              </div>
+            )}
           </>
         )}
 
         {/* Footer Information */}
-        <footer className="mt-12 text-center text-slate-400 text-sm">
+        <footer className="mt-12 text-center text-slate-400 text-sm print:hidden">
           <p>© 2024 MEF Data Analyzer. Basado en datos del Portal de Transparencia Económica - MEF Perú.</p>
           <div className="flex justify-center gap-4 mt-4">
             <a href="#" className="hover:text-primary transition-colors">Documentación</a>
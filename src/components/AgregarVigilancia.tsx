@@ -0,0 +1,191 @@
+import React, { useState } from 'react';
+import { Eye, Loader2, Plus, Trash2, CheckCircle2 } from 'lucide-react';
+import { CampoRegla, MetricaInfo, ReglaAlerta } from '../types';
+import { CAMPOS_REGLA, OPERADORES_REGLA } from '../lib/alertas';
+import { MESES } from '../lib/periodo';
+
+interface AgregarVigilanciaProps {
+  // Cuerpo de /api/comparar de los datos en pantalla
+  parametros: Record<string, unknown>;
+  metrica: MetricaInfo;
+  nombreSugerido: string;
+  onError: (mensaje: string) => void;
+}
+
+const FRECUENCIAS = [
+  { horas: 6, etiqueta: 'Cada 6 horas' },
+  { horas: 12, etiqueta: 'Cada 12 horas' },
+  { horas: 24, etiqueta: 'Diaria' },
+  { horas: 168, etiqueta: 'Semanal' }
+];
+
+// En el formulario el umbral es texto para admitir el signo menos mientras se escribe
+type ReglaEditable = Omit<ReglaAlerta, 'umbral'> & { umbral: string };
+
+const reglaNueva = (): ReglaEditable => ({
+  campo: 'variacionPorcentaje',
+  operador: 'menor',
+  umbral: '-20',
+  alcance: 'conceptos',
+  filtro: '',
+  desdeMes: null
+});
+
+const clasesCampo = 'px-2 py-1 bg-background-light dark:bg-slate-800 border-none rounded-lg focus:ring-2 focus:ring-primary/20 outline-none';
+
+export default function AgregarVigilancia({ parametros, metrica, nombreSugerido, onError }: AgregarVigilanciaProps) {
+  const [abierto, setAbierto] = useState(false);
+  const [nombre, setNombre] = useState('');
+  const [frecuenciaHoras, setFrecuenciaHoras] = useState(24);
+  const [reglas, setReglas] = useState<ReglaEditable[]>([reglaNueva()]);
+  const [guardando, setGuardando] = useState(false);
+  const [creada, setCreada] = useState(false);
+
+  const alternar = () => {
+    if (!abierto) {
+      setNombre(nombreSugerido);
+      setCreada(false);
+    }
+    setAbierto(!abierto);
+  };
+
+  const cambiarRegla = (idx: number, cambios: Partial<ReglaEditable>) => {
+    setReglas(prev => prev.map((regla, i) => i === idx ? { ...regla, ...cambios } : regla));
+  };
+
+  const unidadUmbral = (campo: CampoRegla) => {
+    if (campo === 'variacionPorcentaje') return '%';
+    if (metrica.tipo === 'porcentaje') return campo === 'variacionS' ? 'p.p.' : '%';
+    return 'S/';
+  };
+
+  const handleGuardar = async () => {
+    setGuardando(true);
+    try {
+      const response = await fetch('/api/vigilancias', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ nombre, frecuenciaHoras, parametros, reglas })
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Error al vigilar la consulta');
+      }
+      setCreada(true);
+      setReglas([reglaNueva()]);
+    } catch (err: any) {
+      onError(err.message);
+    } finally {
+      setGuardando(false);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={alternar}
+        title="Actualizar esta consulta periódicamente y avisar cuando se cumpla una regla"
+        className="flex items-center gap-2 px-3 py-1.5 bg-white dark:bg-slate-900 border border-primary/10 rounded-lg font-bold text-slate-600 dark:text-slate-300 hover:text-primary transition-colors"
+      >
+        <Eye className="w-4 h-4" />
+        Vigilar
+      </button>
+      {abierto && (
+        <div className="absolute right-0 mt-2 w-[34rem] max-w-[90vw] p-4 bg-white dark:bg-slate-900 border border-primary/10 rounded-xl shadow-lg z-20 flex flex-col gap-3">
+          {creada ? (
+            <p className="flex items-center gap-2 font-semibold text-slate-700 dark:text-slate-300">
+              <CheckCircle2 className="w-4 h-4 text-emerald-600" />
+              La consulta quedó vigilada. Las alertas aparecerán en la campana.
+            </p>
+          ) : (
+            <>
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  className={`flex-grow min-w-0 ${clasesCampo}`}
+                  placeholder="Nombre"
+                  value={nombre}
+                  onChange={(e) => setNombre(e.target.value)}
+                />
+                <select className={clasesCampo} value={frecuenciaHoras} onChange={(e) => setFrecuenciaHoras(Number(e.target.value))}>
+                  {FRECUENCIAS.map(f => (
+                    <option key={f.horas} value={f.horas}>{f.etiqueta}</option>
+                  ))}
+                </select>
+              </div>
+              <p className="text-xs font-bold text-slate-500 uppercase">Avisar cuando</p>
+              {reglas.map((regla, idx) => (
+                <div key={idx} className="flex flex-wrap items-center gap-2 text-xs">
+                  <select className={clasesCampo} value={regla.alcance} onChange={(e) => cambiarRegla(idx, { alcance: e.target.value as ReglaAlerta['alcance'] })}>
+                    <option value="conceptos">Un concepto</option>
+                    <option value="total">El total</option>
+                  </select>
+                  {regla.alcance === 'conceptos' && (
+                    <input
+                      type="text"
+                      className={`w-28 ${clasesCampo}`}
+                      placeholder="que contenga…"
+                      title="Vacío evalúa todos los conceptos"
+                      value={regla.filtro}
+                      onChange={(e) => cambiarRegla(idx, { filtro: e.target.value })}
+                    />
+                  )}
+                  <select className={clasesCampo} value={regla.campo} onChange={(e) => cambiarRegla(idx, { campo: e.target.value as CampoRegla })}>
+                    {(Object.keys(CAMPOS_REGLA) as CampoRegla[]).map(campo => (
+                      <option key={campo} value={campo}>{campo === 'actual' ? metrica.etiqueta : CAMPOS_REGLA[campo]}</option>
+                    ))}
+                  </select>
+                  <select className={clasesCampo} value={regla.operador} onChange={(e) => cambiarRegla(idx, { operador: e.target.value as ReglaAlerta['operador'] })}>
+                    {(Object.keys(OPERADORES_REGLA) as ReglaAlerta['operador'][]).map(operador => (
+                      <option key={operador} value={operador}>{OPERADORES_REGLA[operador]}</option>
+                    ))}
+                  </select>
+                  <input
+                    type="text"
+                    inputMode="decimal"
+                    className={`w-24 ${clasesCampo}`}
+                    value={regla.umbral}
+                    onChange={(e) => cambiarRegla(idx, { umbral: e.target.value })}
+                  />
+                  <span className="text-slate-400">{unidadUmbral(regla.campo)}</span>
+                  <select
+                    className={clasesCampo}
+                    value={regla.desdeMes ?? ''}
+                    onChange={(e) => cambiarRegla(idx, { desdeMes: e.target.value ? Number(e.target.value) : null })}
+                  >
+                    <option value="">Todo el año</option>
+                    {MESES.map((mes, i) => (
+                      <option key={mes} value={i + 1}>Desde {mes.toLowerCase()}</option>
+                    ))}
+                  </select>
+                  {reglas.length > 1 && (
+                    <button onClick={() => setReglas(prev => prev.filter((_, i) => i !== idx))} title="Quitar regla" className="p-1 text-slate-400 hover:text-rose-600">
+                      <Trash2 className="w-3.5 h-3.5" />
+                    </button>
+                  )}
+                </div>
+              ))}
+              <div className="flex items-center justify-between gap-2">
+                <button onClick={() => setReglas(prev => [...prev, reglaNueva()])} className="flex items-center gap-1 text-xs font-bold text-primary hover:underline">
+                  <Plus className="w-3.5 h-3.5" />
+                  Agregar regla
+                </button>
+                <button
+                  onClick={handleGuardar}
+                  disabled={guardando || !nombre.trim()}
+                  className="flex items-center justify-center gap-2 px-4 py-1.5 bg-primary hover:bg-primary/90 disabled:bg-primary/50 text-white font-bold rounded-lg transition-all"
+                >
+                  {guardando && <Loader2 className="w-4 h-4 animate-spin" />}
+                  Vigilar consulta
+                </button>
+              </div>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
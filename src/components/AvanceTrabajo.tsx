@@ -0,0 +1,66 @@
+import React from 'react';
+import { Loader2, XCircle, CheckCircle2, AlertCircle } from 'lucide-react';
+import { Trabajo } from '../types';
+import { ESTADOS_TRABAJO, esFinal } from '../lib/trabajos';
+
+interface AvanceTrabajoProps {
+  trabajo: Trabajo;
+  onCancelar: () => void;
+}
+
+// Eventos recientes que se listan bajo la barra de avance
+const EVENTOS_VISIBLES = 6;
+
+export default function AvanceTrabajo({ trabajo, onCancelar }: AvanceTrabajoProps) {
+  const { progreso } = trabajo;
+  const terminado = esFinal(trabajo.estado);
+  const porcentaje = progreso.total ? Math.round((progreso.completadas / progreso.total) * 100) : 0;
+  const unidad = trabajo.tipo === 'lote' ? 'entidades' : 'páginas';
+
+  return (
+    <div className="mt-4 p-4 bg-background-light dark:bg-slate-800/50 border border-primary/10 rounded-lg text-sm">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+        <div className="flex items-center gap-2 font-semibold text-slate-700 dark:text-slate-300 min-w-0">
+          {!terminado && <Loader2 className="w-4 h-4 animate-spin text-primary flex-shrink-0" />}
+          {trabajo.estado === 'completado' && <CheckCircle2 className="w-4 h-4 text-emerald-600 flex-shrink-0" />}
+          {trabajo.estado === 'cancelado' && <XCircle className="w-4 h-4 text-slate-400 flex-shrink-0" />}
+          {trabajo.estado === 'error' && <AlertCircle className="w-4 h-4 text-rose-600 flex-shrink-0" />}
+          <span className="truncate" title={trabajo.descripcion}>{trabajo.descripcion}</span>
+        </div>
+        <div className="flex items-center gap-3 text-xs text-slate-500">
+          <span>
+            {ESTADOS_TRABAJO[trabajo.estado]}
+            {progreso.total > 0 && ` · ${progreso.completadas} de ${progreso.total} ${unidad}`}
+          </span>
+          {!terminado && (
+            <button
+              onClick={onCancelar}
+              className="flex items-center gap-1 px-2 py-1 rounded-md border border-rose-200 text-rose-600 hover:bg-rose-50 dark:border-rose-800 dark:hover:bg-rose-900/20 font-bold"
+            >
+              <XCircle className="w-3.5 h-3.5" />
+              Cancelar
+            </button>
+          )}
+        </div>
+      </div>
+      <div className="h-2 rounded-full bg-primary/10 overflow-hidden">
+        <div
+          className={`h-full transition-all ${trabajo.estado === 'error' ? 'bg-rose-500' : trabajo.estado === 'cancelado' ? 'bg-slate-400' : 'bg-primary'}`}
+          style={{ width: `${terminado && trabajo.estado === 'completado' ? 100 : porcentaje}%` }}
+        />
+      </div>
+      <p className="text-xs text-slate-500 mt-2">{progreso.mensaje}</p>
+      {progreso.eventos.length > 0 && (
+        <ul className="mt-2 space-y-0.5 text-xs text-slate-400 font-mono">
+          {progreso.eventos.slice(-EVENTOS_VISIBLES).reverse().map((evento, idx) => (
+            <li key={idx} className="truncate">
+              {evento.tipo === 'pagina'
+                ? `${evento.entidad ? `${evento.entidad} · ` : ''}${evento.rotulo}: ${evento.filas} filas (${evento.origen === 'cache' ? 'caché' : evento.origen === 'red' ? 'en línea' : 'archivo'})`
+                : `${evento.etiqueta}: ${evento.ok ? 'listo' : evento.error}`}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
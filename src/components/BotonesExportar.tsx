@@ -0,0 +1,60 @@
+import React, { useState } from 'react';
+import { FileSpreadsheet, FileText, Printer, Loader2 } from 'lucide-react';
+
+interface BotonesExportarProps {
+  // Cuerpo que espera /api/exportar: filas filtradas y ordenadas, totales, fuentes y formato de números
+  reporte: object;
+  onError: (mensaje: string) => void;
+}
+
+export default function BotonesExportar({ reporte, onError }: BotonesExportarProps) {
+  const [exportando, setExportando] = useState<'xlsx' | 'csv' | null>(null);
+
+  const descargar = async (formato: 'xlsx' | 'csv') => {
+    setExportando(formato);
+    try {
+      const response = await fetch(`/api/exportar/${formato}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify(reporte)
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Error al exportar la comparación');
+      }
+
+      const nombre = response.headers.get('Content-Disposition')?.match(/filename="([^"]+)"/)?.[1] || `comparacion.${formato}`;
+      const enlace = document.createElement('a');
+      enlace.href = URL.createObjectURL(await response.blob());
+      enlace.download = nombre;
+      enlace.click();
+      URL.revokeObjectURL(enlace.href);
+    } catch (err: any) {
+      onError(err.message);
+    } finally {
+      setExportando(null);
+    }
+  };
+
+  const botonClass = 'px-3 py-2 text-sm font-bold text-primary border border-primary/20 hover:bg-primary/5 disabled:opacity-50 rounded-lg transition-colors flex items-center justify-center gap-2 whitespace-nowrap';
+
+  return (
+    <div className="flex gap-2 print:hidden">
+      <button onClick={() => descargar('xlsx')} disabled={exportando !== null} title="Descargar la tabla en Excel" className={botonClass}>
+        {exportando === 'xlsx' ? <Loader2 className="w-4 h-4 animate-spin" /> : <FileSpreadsheet className="w-4 h-4" />}
+        XLSX
+      </button>
+      <button onClick={() => descargar('csv')} disabled={exportando !== null} title="Descargar la tabla en CSV" className={botonClass}>
+        {exportando === 'csv' ? <Loader2 className="w-4 h-4 animate-spin" /> : <FileText className="w-4 h-4" />}
+        CSV
+      </button>
+      <button onClick={() => window.print()} title="Imprimir o guardar como PDF el reporte con tarjetas, gráficos, tabla y fuentes" className={botonClass}>
+        <Printer className="w-4 h-4" />
+        PDF
+      </button>
+    </div>
+  );
+}
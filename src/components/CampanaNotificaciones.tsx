@@ -0,0 +1,218 @@
+import React, { useEffect, useState } from 'react';
+import { Bell, RefreshCw, Trash2, Loader2, AlertCircle } from 'lucide-react';
+import { Notificacion, Vigilancia } from '../types';
+import { describirRegla } from '../lib/alertas';
+import { getMetrica, METRICA_POR_DEFECTO } from '../lib/metricas';
+import { formatFechaCaptura } from './FuentesDatos';
+
+interface CampanaNotificacionesProps {
+  onError: (mensaje: string) => void;
+}
+
+// Cada cuánto se consulta si hay notificaciones nuevas
+const INTERVALO_CONSULTA_MS = 60 * 1000;
+
+export default function CampanaNotificaciones({ onError }: CampanaNotificacionesProps) {
+  const [abierto, setAbierto] = useState(false);
+  const [pestana, setPestana] = useState<'notificaciones' | 'vigiladas'>('notificaciones');
+  const [notificaciones, setNotificaciones] = useState<Notificacion[]>([]);
+  const [noLeidas, setNoLeidas] = useState(0);
+  const [vigilancias, setVigilancias] = useState<Vigilancia[]>([]);
+  const [actualizando, setActualizando] = useState<number | null>(null);
+
+  const aplicar = (data: { notificaciones: Notificacion[]; noLeidas: number }) => {
+    setNotificaciones(data.notificaciones);
+    setNoLeidas(data.noLeidas);
+  };
+
+  const cargarNotificaciones = async () => {
+    try {
+      const response = await fetch('/api/notificaciones');
+      if (response.ok) aplicar(await response.json());
+    } catch {
+      // Se vuelve a intentar en la próxima consulta periódica
+    }
+  };
+
+  const cargarVigilancias = async () => {
+    try {
+      const response = await fetch('/api/vigilancias');
+      const data = await response.json();
+      if (response.ok) setVigilancias(data.vigilancias);
+    } catch {
+      setVigilancias([]);
+    }
+  };
+
+  useEffect(() => {
+    cargarNotificaciones();
+    const intervalo = setInterval(cargarNotificaciones, INTERVALO_CONSULTA_MS);
+    return () => clearInterval(intervalo);
+  }, []);
+
+  const alternar = () => {
+    if (!abierto) {
+      cargarNotificaciones();
+      cargarVigilancias();
+    }
+    setAbierto(!abierto);
+  };
+
+  // Todas las acciones responden con el listado actualizado
+  const enviar = async (ruta: string, metodo: 'POST' | 'DELETE', mensajeError: string) => {
+    const response = await fetch(ruta, { method: metodo });
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || mensajeError);
+    }
+    return data;
+  };
+
+  const marcarLeida = async (notificacion: Notificacion) => {
+    if (notificacion.leida) return;
+    try {
+      aplicar(await enviar(`/api/notificaciones/${notificacion.id}/leida`, 'POST', 'Error al marcar la notificación'));
+    } catch (err: any) {
+      onError(err.message);
+    }
+  };
+
+  const marcarTodas = async () => {
+    try {
+      aplicar(await enviar('/api/notificaciones/leidas', 'POST', 'Error al marcar las notificaciones'));
+    } catch (err: any) {
+      onError(err.message);
+    }
+  };
+
+  const actualizarAhora = async (vigilancia: Vigilancia) => {
+    setActualizando(vigilancia.id);
+    try {
+      const actualizada: Vigilancia = await enviar(`/api/vigilancias/${vigilancia.id}/ejecutar`, 'POST', 'Error al actualizar la consulta vigilada');
+      setVigilancias(prev => prev.map(v => v.id === actualizada.id ? actualizada : v));
+      cargarNotificaciones();
+    } catch (err: any) {
+      onError(err.message);
+      // El error también queda registrado en la consulta vigilada
+      cargarVigilancias();
+    } finally {
+      setActualizando(null);
+    }
+  };
+
+  const eliminar = async (vigilancia: Vigilancia) => {
+    if (!window.confirm(`¿Dejar de vigilar «${vigilancia.nombre}»?`)) return;
+    try {
+      setVigilancias((await enviar(`/api/vigilancias/${vigilancia.id}`, 'DELETE', 'Error al eliminar la consulta vigilada')).vigilancias);
+    } catch (err: any) {
+      onError(err.message);
+    }
+  };
+
+  return (
+    <div className="relative print:hidden">
+      <button
+        onClick={alternar}
+        title="Notificaciones"
+        className="relative p-2 text-slate-500 hover:bg-primary/5 rounded-full transition-colors"
+      >
+        <Bell className="w-5 h-5" />
+        {noLeidas > 0 && (
+          <span className="absolute -top-0.5 -right-0.5 min-w-[1.1rem] h-[1.1rem] px-1 rounded-full bg-rose-600 text-white text-[10px] font-bold flex items-center justify-center">
+            {noLeidas > 99 ? '99+' : noLeidas}
+          </span>
+        )}
+      </button>
+      {abierto && (
+        <div className="absolute right-0 mt-2 w-96 max-h-[28rem] overflow-y-auto bg-white dark:bg-slate-900 border border-primary/10 rounded-xl shadow-lg z-20">
+          <div className="px-4 py-3 border-b border-primary/5 flex items-center justify-between gap-2 text-xs font-bold">
+            <div className="flex gap-1">
+              {([['notificaciones', 'Notificaciones'], ['vigiladas', 'Consultas vigiladas']] as const).map(([opcion, etiqueta]) => (
+                <button
+                  key={opcion}
+                  onClick={() => setPestana(opcion)}
+                  className={`px-3 py-1 rounded-md transition-colors ${pestana === opcion ? 'bg-primary text-white' : 'text-slate-500 hover:text-primary'}`}
+                >
+                  {etiqueta}
+                </button>
+              ))}
+            </div>
+            {pestana === 'notificaciones' && noLeidas > 0 && (
+              <button onClick={marcarTodas} className="text-primary hover:underline">Marcar todas como leídas</button>
+            )}
+          </div>
+          {pestana === 'notificaciones' ? (
+            notificaciones.length === 0 ? (
+              <p className="px-4 py-6 text-sm text-slate-400 text-center">No hay notificaciones.</p>
+            ) : (
+              <ul className="divide-y divide-primary/5">
+                {notificaciones.map(notificacion => (
+                  <li key={notificacion.id}>
+                    <button
+                      onClick={() => marcarLeida(notificacion)}
+                      className={`w-full text-left px-4 py-3 hover:bg-primary/5 transition-colors ${notificacion.leida ? '' : 'bg-primary/5'}`}
+                    >
+                      <div className="flex items-center justify-between gap-2">
+                        <span className={`text-sm truncate ${notificacion.leida ? 'text-slate-500' : 'font-bold text-slate-800 dark:text-slate-200'}`} title={notificacion.vigilancia}>
+                          {notificacion.vigilancia}
+                        </span>
+                        {!notificacion.leida && <span className="w-2 h-2 rounded-full bg-primary flex-shrink-0" />}
+                      </div>
+                      <p className="text-xs text-slate-500 mt-1">{notificacion.mensaje}</p>
+                      <p className="text-[10px] text-slate-400 mt-1">{formatFechaCaptura(notificacion.creadoEn)}</p>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )
+          ) : vigilancias.length === 0 ? (
+            <p className="px-4 py-6 text-sm text-slate-400 text-center">
+              No hay consultas vigiladas. Use «Vigilar» junto a los resultados de una comparación.
+            </p>
+          ) : (
+            <ul className="divide-y divide-primary/5">
+              {vigilancias.map(vigilancia => (
+                <li key={vigilancia.id} className="px-4 py-3">
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="text-sm font-medium text-slate-700 dark:text-slate-300 truncate" title={vigilancia.nombre}>
+                      {vigilancia.nombre}
+                    </span>
+                    <div className="flex items-center gap-1 flex-shrink-0">
+                      <button
+                        onClick={() => actualizarAhora(vigilancia)}
+                        disabled={actualizando !== null}
+                        title="Actualizar ahora"
+                        className="p-1.5 text-slate-400 hover:text-primary rounded-lg disabled:opacity-50"
+                      >
+                        {actualizando === vigilancia.id ? <Loader2 className="w-4 h-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />}
+                      </button>
+                      <button onClick={() => eliminar(vigilancia)} title="Dejar de vigilar" className="p-1.5 text-slate-400 hover:text-rose-600 rounded-lg">
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </div>
+                  <ul className="mt-1 space-y-0.5 text-xs text-slate-500">
+                    {vigilancia.reglas.map((regla, idx) => (
+                      <li key={idx}>{describirRegla(regla, getMetrica(vigilancia.parametros.metrica || METRICA_POR_DEFECTO))}</li>
+                    ))}
+                  </ul>
+                  <p className="text-[10px] text-slate-400 mt-1">
+                    Cada {vigilancia.frecuenciaHoras} h
+                    {vigilancia.ultimaEjecucion ? ` · Última: ${formatFechaCaptura(vigilancia.ultimaEjecucion)}` : ' · Pendiente de la primera actualización'}
+                    {vigilancia.alertasActivas > 0 && ` · ${vigilancia.alertasActivas} ${vigilancia.alertasActivas === 1 ? 'alerta activa' : 'alertas activas'}`}
+                  </p>
+                  {vigilancia.ultimoError && (
+                    <p className="flex items-start gap-1 text-[10px] text-rose-600 mt-1">
+                      <AlertCircle className="w-3 h-3 flex-shrink-0 mt-px" />
+                      {vigilancia.ultimoError}
+                    </p>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
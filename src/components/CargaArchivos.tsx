@@ -0,0 +1,80 @@
+import React, { useRef, useState } from 'react';
+import { FileUp, Loader2 } from 'lucide-react';
+import { CargaArchivosData } from '../types';
+
+interface CargaArchivosProps {
+  // Grupo de la carga actual: los archivos nuevos se agregan a él
+  grupo?: string;
+  onCargado: (carga: CargaArchivosData) => void;
+  onError: (mensaje: string) => void;
+}
+
+const leerBase64 = (archivo: File) => new Promise<string>((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(String(reader.result).replace(/^data:[^,]*,/, ''));
+  reader.onerror = () => reject(new Error(`No se pudo leer el archivo '${archivo.name}'.`));
+  reader.readAsDataURL(archivo);
+});
+
+export default function CargaArchivos({ grupo, onCargado, onError }: CargaArchivosProps) {
+  const [subiendo, setSubiendo] = useState(false);
+  const [arrastrando, setArrastrando] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const cargar = async (lista: FileList | null) => {
+    const archivos = Array.from(lista || []).filter(archivo => /\.(html?|zip)$/i.test(archivo.name));
+    if (!archivos.length) {
+      onError('Seleccione páginas HTML guardadas de Consulta Amigable o un archivo ZIP.');
+      return;
+    }
+
+    setSubiendo(true);
+    try {
+      const response = await fetch('/api/archivos', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          grupo,
+          archivos: await Promise.all(archivos.map(async archivo => ({ nombre: archivo.name, contenido: await leerBase64(archivo) })))
+        })
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Error al cargar los archivos');
+      }
+
+      onCargado(data);
+    } catch (err: any) {
+      onError(err.message);
+    } finally {
+      setSubiendo(false);
+    }
+  };
+
+  return (
+    <div
+      onDragOver={(e) => { e.preventDefault(); setArrastrando(true); }}
+      onDragLeave={() => setArrastrando(false)}
+      onDrop={(e) => { e.preventDefault(); setArrastrando(false); cargar(e.dataTransfer.files); }}
+      onClick={() => !subiendo && inputRef.current?.click()}
+      title="Una página por año; el año se detecta del contenido o del nombre del archivo"
+      className={`flex items-center gap-2 px-3 py-1.5 rounded-lg border border-dashed cursor-pointer transition-colors ${
+        arrastrando ? 'border-primary bg-primary/5 text-primary' : 'border-slate-300 dark:border-slate-700 hover:border-primary hover:text-primary'
+      }`}
+    >
+      {subiendo ? <Loader2 className="w-4 h-4 animate-spin" /> : <FileUp className="w-4 h-4" />}
+      {grupo ? 'Agregar páginas a los archivos cargados' : 'Cargar páginas HTML o ZIP'}
+      <input
+        ref={inputRef}
+        type="file"
+        multiple
+        accept=".html,.htm,.zip,text/html,application/zip"
+        className="hidden"
+        onChange={(e) => { cargar(e.target.files); e.target.value = ''; }}
+      />
+    </div>
+  );
+}
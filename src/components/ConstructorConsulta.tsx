@@ -0,0 +1,229 @@
+import React, { useEffect, useState } from 'react';
+import { SlidersHorizontal, Loader2, ChevronDown, ChevronUp, CheckCircle2 } from 'lucide-react';
+import { CamposConsulta, ConsultaConstruida, OpcionConsulta, TipoConsulta, TipoErrorMef } from '../types';
+import { DIMENSIONES_CONSULTA, NIVELES_GOBIERNO, PRIMER_YEAR_CONSULTA, TIPOS_CONSULTA } from '../lib/consulta';
+
+interface ConstructorConsultaProps {
+  // Enlace del campo principal, para precargar el formulario
+  url: string;
+  onUsar: (url: string) => void;
+  onError: (mensaje: string, detalle?: { tipo?: TipoErrorMef; estado?: number }) => void;
+}
+
+const CAMPOS_INICIALES: CamposConsulta = {
+  year: new Date().getFullYear(),
+  tipo: 'gasto',
+  nivelGobierno: '',
+  sector: '',
+  pliego: '',
+  dimension: 'generica'
+};
+
+const clasesSelect = 'px-3 py-1.5 bg-background-light dark:bg-slate-800 border-none rounded-lg focus:ring-2 focus:ring-primary/20 outline-none disabled:opacity-50';
+
+async function pedirConsulta(accion: 'construir' | 'analizar', cuerpo: object): Promise<ConsultaConstruida> {
+  const response = await fetch(`/api/consultas/${accion}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify(cuerpo)
+  });
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw Object.assign(new Error(data.error || 'Error al armar la consulta'), { tipo: data.tipo, estado: data.estado });
+  }
+  return data;
+}
+
+// Opciones de un filtro; si el valor elegido aún no está en la lista (precargado de un enlace) se muestra igual
+function OpcionesFiltro({ opciones, valor }: { opciones: OpcionConsulta[]; valor: string }) {
+  return (
+    <>
+      <option value="">Todos</option>
+      {valor && !opciones.some(opcion => opcion.codigo === valor) && <option value={valor}>{valor}</option>}
+      {opciones.map(opcion => (
+        <option key={opcion.codigo} value={opcion.codigo}>{opcion.codigo}: {opcion.nombre}</option>
+      ))}
+    </>
+  );
+}
+
+export default function ConstructorConsulta({ url, onUsar, onError }: ConstructorConsultaProps) {
+  const [abierto, setAbierto] = useState(false);
+  const [campos, setCampos] = useState<CamposConsulta>(CAMPOS_INICIALES);
+  const [sectores, setSectores] = useState<OpcionConsulta[]>([]);
+  const [pliegos, setPliegos] = useState<OpcionConsulta[]>([]);
+  const [cargando, setCargando] = useState<'sectores' | 'pliegos' | 'consulta' | null>(null);
+  const [construida, setConstruida] = useState<ConsultaConstruida | null>(null);
+
+  const yearValido = campos.year >= PRIMER_YEAR_CONSULTA && campos.year <= new Date().getFullYear();
+
+  // Las opciones de cada filtro son las filas del nivel anterior agrupado por esa dimensión
+  const cargarOpciones = async (dimension: 'sector' | 'pliego', filtros: Partial<CamposConsulta>) => {
+    setCargando(dimension === 'sector' ? 'sectores' : 'pliegos');
+    try {
+      const data = await pedirConsulta('construir', { year: campos.year, tipo: campos.tipo, ...filtros, dimension });
+      return data.opciones;
+    } catch (err: any) {
+      onError(err.message, { tipo: err.tipo, estado: err.estado });
+      return [];
+    } finally {
+      setCargando(null);
+    }
+  };
+
+  useEffect(() => {
+    setSectores([]);
+    if (!abierto || !yearValido || !campos.nivelGobierno) return;
+    cargarOpciones('sector', { nivelGobierno: campos.nivelGobierno }).then(setSectores);
+  }, [abierto, campos.year, campos.tipo, campos.nivelGobierno]);
+
+  useEffect(() => {
+    setPliegos([]);
+    if (!abierto || !yearValido || !campos.sector) return;
+    cargarOpciones('pliego', { nivelGobierno: campos.nivelGobierno, sector: campos.sector }).then(setPliegos);
+  }, [abierto, campos.year, campos.tipo, campos.nivelGobierno, campos.sector]);
+
+  // Al cambiar un filtro se vacían los que dependen de él
+  const cambiar = (cambios: Partial<CamposConsulta>) => {
+    setConstruida(null);
+    setCampos(actual => {
+      const siguiente = { ...actual, ...cambios };
+      if ('nivelGobierno' in cambios) siguiente.sector = '';
+      if ('nivelGobierno' in cambios || 'sector' in cambios) siguiente.pliego = '';
+      const dimension = DIMENSIONES_CONSULTA.find(d => d.id === siguiente.dimension);
+      if (dimension && !dimension.tipos.includes(siguiente.tipo)) siguiente.dimension = '';
+      return siguiente;
+    });
+  };
+
+  const ejecutar = async (accion: 'construir' | 'analizar') => {
+    setCargando('consulta');
+    try {
+      const data = await pedirConsulta(accion, accion === 'construir' ? campos : { url });
+      setCampos(data.campos);
+      setConstruida(data);
+      if (accion === 'construir') onUsar(data.url);
+    } catch (err: any) {
+      onError(err.message, { tipo: err.tipo, estado: err.estado });
+    } finally {
+      setCargando(null);
+    }
+  };
+
+  return (
+    <div className="mt-3 text-sm">
+      <button
+        onClick={() => setAbierto(!abierto)}
+        className="flex items-center gap-1.5 text-primary font-bold hover:underline"
+      >
+        <SlidersHorizontal className="w-4 h-4" />
+        Armar la consulta con el formulario
+        {abierto ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+      </button>
+      {abierto && (
+        <div className="mt-3 p-4 bg-background-light dark:bg-slate-800/50 border border-primary/10 rounded-lg flex flex-col gap-3 text-slate-600 dark:text-slate-400">
+          <div className="flex flex-wrap items-center gap-3">
+            <label className="flex items-center gap-2">
+              Año
+              <input
+                type="number"
+                className={`w-24 ${clasesSelect}`}
+                value={campos.year || ''}
+                onChange={(e) => cambiar({ year: Number(e.target.value) })}
+              />
+            </label>
+            <label className="flex items-center gap-2">
+              Tipo
+              <select
+                className={clasesSelect}
+                value={campos.tipo}
+                onChange={(e) => cambiar({ tipo: e.target.value as TipoConsulta })}
+              >
+                {(Object.keys(TIPOS_CONSULTA) as TipoConsulta[]).map(tipo => (
+                  <option key={tipo} value={tipo}>{TIPOS_CONSULTA[tipo].etiqueta}</option>
+                ))}
+              </select>
+            </label>
+            <label className="flex items-center gap-2">
+              Nivel de gobierno
+              <select
+                className={clasesSelect}
+                value={campos.nivelGobierno}
+                onChange={(e) => cambiar({ nivelGobierno: e.target.value })}
+              >
+                <OpcionesFiltro opciones={NIVELES_GOBIERNO} valor={campos.nivelGobierno} />
+              </select>
+            </label>
+            <label className="flex items-center gap-2">
+              Sector
+              <select
+                className={`max-w-[14rem] ${clasesSelect}`}
+                value={campos.sector}
+                disabled={!campos.nivelGobierno || cargando === 'sectores'}
+                onChange={(e) => cambiar({ sector: e.target.value })}
+              >
+                <OpcionesFiltro opciones={sectores} valor={campos.sector} />
+              </select>
+              {cargando === 'sectores' && <Loader2 className="w-4 h-4 animate-spin text-primary" />}
+            </label>
+            <label className="flex items-center gap-2">
+              Pliego
+              <select
+                className={`max-w-[14rem] ${clasesSelect}`}
+                value={campos.pliego}
+                disabled={!campos.sector || cargando === 'pliegos'}
+                onChange={(e) => cambiar({ pliego: e.target.value })}
+              >
+                <OpcionesFiltro opciones={pliegos} valor={campos.pliego} />
+              </select>
+              {cargando === 'pliegos' && <Loader2 className="w-4 h-4 animate-spin text-primary" />}
+            </label>
+            <label className="flex items-center gap-2">
+              Agrupar por
+              <select
+                className={clasesSelect}
+                value={campos.dimension}
+                onChange={(e) => cambiar({ dimension: e.target.value })}
+              >
+                <option value="">Elija una dimensión</option>
+                {DIMENSIONES_CONSULTA.filter(d => d.tipos.includes(campos.tipo)).map(d => (
+                  <option key={d.id} value={d.id}>{d.etiqueta}</option>
+                ))}
+              </select>
+            </label>
+          </div>
+          <div className="flex flex-wrap items-center gap-3">
+            <button
+              onClick={() => ejecutar('construir')}
+              disabled={cargando !== null || !yearValido || !campos.dimension}
+              className="flex items-center gap-2 px-4 py-1.5 bg-primary hover:bg-primary/90 disabled:bg-primary/50 text-white font-bold rounded-lg transition-all"
+            >
+              {cargando === 'consulta' && <Loader2 className="w-4 h-4 animate-spin" />}
+              Generar enlace
+            </button>
+            <button
+              onClick={() => ejecutar('analizar')}
+              disabled={cargando !== null || !url}
+              title="Precarga el formulario con los filtros del enlace pegado arriba"
+              className="px-4 py-1.5 rounded-lg border border-primary/20 text-primary font-bold hover:bg-primary/5 disabled:opacity-50 transition-colors"
+            >
+              Leer el enlace pegado
+            </button>
+          </div>
+          {construida && (
+            <div className="flex items-start gap-2 text-xs">
+              <CheckCircle2 className="w-4 h-4 text-emerald-600 flex-shrink-0" />
+              <div className="min-w-0">
+                <p>Consulta validada en Consulta Amigable: {construida.opciones.length} filas.</p>
+                <p className="font-mono text-slate-500 break-all select-all">{construida.url}</p>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,96 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Upload, Loader2 } from 'lucide-react';
+
+interface SerieDeflactor {
+  serie: string;
+  puntos: number;
+  desde: string;
+  hasta: string;
+}
+
+interface ControlDeflactorProps {
+  deflactor: string;
+  yearBase: string;
+  onDeflactorChange: (serie: string) => void;
+  onYearBaseChange: (year: string) => void;
+  onError: (mensaje: string) => void;
+}
+
+export default function ControlDeflactor({ deflactor, yearBase, onDeflactorChange, onYearBaseChange, onError }: ControlDeflactorProps) {
+  const [series, setSeries] = useState<SerieDeflactor[]>([]);
+  const [subiendo, setSubiendo] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    fetch('/api/deflactores')
+      .then(response => response.json())
+      .then(data => setSeries(data.series || []))
+      .catch(() => setSeries([]));
+  }, []);
+
+  const handleArchivo = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const archivo = e.target.files?.[0];
+    e.target.value = '';
+    if (!archivo) return;
+
+    setSubiendo(true);
+    try {
+      const serie = archivo.name.replace(/\.[^.]+$/, '').replace(/[^\w-]+/g, '-').slice(0, 40);
+      const response = await fetch('/api/deflactores', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ serie, csv: await archivo.text() })
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Error al cargar el archivo de deflactores');
+      }
+
+      setSeries(data.series);
+      onDeflactorChange(serie);
+    } catch (err: any) {
+      onError(err.message);
+    } finally {
+      setSubiendo(false);
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      Deflactor
+      <select 
+        className="px-3 py-1.5 bg-background-light dark:bg-slate-800 border-none rounded-lg focus:ring-2 focus:ring-primary/20 outline-none"
+        title="Serie de índices de precios para calcular montos reales"
+        value={deflactor}
+        onChange={(e) => onDeflactorChange(e.target.value)}
+      >
+        <option value="">Sin deflactar</option>
+        {series.map(s => (
+          <option key={s.serie} value={s.serie}>{s.serie} ({s.desde}–{s.hasta})</option>
+        ))}
+      </select>
+      {deflactor && (
+        <input 
+          type="number" 
+          className="w-28 px-3 py-1.5 bg-background-light dark:bg-slate-800 border-none rounded-lg focus:ring-2 focus:ring-primary/20 outline-none placeholder:text-slate-400"
+          placeholder="Año base"
+          title="Año base de los precios constantes. Vacío usa el año actual de la consulta."
+          value={yearBase}
+          onChange={(e) => onYearBaseChange(e.target.value)}
+        />
+      )}
+      <button 
+        onClick={() => inputRef.current?.click()}
+        disabled={subiendo}
+        title="Cargar un CSV con columnas año (o año-mes) e índice"
+        className="p-1.5 text-slate-500 hover:text-primary hover:bg-primary/5 rounded-lg transition-colors"
+      >
+        {subiendo ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+      </button>
+      <input ref={inputRef} type="file" accept=".csv,text/csv,text/plain" className="hidden" onChange={handleArchivo} />
+    </div>
+  );
+}
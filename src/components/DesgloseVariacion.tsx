@@ -0,0 +1,266 @@
+import React, { useMemo, useState } from 'react';
+import { BarChart3, X } from 'lucide-react';
+import {
+  BarChart,
+  Bar,
+  ComposedChart,
+  Line,
+  Treemap,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  Cell,
+  LabelList
+} from 'recharts';
+import { ConceptoData, MetricaInfo, TotalesData } from '../types';
+import { FormatoNumeros, formatCifra, formatNumber, formatPorcentaje, formatValor, formatVariacion, unidadMetrica } from '../lib/format';
+import { OPCIONES_TOP_N, TOP_N_POR_DEFECTO, conceptosParaCubrir, filasPareto, nodosMapa, pasosCascada } from '../lib/contribucion';
+
+interface DesgloseVariacionProps {
+  data: ConceptoData[];
+  totales: TotalesData;
+  metrica: MetricaInfo;
+  formato: FormatoNumeros;
+  corte: string;
+  // Rótulos de las barras de total
+  etiquetas: { anterior: string; actual: string };
+  // Filtro de la tabla de detalle; un clic en un concepto lo reemplaza
+  filtro: string;
+  onFiltrar: (concepto: string) => void;
+}
+
+type VistaDesglose = 'cascada' | 'pareto' | 'mapa';
+
+const VISTAS: { id: VistaDesglose; etiqueta: string; soloMontos: boolean }[] = [
+  { id: 'cascada', etiqueta: 'Cascada', soloMontos: true },
+  { id: 'pareto', etiqueta: 'Pareto', soloMontos: false },
+  { id: 'mapa', etiqueta: 'Mapa por monto', soloMontos: true }
+];
+
+const COLORES = {
+  total: '#003366',
+  alza: '#059669',
+  baja: '#e11d48',
+  otros: '#94a3b8',
+  nuevo: '#2563eb'
+};
+
+// Participación acumulada que se resume debajo del Pareto
+const META_PARETO = 80;
+const ALTO_FILA = 30;
+const ANCHO_ROTULO = 240;
+
+const recortar = (texto: string, largo = 34) => texto.length > largo ? `${texto.slice(0, largo - 1)}…` : texto;
+
+function CuadroTooltip({ titulo, lineas }: { titulo: string; lineas: string[] }) {
+  return (
+    <div className="bg-white dark:bg-slate-900 rounded-lg shadow-md px-3 py-2 text-xs max-w-xs">
+      <p className="font-bold text-slate-800 dark:text-slate-200">{titulo}</p>
+      {lineas.map(linea => <p key={linea} className="text-slate-500 mt-0.5">{linea}</p>)}
+    </div>
+  );
+}
+
+export default function DesgloseVariacion({ data, totales, metrica, formato, corte, etiquetas, filtro, onFiltrar }: DesgloseVariacionProps) {
+  const soloPorcentajes = metrica.tipo === 'porcentaje';
+  const [vista, setVista] = useState<VistaDesglose>(soloPorcentajes ? 'pareto' : 'cascada');
+  const [topN, setTopN] = useState(TOP_N_POR_DEFECTO);
+  const unidad = unidadMetrica(metrica.tipo, formato);
+  // Las cascadas y el mapa suman montos: con una métrica porcentual solo queda el Pareto
+  const vistaActiva = soloPorcentajes ? 'pareto' : vista;
+
+  const variacion = (valor: number) => metrica.tipo === 'monto'
+    ? `S/ ${formatVariacion(valor, metrica.tipo, formato)}`
+    : `${formatVariacion(valor, metrica.tipo, formato)} p.p.`;
+
+  const pasos = useMemo(() => pasosCascada(data, totales, topN, etiquetas).map(paso => ({
+    ...paso,
+    rotulo: paso.tipo === 'total' ? formatCifra(paso.valor, metrica.tipo, formato) : formatVariacion(paso.valor, metrica.tipo, formato)
+  })), [data, totales, topN, etiquetas.anterior, etiquetas.actual, metrica, formato]);
+  const pareto = useMemo(() => filasPareto(data, topN), [data, topN]);
+  const cubren = useMemo(() => conceptosParaCubrir(data, META_PARETO), [data]);
+  const nodos = useMemo(() => nodosMapa(data, topN), [data, topN]);
+
+  // Un segundo clic sobre el concepto filtrado quita el filtro
+  const seleccionar = (concepto: string | null) => {
+    if (concepto) onFiltrar(concepto === filtro ? '' : concepto);
+  };
+  const atenuar = (concepto: string | null) => filtro && concepto !== filtro ? 0.35 : 1;
+  const filtroEsConcepto = data.some(item => item.concepto === filtro);
+
+  const altoBarras = (filas: number) => Math.max(240, filas * ALTO_FILA + 50);
+
+  return (
+    <div className="bg-white dark:bg-slate-900 p-6 rounded-xl border border-primary/5 shadow-sm mb-8">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 mb-4">
+        <h3 className="text-lg font-bold text-slate-900 dark:text-white flex items-center gap-2">
+          <BarChart3 className="w-5 h-5" />
+          Qué explica la variación ({unidad}{corte})
+        </h3>
+        <div className="flex flex-wrap items-center gap-2 text-xs font-bold print:hidden">
+          <div className="flex gap-1 p-1 bg-background-light dark:bg-slate-800 rounded-lg">
+            {VISTAS.map(opcion => (
+              <button
+                key={opcion.id}
+                onClick={() => setVista(opcion.id)}
+                disabled={opcion.soloMontos && soloPorcentajes}
+                title={opcion.soloMontos && soloPorcentajes ? 'Solo para métricas expresadas en montos' : undefined}
+                className={`px-3 py-1 rounded-md transition-colors disabled:opacity-40 ${vistaActiva === opcion.id ? 'bg-primary text-white' : 'text-slate-500 hover:text-primary'}`}
+              >
+                {opcion.etiqueta}
+              </button>
+            ))}
+          </div>
+          <select
+            className="px-2 py-1.5 bg-background-light dark:bg-slate-800 border-none rounded-lg focus:ring-2 focus:ring-primary/20 outline-none"
+            value={topN}
+            onChange={(e) => setTopN(Number(e.target.value))}
+            title="Conceptos que se muestran por separado; el resto se agrupa en «Otros»"
+          >
+            {OPCIONES_TOP_N.map(n => (
+              <option key={n} value={n}>Top {n}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {filtroEsConcepto && (
+        <p className="flex items-center gap-2 mb-3 text-xs text-slate-500 print:hidden">
+          Detalle filtrado por «{filtro}».
+          <button onClick={() => onFiltrar('')} className="flex items-center gap-1 font-bold text-primary hover:underline">
+            <X className="w-3 h-3" />
+            Quitar filtro
+          </button>
+        </p>
+      )}
+
+      {vistaActiva === 'cascada' && (
+        <ResponsiveContainer width="100%" height={altoBarras(pasos.length)}>
+          <BarChart data={pasos} layout="vertical" margin={{ top: 5, right: 70, left: 10, bottom: 5 }}>
+            <CartesianGrid strokeDasharray="3 3" horizontal={false} stroke="#e2e8f0" />
+            <XAxis type="number" tickFormatter={(value) => formatCifra(value, metrica.tipo, formato)} />
+            <YAxis type="category" dataKey="etiqueta" width={ANCHO_ROTULO} interval={0} tick={{ fontSize: 12 }} tickFormatter={(texto) => recortar(texto)} />
+            <Tooltip
+              cursor={{ fill: 'rgba(0, 51, 102, 0.05)' }}
+              content={({ active, payload }: any) => {
+                if (!active || !payload?.length) return null;
+                const paso = payload[0].payload;
+                return (
+                  <CuadroTooltip
+                    titulo={paso.etiqueta}
+                    lineas={paso.tipo === 'total'
+                      ? [formatValor(paso.valor, metrica.tipo, formato)]
+                      : [`Variación: ${variacion(paso.valor)}`, ...(paso.concepto ? ['Clic para filtrar el detalle'] : [])]}
+                  />
+                );
+              }}
+            />
+            <Bar dataKey="base" stackId="cascada" fill="transparent" isAnimationActive={false} />
+            <Bar dataKey="alto" stackId="cascada" cursor="pointer" onClick={(barra: any) => seleccionar(barra?.payload?.concepto ?? null)}>
+              {pasos.map((paso, idx) => (
+                <Cell key={idx} fill={COLORES[paso.tipo]} fillOpacity={atenuar(paso.concepto)} />
+              ))}
+              <LabelList dataKey="rotulo" position="right" fontSize={11} fill="#64748b" />
+            </Bar>
+          </BarChart>
+        </ResponsiveContainer>
+      )}
+
+      {vistaActiva === 'pareto' && (
+        pareto.length === 0 ? (
+          <p className="py-8 text-center text-sm text-slate-400">No hay variaciones entre los dos periodos.</p>
+        ) : (
+          <>
+            <ResponsiveContainer width="100%" height={altoBarras(pareto.length)}>
+              <ComposedChart data={pareto} layout="vertical" margin={{ top: 5, right: 30, left: 10, bottom: 5 }}>
+                <CartesianGrid strokeDasharray="3 3" horizontal={false} stroke="#e2e8f0" />
+                <XAxis xAxisId="variacion" type="number" tickFormatter={(value) => formatCifra(value, metrica.tipo, formato)} />
+                <XAxis xAxisId="acumulada" type="number" orientation="top" domain={[0, 100]} tickFormatter={(value) => `${value}%`} />
+                <YAxis type="category" dataKey="etiqueta" width={ANCHO_ROTULO} interval={0} tick={{ fontSize: 12 }} tickFormatter={(texto) => recortar(texto)} />
+                <Tooltip
+                  cursor={{ fill: 'rgba(0, 51, 102, 0.05)' }}
+                  content={({ active, payload }: any) => {
+                    if (!active || !payload?.length) return null;
+                    const fila = payload[0].payload;
+                    return (
+                      <CuadroTooltip
+                        titulo={fila.etiqueta}
+                        lineas={[
+                          `Variación: ${variacion(fila.variacion)}`,
+                          `Participación: ${formatNumber(fila.participacion, 1)}% · Acumulada: ${formatNumber(fila.acumulada, 1)}%`,
+                          ...(fila.concepto ? ['Clic para filtrar el detalle'] : [])
+                        ]}
+                      />
+                    );
+                  }}
+                />
+                <Bar xAxisId="variacion" dataKey="absoluta" cursor="pointer" onClick={(barra: any) => seleccionar(barra?.payload?.concepto ?? null)}>
+                  {pareto.map((fila, idx) => (
+                    <Cell key={idx} fill={fila.concepto ? (fila.variacion >= 0 ? COLORES.alza : COLORES.baja) : COLORES.otros} fillOpacity={atenuar(fila.concepto)} />
+                  ))}
+                </Bar>
+                <Line xAxisId="acumulada" dataKey="acumulada" stroke={COLORES.total} strokeWidth={2} dot={{ r: 3 }} isAnimationActive={false} />
+              </ComposedChart>
+            </ResponsiveContainer>
+            <p className="mt-2 text-xs text-slate-500">
+              {cubren} de {data.filter(item => item.variacionS !== 0).length} conceptos con variación explican el {META_PARETO}% de la variación absoluta.
+              Las barras muestran la variación absoluta (alzas en verde, bajas en rojo) y la línea, la participación acumulada.
+            </p>
+          </>
+        )
+      )}
+
+      {vistaActiva === 'mapa' && (
+        <ResponsiveContainer width="100%" height={420}>
+          <Treemap
+            data={nodos}
+            dataKey="size"
+            nameKey="name"
+            aspectRatio={4 / 3}
+            isAnimationActive={false}
+            onClick={(nodo) => seleccionar((nodo.concepto as string | null) ?? null)}
+            content={(nodo) => {
+              if (nodo.depth !== 1) return <g />;
+              const { x, y, width, height, name } = nodo;
+              const concepto = nodo.concepto as string | null;
+              const color = !concepto ? COLORES.otros : nodo.nuevo ? COLORES.nuevo : (nodo.variacionS as number) >= 0 ? COLORES.alza : COLORES.baja;
+              const caben = Math.floor((width - 8) / 7);
+              return (
+                <g style={{ cursor: concepto ? 'pointer' : 'default' }}>
+                  <rect x={x} y={y} width={width} height={height} fill={color} fillOpacity={0.85 * atenuar(concepto)} stroke="#fff" strokeWidth={2} />
+                  {width > 60 && height > 34 && (
+                    <>
+                      <text x={x + 6} y={y + 16} fill="#fff" fontSize={11} fontWeight={700}>{recortar(name, caben)}</text>
+                      <text x={x + 6} y={y + 30} fill="#fff" fontSize={10}>
+                        {formatCifra(nodo.value, metrica.tipo, formato)} · {formatPorcentaje(nodo.variacionPorcentaje as number | null, nodo.nuevo as boolean)}
+                      </text>
+                    </>
+                  )}
+                </g>
+              );
+            }}
+          >
+            <Tooltip
+              content={({ active, payload }: any) => {
+                if (!active || !payload?.length) return null;
+                const nodo = payload[0].payload;
+                return (
+                  <CuadroTooltip
+                    titulo={nodo.name}
+                    lineas={[
+                      `${etiquetas.actual}: ${formatValor(nodo.size, metrica.tipo, formato)}`,
+                      `Variación: ${variacion(nodo.variacionS)} (${formatPorcentaje(nodo.variacionPorcentaje, nodo.nuevo)})`,
+                      ...(nodo.concepto ? ['Clic para filtrar el detalle'] : [])
+                    ]}
+                  />
+                );
+              }}
+            />
+          </Treemap>
+        </ResponsiveContainer>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,57 @@
+import React from 'react';
+import { Link as LinkIcon } from 'lucide-react';
+import { ListaLote, ModoLote, entidadesDesdeTexto } from '../lib/lote';
+
+interface EntradaLoteProps {
+  entrada: ListaLote;
+  onChange: (entrada: ListaLote) => void;
+}
+
+const MODOS: { id: ModoLote; etiqueta: string }[] = [
+  { id: 'urls', etiqueta: 'Lista de URLs' },
+  { id: 'codigos', etiqueta: 'Plantilla y códigos' }
+];
+
+export default function EntradaLote({ entrada, onChange }: EntradaLoteProps) {
+  const cantidad = entidadesDesdeTexto(entrada).length;
+
+  return (
+    <div className="flex-grow flex flex-col gap-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="inline-flex rounded-lg border border-primary/10 p-0.5 text-xs font-bold">
+          {MODOS.map(modo => (
+            <button
+              key={modo.id}
+              onClick={() => onChange({ ...entrada, modo: modo.id })}
+              className={`px-3 py-1 rounded-md transition-colors ${entrada.modo === modo.id ? 'bg-primary text-white' : 'text-slate-500 hover:text-primary'}`}
+            >
+              {modo.etiqueta}
+            </button>
+          ))}
+        </div>
+        <span className="text-xs text-slate-400">{cantidad} {cantidad === 1 ? 'entidad' : 'entidades'}</span>
+      </div>
+      {entrada.modo === 'codigos' && (
+        <div className="relative">
+          <LinkIcon className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400 w-5 h-5" />
+          <input
+            type="text"
+            className="w-full pl-10 pr-4 py-3 bg-background-light dark:bg-slate-800 border-none rounded-lg focus:ring-2 focus:ring-primary/20 placeholder:text-slate-400 outline-none"
+            placeholder="Enlace con {codigo} en lugar del código de la entidad..."
+            value={entrada.plantilla}
+            onChange={(e) => onChange({ ...entrada, plantilla: e.target.value })}
+          />
+        </div>
+      )}
+      <textarea
+        rows={5}
+        className="w-full px-4 py-3 bg-background-light dark:bg-slate-800 border-none rounded-lg focus:ring-2 focus:ring-primary/20 placeholder:text-slate-400 outline-none text-sm font-mono"
+        placeholder={entrada.modo === 'urls'
+          ? 'Una URL por línea. Opcional: URL | Etiqueta'
+          : 'Un código por línea. Opcional: código | Etiqueta (por ejemplo, 01 | Amazonas)'}
+        value={entrada.texto}
+        onChange={(e) => onChange({ ...entrada, texto: e.target.value })}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,70 @@
+import React from 'react';
+import { Database, RefreshCw, Loader2 } from 'lucide-react';
+import { FuenteData } from '../types';
+
+interface FuentesDatosProps {
+  fuentes: FuenteData[];
+  loading: boolean;
+  offline: boolean;
+  onActualizar: () => void;
+}
+
+export const formatFechaCaptura = (iso: string) => {
+  return new Date(iso).toLocaleString('es-PE', { dateStyle: 'short', timeStyle: 'short' });
+};
+
+const ORIGENES: Record<FuenteData['origen'], { etiqueta: string; color: string }> = {
+  cache: { etiqueta: 'caché', color: 'text-amber-600' },
+  red: { etiqueta: 'en línea', color: 'text-emerald-600' },
+  archivo: { etiqueta: 'archivo', color: 'text-violet-600' }
+};
+
+export default function FuentesDatos({ fuentes, loading, offline, onActualizar }: FuentesDatosProps) {
+  // Las páginas cargadas como archivo no tienen una URL del MEF que volver a consultar
+  const soloArchivos = fuentes.every(fuente => fuente.origen === 'archivo');
+
+  return (
+    <div className="bg-white dark:bg-slate-900 px-6 py-4 rounded-xl border border-primary/5 shadow-sm mb-8 flex flex-col md:flex-row md:items-center justify-between gap-4">
+      <div className="flex flex-wrap items-center gap-2 text-xs">
+        <span className="font-bold text-slate-500 uppercase tracking-wider flex items-center gap-1 mr-2">
+          <Database className="w-4 h-4" />
+          Datos capturados
+        </span>
+        {fuentes.map(fuente => (
+          <a
+            key={fuente.year}
+            href={fuente.origen === 'archivo' ? undefined : fuente.url}
+            target="_blank"
+            rel="noreferrer"
+            title={fuente.url}
+            className="px-2 py-1 rounded bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-300 hover:text-primary transition-colors"
+          >
+            <span className="font-bold">{fuente.year}</span>: {formatFechaCaptura(fuente.fetchedAt)}
+            <span className={`ml-1 font-bold ${ORIGENES[fuente.origen].color}`}>
+              ({ORIGENES[fuente.origen].etiqueta})
+            </span>
+          </a>
+        ))}
+        {/* En el reporte impreso las URLs completas reemplazan a los enlaces */}
+        <ul className="hidden print:block w-full mt-2 space-y-1 text-[10px] text-slate-500 break-all">
+          {fuentes.map(fuente => (
+            <li key={fuente.year}>
+              <span className="font-bold">{fuente.year}</span> ({formatFechaCaptura(fuente.fetchedAt)}, {ORIGENES[fuente.origen].etiqueta}): {fuente.url}
+            </li>
+          ))}
+        </ul>
+      </div>
+      <button
+        onClick={onActualizar}
+        disabled={loading || offline || soloArchivos}
+        title={soloArchivos
+          ? 'Los datos provienen de archivos cargados'
+          : offline ? 'Desactive el modo sin conexión para volver a consultar el MEF' : 'Volver a consultar el MEF ignorando la caché'}
+        className="px-4 py-2 text-sm font-bold text-primary border border-primary/20 hover:bg-primary/5 disabled:opacity-50 rounded-lg transition-colors flex items-center justify-center gap-2 whitespace-nowrap print:hidden"
+      >
+        {loading ? <Loader2 className="w-4 h-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />}
+        Forzar actualización
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,128 @@
+import React, { useState } from 'react';
+import { Bookmark, Loader2, Copy, CheckCircle2 } from 'lucide-react';
+import { AnalisisGuardado } from '../types';
+
+interface GuardarAnalisisProps {
+  analisis: Pick<AnalisisGuardado, 'parametros' | 'vista' | 'datos'>;
+  onGuardado: (analisis: AnalisisGuardado) => void;
+  onError: (mensaje: string) => void;
+}
+
+// Enlace permanente que reabre el análisis con sus datos y su vista
+export const enlaceAnalisis = (id: string) => `${window.location.origin}${window.location.pathname}?analisis=${id}`;
+
+export default function GuardarAnalisis({ analisis, onGuardado, onError }: GuardarAnalisisProps) {
+  const [abierto, setAbierto] = useState(false);
+  const [nombre, setNombre] = useState('');
+  const [notas, setNotas] = useState('');
+  const [guardando, setGuardando] = useState(false);
+  const [guardado, setGuardado] = useState<AnalisisGuardado | null>(null);
+  const [copiado, setCopiado] = useState(false);
+
+  const alternar = () => {
+    setAbierto(!abierto);
+    setGuardado(null);
+    setCopiado(false);
+  };
+
+  const handleGuardar = async () => {
+    setGuardando(true);
+    try {
+      const response = await fetch('/api/analisis', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ ...analisis, nombre, notas })
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Error al guardar el análisis');
+      }
+
+      setGuardado(data);
+      setNombre('');
+      setNotas('');
+      onGuardado(data);
+    } catch (err: any) {
+      onError(err.message);
+    } finally {
+      setGuardando(false);
+    }
+  };
+
+  const copiar = async () => {
+    try {
+      await navigator.clipboard.writeText(enlaceAnalisis(guardado!.id));
+      setCopiado(true);
+    } catch {
+      onError('No se pudo copiar el enlace; cópielo desde la barra de direcciones.');
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={alternar}
+        className="flex items-center gap-2 px-3 py-1.5 bg-white dark:bg-slate-900 border border-primary/10 rounded-lg font-bold text-slate-600 dark:text-slate-300 hover:text-primary transition-colors"
+      >
+        <Bookmark className="w-4 h-4" />
+        Guardar análisis
+      </button>
+      {abierto && (
+        <div className="absolute right-0 mt-2 w-80 p-4 bg-white dark:bg-slate-900 border border-primary/10 rounded-xl shadow-lg z-20 flex flex-col gap-3">
+          {guardado ? (
+            <>
+              <p className="flex items-center gap-2 font-semibold text-slate-700 dark:text-slate-300">
+                <CheckCircle2 className="w-4 h-4 text-emerald-600" />
+                Guardado como «{guardado.nombre}»
+              </p>
+              <p className="text-xs text-slate-500">Este enlace reabre la misma vista con los datos capturados:</p>
+              <div className="flex items-center gap-2">
+                <input
+                  type="text"
+                  readOnly
+                  className="flex-grow min-w-0 px-3 py-1.5 bg-background-light dark:bg-slate-800 border-none rounded-lg text-xs font-mono outline-none"
+                  value={enlaceAnalisis(guardado.id)}
+                  onFocus={(e) => e.target.select()}
+                />
+                <button onClick={copiar} title="Copiar enlace" className="p-1.5 text-slate-500 hover:text-primary hover:bg-primary/5 rounded-lg transition-colors">
+                  {copiado ? <CheckCircle2 className="w-4 h-4 text-emerald-600" /> : <Copy className="w-4 h-4" />}
+                </button>
+              </div>
+            </>
+          ) : (
+            <>
+              <input
+                type="text"
+                maxLength={120}
+                className="px-3 py-1.5 bg-background-light dark:bg-slate-800 border-none rounded-lg focus:ring-2 focus:ring-primary/20 outline-none placeholder:text-slate-400"
+                placeholder="Nombre del análisis"
+                value={nombre}
+                onChange={(e) => setNombre(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && nombre.trim() && handleGuardar()}
+              />
+              <textarea
+                rows={3}
+                maxLength={2000}
+                className="px-3 py-1.5 bg-background-light dark:bg-slate-800 border-none rounded-lg focus:ring-2 focus:ring-primary/20 outline-none placeholder:text-slate-400"
+                placeholder="Notas (opcional)"
+                value={notas}
+                onChange={(e) => setNotas(e.target.value)}
+              />
+              <button
+                onClick={handleGuardar}
+                disabled={guardando || !nombre.trim()}
+                className="flex items-center justify-center gap-2 px-4 py-1.5 bg-primary hover:bg-primary/90 disabled:bg-primary/50 text-white font-bold rounded-lg transition-all"
+              >
+                {guardando && <Loader2 className="w-4 h-4 animate-spin" />}
+                Guardar
+              </button>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,139 @@
+import React, { useState } from 'react';
+import { History, Trash2, Link as LinkIcon } from 'lucide-react';
+import { AnalisisGuardado, Trabajo } from '../types';
+import { formatFechaCaptura } from './FuentesDatos';
+import { enlaceAnalisis } from './GuardarAnalisis';
+
+interface HistorialAnalisisProps {
+  deshabilitado: boolean;
+  onAbrirAnalisis: (id: string) => void;
+  onAbrirTrabajo: (id: string) => void;
+  onError: (mensaje: string) => void;
+}
+
+// Ejecuciones terminadas que se listan en el historial
+const LIMITE_HISTORIAL = 100;
+
+export default function HistorialAnalisis({ deshabilitado, onAbrirAnalisis, onAbrirTrabajo, onError }: HistorialAnalisisProps) {
+  const [abierto, setAbierto] = useState(false);
+  const [pestana, setPestana] = useState<'guardados' | 'historial'>('guardados');
+  const [analisis, setAnalisis] = useState<AnalisisGuardado[]>([]);
+  const [ejecuciones, setEjecuciones] = useState<Trabajo[]>([]);
+
+  const cargar = async () => {
+    try {
+      const [respuestaAnalisis, respuestaTrabajos] = await Promise.all([
+        fetch('/api/analisis'),
+        fetch(`/api/trabajos?limite=${LIMITE_HISTORIAL}`)
+      ]);
+      const datosAnalisis = await respuestaAnalisis.json();
+      const datosTrabajos = await respuestaTrabajos.json();
+      if (respuestaAnalisis.ok) setAnalisis(datosAnalisis.analisis);
+      if (respuestaTrabajos.ok) setEjecuciones(datosTrabajos.trabajos.filter((t: Trabajo) => t.estado === 'completado'));
+    } catch {
+      // El listado es informativo; se reintenta al volver a abrirlo
+    }
+  };
+
+  const alternar = () => {
+    if (!abierto) cargar();
+    setAbierto(!abierto);
+  };
+
+  const eliminar = async (item: AnalisisGuardado) => {
+    if (!window.confirm(`¿Eliminar el análisis «${item.nombre}»? Su enlace dejará de funcionar.`)) return;
+    try {
+      const response = await fetch(`/api/analisis/${item.id}`, { method: 'DELETE' });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Error al eliminar el análisis');
+      }
+      setAnalisis(data.analisis);
+    } catch (err: any) {
+      onError(err.message);
+    }
+  };
+
+  const copiarEnlace = (id: string) => {
+    navigator.clipboard.writeText(enlaceAnalisis(id)).catch(() => onError('No se pudo copiar el enlace.'));
+  };
+
+  return (
+    <div className="relative print:hidden">
+      <button
+        onClick={alternar}
+        title="Análisis guardados e historial"
+        className="p-2 text-slate-500 hover:bg-primary/5 rounded-full transition-colors"
+      >
+        <History className="w-5 h-5" />
+      </button>
+      {abierto && (
+        <div className="absolute right-0 mt-2 w-96 max-h-[28rem] overflow-y-auto bg-white dark:bg-slate-900 border border-primary/10 rounded-xl shadow-lg z-20">
+          <div className="px-4 py-3 border-b border-primary/5 flex gap-1 text-xs font-bold">
+            {([['guardados', 'Guardados'], ['historial', 'Historial de ejecuciones']] as const).map(([opcion, etiqueta]) => (
+              <button
+                key={opcion}
+                onClick={() => setPestana(opcion)}
+                className={`px-3 py-1 rounded-md transition-colors ${pestana === opcion ? 'bg-primary text-white' : 'text-slate-500 hover:text-primary'}`}
+              >
+                {etiqueta}
+              </button>
+            ))}
+          </div>
+          {pestana === 'guardados' ? (
+            analisis.length === 0 ? (
+              <p className="px-4 py-6 text-sm text-slate-400 text-center">Aún no hay análisis guardados.</p>
+            ) : (
+              <ul className="divide-y divide-primary/5">
+                {analisis.map(item => (
+                  <li key={item.id} className="flex items-start gap-1 px-2 hover:bg-primary/5 transition-colors">
+                    <button
+                      onClick={() => { setAbierto(false); onAbrirAnalisis(item.id); }}
+                      disabled={deshabilitado}
+                      className="flex-grow min-w-0 text-left px-2 py-3 disabled:opacity-50"
+                    >
+                      <span className="block text-sm font-medium text-slate-700 dark:text-slate-300 truncate" title={item.nombre}>
+                        {item.nombre}
+                      </span>
+                      <span className="block text-xs text-slate-400 mt-1 truncate" title={item.notas}>
+                        {formatFechaCaptura(item.creadoEn)}{item.notas ? ` · ${item.notas}` : ''}
+                      </span>
+                    </button>
+                    <button onClick={() => copiarEnlace(item.id)} title="Copiar enlace permanente" className="p-1.5 mt-2.5 text-slate-400 hover:text-primary rounded-lg">
+                      <LinkIcon className="w-4 h-4" />
+                    </button>
+                    <button onClick={() => eliminar(item)} title="Eliminar" className="p-1.5 mt-2.5 text-slate-400 hover:text-rose-600 rounded-lg">
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )
+          ) : ejecuciones.length === 0 ? (
+            <p className="px-4 py-6 text-sm text-slate-400 text-center">Aún no hay ejecuciones terminadas.</p>
+          ) : (
+            <ul className="divide-y divide-primary/5">
+              {ejecuciones.map(ejecucion => (
+                <li key={ejecucion.id}>
+                  <button
+                    onClick={() => { setAbierto(false); onAbrirTrabajo(ejecucion.id); }}
+                    disabled={deshabilitado}
+                    title="Abre el resultado guardado de la ejecución, sin volver a consultar al MEF"
+                    className="w-full text-left px-4 py-3 hover:bg-primary/5 disabled:opacity-50 transition-colors"
+                  >
+                    <span className="block text-sm font-medium text-slate-700 dark:text-slate-300 truncate" title={ejecucion.descripcion}>
+                      {ejecucion.descripcion}
+                    </span>
+                    <span className="block text-xs text-slate-400 mt-1">
+                      {formatFechaCaptura(ejecucion.actualizadoEn)} · {ejecucion.tipo === 'lote' ? 'Lote' : 'Comparación'}
+                    </span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
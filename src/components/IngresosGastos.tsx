@@ -0,0 +1,206 @@
+import React, { useEffect, useState } from 'react';
+import { Scale, Loader2, RefreshCw } from 'lucide-react';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { BalanceData, LadoBalance, TipoConsulta } from '../types';
+import { FormatoNumeros, formatCifra, formatNumber, formatValor, formatVariacion, unidadMetrica } from '../lib/format';
+import { TIPOS_CONSULTA } from '../lib/consulta';
+
+interface IngresosGastosProps {
+  // Página del año actual de la consulta en pantalla
+  url: string;
+  tipo: TipoConsulta;
+  // Opciones de caché de la comparación, para leer las mismas capturas
+  opciones: { modo: 'online' | 'offline'; hasta?: string };
+  formato: FormatoNumeros;
+  onError: (mensaje: string) => void;
+}
+
+const COLORES = {
+  ingreso: '#059669',
+  gasto: '#003366'
+};
+
+const OTRO_TIPO: Record<TipoConsulta, TipoConsulta> = { gasto: 'ingreso', ingreso: 'gasto' };
+
+const avance = (lado: LadoBalance) => lado.pim ? `${formatNumber(lado.ejecucion / lado.pim * 100, 1)}% del PIM` : '—';
+
+function TarjetaLado({ titulo, ejecucion, lado, color, formato }: { titulo: string; ejecucion: string; lado: LadoBalance; color: string; formato: FormatoNumeros }) {
+  return (
+    <div className="p-4 rounded-lg bg-background-light dark:bg-slate-800">
+      <p className="text-xs font-bold uppercase tracking-wider" style={{ color }}>{titulo}</p>
+      <p className="text-2xl font-black text-slate-900 dark:text-white mt-1">{formatValor(lado.ejecucion, 'monto', formato)}</p>
+      <p className="text-xs text-slate-500 mt-1">{ejecucion} · {avance(lado)}</p>
+      <p className="text-xs text-slate-500">PIM {formatValor(lado.pim, 'monto', formato)} · PIA {formatValor(lado.pia, 'monto', formato)}</p>
+    </div>
+  );
+}
+
+export default function IngresosGastos({ url, tipo, opciones, formato, onError }: IngresosGastosProps) {
+  const [abierto, setAbierto] = useState(false);
+  const [cargando, setCargando] = useState(false);
+  const [balance, setBalance] = useState<BalanceData | null>(null);
+  // Enlace de la otra consulta; vacío usa el que se deduce de la URL
+  const [contraparte, setContraparte] = useState('');
+
+  // Otra consulta en pantalla invalida el contraste anterior
+  useEffect(() => {
+    setAbierto(false);
+    setBalance(null);
+    setContraparte('');
+  }, [url]);
+
+  const cargar = async (enlace = contraparte) => {
+    setCargando(true);
+    try {
+      const response = await fetch('/api/balance', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ url, contraparte: enlace.trim() || undefined, ...opciones })
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Error al contrastar ingresos y gastos');
+      }
+      setBalance(data);
+      setContraparte(data[OTRO_TIPO[tipo]].url);
+    } catch (err: any) {
+      onError(err.message);
+    } finally {
+      setCargando(false);
+    }
+  };
+
+  const abrir = () => {
+    setAbierto(true);
+    if (!balance) cargar();
+  };
+
+  const unidad = unidadMetrica('monto', formato);
+  const otro = TIPOS_CONSULTA[OTRO_TIPO[tipo]].etiqueta.toLowerCase();
+
+  if (!abierto) {
+    return (
+      <div className="flex justify-end mb-8 print:hidden">
+        <button
+          onClick={abrir}
+          title={`Contrastar con la consulta de ${otro} de la misma entidad y año`}
+          className="flex items-center gap-2 px-3 py-1.5 bg-white dark:bg-slate-900 border border-primary/10 rounded-lg text-sm font-bold text-slate-600 dark:text-slate-300 hover:text-primary transition-colors"
+        >
+          <Scale className="w-4 h-4" />
+          Ingresos y gastos
+        </button>
+      </div>
+    );
+  }
+
+  const barras = balance ? [
+    { columna: 'PIA', ingreso: balance.ingreso.pia, gasto: balance.gasto.pia },
+    { columna: 'PIM', ingreso: balance.ingreso.pim, gasto: balance.gasto.pim },
+    { columna: 'Recaudado / Devengado', ingreso: balance.ingreso.ejecucion, gasto: balance.gasto.ejecucion }
+  ] : [];
+
+  return (
+    <div className="bg-white dark:bg-slate-900 p-6 rounded-xl border border-primary/5 shadow-sm mb-8">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 mb-4">
+        <h3 className="text-lg font-bold text-slate-900 dark:text-white flex items-center gap-2">
+          <Scale className="w-5 h-5" />
+          Ingresos y gastos {balance ? balance.year : ''} ({unidad})
+        </h3>
+        <button onClick={() => setAbierto(false)} className="text-xs font-bold text-slate-500 hover:text-primary print:hidden">
+          Ocultar
+        </button>
+      </div>
+
+      <div className="flex flex-col sm:flex-row gap-2 mb-4 text-sm print:hidden">
+        <input
+          type="text"
+          className="flex-grow px-3 py-1.5 bg-background-light dark:bg-slate-800 border-none rounded-lg focus:ring-2 focus:ring-primary/20 outline-none"
+          placeholder={`Enlace de la consulta de ${otro} (vacío: misma entidad y año)`}
+          title="Para comparar concepto por concepto, use una consulta agrupada por la misma dimensión, por ejemplo rubro"
+          value={contraparte}
+          onChange={(e) => setContraparte(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && cargar()}
+        />
+        <button
+          onClick={() => cargar()}
+          disabled={cargando}
+          className="flex items-center justify-center gap-2 px-3 py-1.5 bg-primary hover:bg-primary/90 disabled:bg-primary/50 text-white font-bold rounded-lg transition-colors"
+        >
+          {cargando ? <Loader2 className="w-4 h-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />}
+          Actualizar
+        </button>
+      </div>
+
+      {!balance ? (
+        <p className="flex items-center gap-2 text-sm text-slate-500">
+          {cargando && <Loader2 className="w-4 h-4 animate-spin" />}
+          {cargando ? 'Consultando la página de contraparte…' : 'No se pudo obtener la consulta de contraparte.'}
+        </p>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+            <TarjetaLado titulo="Ingresos" ejecucion="Recaudado" lado={balance.ingreso} color={COLORES.ingreso} formato={formato} />
+            <TarjetaLado titulo="Gastos" ejecucion="Devengado" lado={balance.gasto} color={COLORES.gasto} formato={formato} />
+            <div className="p-4 rounded-lg bg-background-light dark:bg-slate-800">
+              <p className="text-xs font-bold uppercase tracking-wider text-slate-500">Saldo (ingresos − gastos)</p>
+              <p className={`text-2xl font-black mt-1 ${balance.saldo.ejecucion >= 0 ? 'text-emerald-600' : 'text-rose-600'}`}>
+                S/ {formatVariacion(balance.saldo.ejecucion, 'monto', formato)}
+              </p>
+              <p className="text-xs text-slate-500 mt-1">Recaudado menos devengado</p>
+              <p className="text-xs text-slate-500">PIM S/ {formatVariacion(balance.saldo.pim, 'monto', formato)} · PIA S/ {formatVariacion(balance.saldo.pia, 'monto', formato)}</p>
+            </div>
+          </div>
+
+          <ResponsiveContainer width="100%" height={260}>
+            <BarChart data={barras} margin={{ top: 5, right: 20, left: 20, bottom: 5 }}>
+              <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#e2e8f0" />
+              <XAxis dataKey="columna" tick={{ fontSize: 12 }} />
+              <YAxis tickFormatter={(value) => formatCifra(value, 'monto', formato)} />
+              <Tooltip formatter={(value: any) => formatValor(value, 'monto', formato)} cursor={{ fill: 'rgba(0, 51, 102, 0.05)' }} />
+              <Legend />
+              <Bar dataKey="ingreso" name="Ingresos" fill={COLORES.ingreso} />
+              <Bar dataKey="gasto" name="Gastos" fill={COLORES.gasto} />
+            </BarChart>
+          </ResponsiveContainer>
+
+          {balance.conceptos ? (
+            <div className="overflow-x-auto mt-6">
+              <p className="text-xs text-slate-500 mb-2">Por {balance.ingreso.dimension!.toLowerCase()}</p>
+              <table className="w-full text-sm text-left">
+                <thead className="text-xs uppercase text-slate-500 border-b border-primary/5">
+                  <tr>
+                    <th className="px-4 py-2">Concepto</th>
+                    <th className="px-4 py-2 text-right">Recaudado</th>
+                    <th className="px-4 py-2 text-right">Devengado</th>
+                    <th className="px-4 py-2 text-right">Saldo</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-primary/5">
+                  {balance.conceptos.map(item => (
+                    <tr key={item.concepto}>
+                      <td className="px-4 py-2 font-medium text-slate-800 dark:text-slate-200">{item.concepto}</td>
+                      <td className="px-4 py-2 text-right">{formatCifra(item.recaudado, 'monto', formato)}</td>
+                      <td className="px-4 py-2 text-right">{formatCifra(item.devengado, 'monto', formato)}</td>
+                      <td className={`px-4 py-2 text-right font-bold ${item.saldo >= 0 ? 'text-emerald-600' : 'text-rose-600'}`}>
+                        {formatVariacion(item.saldo, 'monto', formato)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ) : (
+            <p className="mt-4 text-xs text-slate-500">
+              Los ingresos se agrupan por {balance.ingreso.dimension?.toLowerCase() ?? 'una dimensión no reconocida'} y
+              los gastos por {balance.gasto.dimension?.toLowerCase() ?? 'una dimensión no reconocida'}, así que solo se contrastan los totales.
+              Para comparar concepto por concepto use en ambas consultas la misma agrupación, por ejemplo rubro o fuente de financiamiento.
+            </p>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
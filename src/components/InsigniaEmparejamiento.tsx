@@ -0,0 +1,43 @@
+import React from 'react';
+import { Link2 } from 'lucide-react';
+import { Emparejamiento, MetodoEmparejamiento } from '../types';
+
+const ETIQUETAS: Record<MetodoEmparejamiento, string> = {
+  manual: 'manual',
+  codigo: 'por código',
+  similitud: 'por similitud'
+};
+
+const ESTILOS: Record<MetodoEmparejamiento, string> = {
+  manual: 'bg-violet-100 dark:bg-violet-900/30 text-violet-700 dark:text-violet-400',
+  codigo: 'bg-sky-100 dark:bg-sky-900/30 text-sky-700 dark:text-sky-400',
+  similitud: 'bg-amber-100 dark:bg-amber-900/30 text-amber-700 dark:text-amber-400'
+};
+
+interface InsigniaEmparejamientoProps {
+  emparejamientos: Emparejamiento[];
+}
+
+// Indica que la fila une nombres distintos de años anteriores; el detalle va en el tooltip
+export default function InsigniaEmparejamiento({ emparejamientos }: InsigniaEmparejamientoProps) {
+  if (!emparejamientos.length) return null;
+
+  // Se muestra el método menos seguro usado en la fila
+  const metodo: MetodoEmparejamiento = emparejamientos.some(e => e.metodo === 'similitud')
+    ? 'similitud'
+    : emparejamientos.some(e => e.metodo === 'codigo') ? 'codigo' : 'manual';
+
+  const detalle = emparejamientos
+    .map(e => `${e.year}: ${e.concepto} (${ETIQUETAS[e.metodo]}${e.similitud !== undefined ? ` ${Math.round(e.similitud * 100)}%` : ''})`)
+    .join('\n');
+
+  return (
+    <span
+      className={`inline-flex items-center gap-1 ml-2 px-1.5 py-0.5 rounded text-[10px] font-bold align-middle whitespace-nowrap ${ESTILOS[metodo]}`}
+      title={`Emparejado con:\n${detalle}`}
+    >
+      <Link2 className="w-3 h-3" />
+      {ETIQUETAS[metodo]}
+    </span>
+  );
+}
@@ -0,0 +1,25 @@
+import React from 'react';
+import { ProyeccionConcepto } from '../types';
+import { FormatoNumeros, formatNumber } from '../lib/format';
+import { ESTADOS_PROYECCION, detalleProyeccion } from '../lib/proyeccion';
+
+interface InsigniaProyeccionProps {
+  proyeccion?: ProyeccionConcepto;
+  mesCorte: number;
+  formato: FormatoNumeros;
+}
+
+// Cierre proyectado como porcentaje del PIM y su estado; los montos van en el tooltip
+export default function InsigniaProyeccion({ proyeccion, mesCorte, formato }: InsigniaProyeccionProps) {
+  if (!proyeccion) return <span className="text-slate-400">—</span>;
+
+  const estado = proyeccion.estado && ESTADOS_PROYECCION[proyeccion.estado];
+  return (
+    <span className="inline-flex items-center gap-2 whitespace-nowrap" title={detalleProyeccion(proyeccion, mesCorte, formato)}>
+      {proyeccion.avanceProyectado !== null ? `${formatNumber(proyeccion.avanceProyectado, 1)}%` : 'Sin PIM'}
+      {estado && (
+        <span className={`px-2 py-1 rounded text-xs font-bold ${estado.estilo}`}>{estado.etiqueta}</span>
+      )}
+    </span>
+  );
+}
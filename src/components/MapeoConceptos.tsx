@@ -0,0 +1,131 @@
+import React, { useEffect, useState } from 'react';
+import { ArrowRight, Loader2, Plus, Trash2 } from 'lucide-react';
+import { ConceptoData, MapeoConcepto } from '../types';
+
+interface MapeoConceptosProps {
+  data: ConceptoData[];
+  onCambio: () => void;
+  onError: (mensaje: string) => void;
+}
+
+// Tabla persistente de equivalencias "concepto anterior = concepto nuevo" para los renombres que no se detectan solos
+export default function MapeoConceptos({ data, onCambio, onError }: MapeoConceptosProps) {
+  const [mapeos, setMapeos] = useState<MapeoConcepto[]>([]);
+  const [anterior, setAnterior] = useState('');
+  const [nuevo, setNuevo] = useState('');
+  const [guardando, setGuardando] = useState(false);
+
+  useEffect(() => {
+    fetch('/api/mapeos')
+      .then(response => response.json())
+      .then(data => setMapeos(data.mapeos || []))
+      .catch(() => setMapeos([]));
+  }, []);
+
+  // Sugerencias: conceptos que "caen a 0" y conceptos que "aparecen desde 0"
+  const desaparecidos = data.filter(item => item.montoActual === 0 && item.montoAnterior !== 0);
+  const aparecidos = data.filter(item => item.nuevo);
+
+  const enviar = async (metodo: 'POST' | 'DELETE', ruta: string, body?: object) => {
+    setGuardando(true);
+    try {
+      const response = await fetch(ruta, {
+        method: metodo,
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: body ? JSON.stringify(body) : undefined
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Error al actualizar las equivalencias');
+      }
+
+      setMapeos(data.mapeos);
+      return true;
+    } catch (err: any) {
+      onError(err.message);
+      return false;
+    } finally {
+      setGuardando(false);
+    }
+  };
+
+  const handleAgregar = async () => {
+    if (!anterior || !nuevo) return;
+    if (await enviar('POST', '/api/mapeos', { anterior, nuevo })) {
+      setAnterior('');
+      setNuevo('');
+      onCambio();
+    }
+  };
+
+  const handleEliminar = async (id: number) => {
+    if (await enviar('DELETE', `/api/mapeos/${id}`)) {
+      onCambio();
+    }
+  };
+
+  const inputClass = 'flex-1 min-w-0 px-3 py-2 bg-background-light dark:bg-slate-800 border-none rounded-lg text-sm focus:ring-2 focus:ring-primary/20 outline-none placeholder:text-slate-400';
+
+  return (
+    <div className="p-6 border-b border-primary/5 bg-slate-50/50 dark:bg-slate-800/20 text-sm">
+      <p className="text-slate-500 mb-3">
+        Los conceptos se unen entre años por nombre, por código y por similitud del texto. Registre aquí los renombres que no se detectan solos.
+      </p>
+      <div className="flex flex-col md:flex-row md:items-center gap-2 mb-4">
+        <input
+          className={inputClass}
+          list="conceptos-anteriores"
+          placeholder="Concepto anterior"
+          value={anterior}
+          onChange={(e) => setAnterior(e.target.value)}
+        />
+        <ArrowRight className="w-4 h-4 text-slate-400 flex-shrink-0 hidden md:block" />
+        <input
+          className={inputClass}
+          list="conceptos-nuevos"
+          placeholder="Concepto nuevo"
+          value={nuevo}
+          onChange={(e) => setNuevo(e.target.value)}
+        />
+        <button
+          onClick={handleAgregar}
+          disabled={guardando || !anterior || !nuevo}
+          className="px-4 py-2 bg-primary hover:bg-primary/90 disabled:bg-primary/50 text-white font-bold rounded-lg transition-all flex items-center justify-center gap-2 whitespace-nowrap"
+        >
+          {guardando ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+          Agregar
+        </button>
+        <datalist id="conceptos-anteriores">
+          {desaparecidos.map(item => <option key={item.concepto} value={item.concepto} />)}
+        </datalist>
+        <datalist id="conceptos-nuevos">
+          {aparecidos.map(item => <option key={item.concepto} value={item.concepto} />)}
+        </datalist>
+      </div>
+      {mapeos.length > 0 ? (
+        <ul className="divide-y divide-primary/5">
+          {mapeos.map(mapeo => (
+            <li key={mapeo.id} className="flex items-center gap-2 py-2 text-slate-600 dark:text-slate-300">
+              <span className="flex-1">{mapeo.anterior}</span>
+              <ArrowRight className="w-4 h-4 text-slate-400 flex-shrink-0" />
+              <span className="flex-1 font-medium">{mapeo.nuevo}</span>
+              <button
+                onClick={() => handleEliminar(mapeo.id)}
+                disabled={guardando}
+                title="Eliminar equivalencia"
+                className="p-1.5 text-slate-400 hover:text-rose-600 hover:bg-rose-50 dark:hover:bg-rose-900/20 rounded-lg transition-colors"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-slate-400 text-xs">No hay equivalencias registradas.</p>
+      )}
+    </div>
+  );
+}
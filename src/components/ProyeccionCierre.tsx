@@ -0,0 +1,132 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Target, Info } from 'lucide-react';
+import {
+  ComposedChart,
+  Area,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ReferenceLine,
+  ResponsiveContainer
+} from 'recharts';
+import { EstadoProyeccion, ProyeccionData } from '../types';
+import { FormatoNumeros, formatCifra, formatNumber, formatValor, unidadMetrica } from '../lib/format';
+import { MESES } from '../lib/periodo';
+import { ESTADOS_PROYECCION, detalleProyeccion, metodoProyeccion, trayectoria } from '../lib/proyeccion';
+
+interface ProyeccionCierreProps {
+  proyeccion: ProyeccionData;
+  // Etiqueta de la ejecución: Devengado o Recaudado
+  ejecucion: string;
+  formato: FormatoNumeros;
+  // Filtro de la tabla; si es un concepto proyectado, el gráfico lo muestra
+  filtro: string;
+}
+
+const COLORES = {
+  ejecutado: '#003366',
+  proyectado: '#2563eb',
+  pim: '#94a3b8'
+};
+
+export default function ProyeccionCierre({ proyeccion, ejecucion, formato, filtro }: ProyeccionCierreProps) {
+  // Vacío muestra el total de la consulta
+  const [seleccion, setSeleccion] = useState('');
+  const { mesCorte } = proyeccion;
+
+  useEffect(() => {
+    if (proyeccion.conceptos[filtro]) setSeleccion(filtro);
+  }, [filtro, proyeccion]);
+
+  const item = proyeccion.conceptos[seleccion] ?? proyeccion.total;
+  const opciones = useMemo(
+    () => Object.entries(proyeccion.conceptos).sort(([, a], [, b]) => b.pim - a.pim).map(([concepto]) => concepto),
+    [proyeccion]
+  );
+  const conteo = useMemo(() => {
+    const cuenta: Record<EstadoProyeccion, number> = { en_camino: 0, rezagado: 0, en_riesgo: 0 };
+    Object.values(proyeccion.conceptos).forEach(c => { if (c.estado) cuenta[c.estado]++; });
+    return cuenta;
+  }, [proyeccion]);
+
+  // Hasta el corte, lo ejecutado; desde el corte, la trayectoria central y la banda
+  const puntos = MESES.map((mes, i) => {
+    const numero = i + 1;
+    return {
+      mes: mes.slice(0, 3),
+      ejecutado: numero <= mesCorte ? item.mensual[i] : null,
+      proyectado: numero >= mesCorte ? trayectoria(item, item.proyeccion, numero, mesCorte) : null,
+      banda: numero >= mesCorte ? [trayectoria(item, item.minimo, numero, mesCorte), trayectoria(item, item.maximo, numero, mesCorte)] : null
+    };
+  });
+
+  const estado = item.estado && ESTADOS_PROYECCION[item.estado];
+  const unidad = unidadMetrica('monto', formato);
+
+  return (
+    <div className="bg-white dark:bg-slate-900 p-6 rounded-xl border border-primary/5 shadow-sm mb-8">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 mb-2">
+        <h3 className="text-lg font-bold text-slate-900 dark:text-white flex items-center gap-2">
+          <Target className="w-5 h-5" />
+          Cierre proyectado {proyeccion.year} ({unidad})
+          <span title={metodoProyeccion(proyeccion, ejecucion)} className="text-slate-400 hover:text-primary cursor-help">
+            <Info className="w-4 h-4" />
+          </span>
+        </h3>
+        <select
+          className="sm:w-72 px-2 py-1.5 bg-background-light dark:bg-slate-800 border-none rounded-lg text-sm focus:ring-2 focus:ring-primary/20 outline-none print:hidden"
+          value={proyeccion.conceptos[seleccion] ? seleccion : ''}
+          onChange={(e) => setSeleccion(e.target.value)}
+        >
+          <option value="">Total de la consulta</option>
+          {opciones.map(concepto => (
+            <option key={concepto} value={concepto}>{concepto}</option>
+          ))}
+        </select>
+      </div>
+
+      <p className="flex flex-wrap items-center gap-2 mb-4 text-xs text-slate-500">
+        {(Object.keys(ESTADOS_PROYECCION) as EstadoProyeccion[]).map(id => (
+          <span key={id} className={`px-2 py-1 rounded font-bold ${ESTADOS_PROYECCION[id].estilo}`}>
+            {ESTADOS_PROYECCION[id].etiqueta}: {conteo[id]}
+          </span>
+        ))}
+        <span>conceptos con {ejecucion.toLowerCase()} a {MESES[mesCorte - 1].toLowerCase()}.</span>
+      </p>
+
+      <ResponsiveContainer width="100%" height={300}>
+        <ComposedChart data={puntos} margin={{ top: 10, right: 30, left: 20, bottom: 5 }}>
+          <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#e2e8f0" />
+          <XAxis dataKey="mes" />
+          <YAxis tickFormatter={(value) => formatCifra(value, 'monto', formato)} domain={[0, (max: number) => Math.max(max, item.pim)]} />
+          <Tooltip
+            formatter={(value: any, nombre: any) => Array.isArray(value)
+              ? [`${formatValor(value[0], 'monto', formato)} – ${formatValor(value[1], 'monto', formato)}`, nombre]
+              : [formatValor(value, 'monto', formato), nombre]}
+          />
+          {item.pim > 0 && (
+            <ReferenceLine y={item.pim} stroke={COLORES.pim} strokeDasharray="4 4" label={{ value: 'PIM', position: 'insideTopLeft', fontSize: 11, fill: '#64748b' }} />
+          )}
+          {item.pim > 0 && (
+            <ReferenceLine y={item.pim * proyeccion.meta / 100} stroke={COLORES.pim} strokeDasharray="2 6" label={{ value: `Meta ${proyeccion.meta}%`, position: 'insideBottomLeft', fontSize: 11, fill: '#64748b' }} />
+          )}
+          <Area dataKey="banda" name="Banda" stroke="none" fill={COLORES.proyectado} fillOpacity={0.12} isAnimationActive={false} connectNulls={false} />
+          <Line dataKey="ejecutado" name={`${ejecucion} acumulado`} stroke={COLORES.ejecutado} strokeWidth={3} dot={{ r: 3 }} connectNulls={false} isAnimationActive={false} />
+          <Line dataKey="proyectado" name="Proyección" stroke={COLORES.proyectado} strokeWidth={2} strokeDasharray="6 4" dot={false} connectNulls={false} isAnimationActive={false} />
+        </ComposedChart>
+      </ResponsiveContainer>
+
+      <div className="mt-2 text-xs text-slate-500">
+        {item.avanceProyectado !== null && (
+          <p className="flex items-center gap-2 mb-1 font-bold text-slate-700 dark:text-slate-300">
+            Se proyecta el {formatNumber(item.avanceProyectado, 1)}% del PIM
+            {estado && <span className={`px-2 py-0.5 rounded ${estado.estilo}`}>{estado.etiqueta}</span>}
+          </p>
+        )}
+        <p className="whitespace-pre-line">{detalleProyeccion(item, mesCorte, formato)}</p>
+      </div>
+    </div>
+  );
+}
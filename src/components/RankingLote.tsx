@@ -0,0 +1,177 @@
+import React, { useMemo, useState } from 'react';
+import { Trophy, ArrowUpDown, AlertCircle, ChevronRight } from 'lucide-react';
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  Cell
+} from 'recharts';
+import { ConceptoData, LoteData, ResultadoLote } from '../types';
+import { FormatoNumeros, formatCifra, formatPorcentaje, formatVariacion, unidadMetrica } from '../lib/format';
+import { tituloErrorMef } from '../lib/errores';
+
+interface RankingLoteProps {
+  lote: LoteData;
+  formato: FormatoNumeros;
+  onAbrir: (url: string) => void;
+}
+
+type ClaveOrden = 'etiqueta' | 'montoAnterior' | 'montoActual' | 'variacionS' | 'variacionPorcentaje';
+
+export default function RankingLote({ lote, formato, onAbrir }: RankingLoteProps) {
+  const [orden, setOrden] = useState<{ key: ClaveOrden; direction: 'asc' | 'desc' }>({ key: 'variacionPorcentaje', direction: 'desc' });
+  const [grafico, setGrafico] = useState<'variacionPorcentaje' | 'variacionS'>('variacionPorcentaje');
+
+  const exitosos = lote.resultados.filter((r): r is Extract<ResultadoLote, { ok: true }> => r.ok);
+  const fallidos = lote.resultados.filter((r): r is Extract<ResultadoLote, { ok: false }> => !r.ok);
+  const referencia = exitosos[0];
+  const tipo = referencia?.metrica.tipo || 'monto';
+  const unidad = unidadMetrica(tipo, formato);
+
+  const filas = useMemo(() => {
+    const base = exitosos.map(r => ({ ...r.totales, etiqueta: r.etiqueta, url: r.url, alzas: r.alzas, bajas: r.bajas }));
+    // Igual que en la tabla de conceptos: las entidades sin base anterior van como el mayor crecimiento
+    const valor = (fila: typeof base[number]) => orden.key === 'variacionPorcentaje' && fila.variacionPorcentaje === null
+      ? (fila.nuevo ? Infinity : -Infinity)
+      : fila[orden.key];
+    return base.sort((a, b) => {
+      if (valor(a) < valor(b)) return orden.direction === 'asc' ? -1 : 1;
+      if (valor(a) > valor(b)) return orden.direction === 'asc' ? 1 : -1;
+      return 0;
+    });
+  }, [lote, orden]);
+
+  const handleSort = (key: ClaveOrden) => {
+    setOrden(prev => ({ key, direction: prev.key === key && prev.direction === 'desc' ? 'asc' : 'desc' }));
+  };
+
+  const destacados = (conceptos: ConceptoData[]) => conceptos.length === 0
+    ? <span className="text-slate-400">—</span>
+    : conceptos.map(item => (
+      <div key={item.concepto} className="truncate max-w-[220px]" title={item.concepto}>
+        {item.concepto} <span className="font-bold">({formatVariacion(item.variacionS, tipo, formato)})</span>
+      </div>
+    ));
+
+  const encabezado = (key: ClaveOrden, texto: React.ReactNode) => (
+    <th
+      className="px-4 py-4 text-xs font-bold text-slate-500 uppercase tracking-wider text-center cursor-pointer hover:text-primary transition-colors"
+      onClick={() => handleSort(key)}
+    >
+      {texto} <ArrowUpDown className="w-3 h-3 inline-block align-middle ml-1" />
+    </th>
+  );
+
+  return (
+    <div className="mb-8">
+      {referencia && (
+        <div className="bg-white dark:bg-slate-900 p-6 rounded-xl border border-primary/5 shadow-sm mb-6">
+          <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+            <h3 className="text-lg font-bold text-slate-900 dark:text-white flex items-center gap-2">
+              <Trophy className="w-5 h-5" />
+              Ranking de {referencia.metrica.etiqueta} {referencia.yearAnterior}–{referencia.yearActual}
+              <span className="text-xs font-medium text-slate-400">({grafico === 'variacionS' ? unidad : '%'}{referencia.periodo.tipo === 'acumulado' ? ` · ${referencia.periodo.etiqueta}` : ''})</span>
+            </h3>
+            <div className="inline-flex rounded-lg border border-primary/10 p-0.5 text-xs font-bold">
+              {([['variacionPorcentaje', 'Variación %'], ['variacionS', 'Variación absoluta']] as const).map(([opcion, etiqueta]) => (
+                <button
+                  key={opcion}
+                  onClick={() => setGrafico(opcion)}
+                  className={`px-3 py-1 rounded-md transition-colors ${grafico === opcion ? 'bg-primary text-white' : 'text-slate-500 hover:text-primary'}`}
+                >
+                  {etiqueta}
+                </button>
+              ))}
+            </div>
+          </div>
+          <div className="h-80">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={filas} margin={{ top: 20, right: 30, left: 20, bottom: 5 }}>
+                <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#e2e8f0" />
+                <XAxis dataKey="etiqueta" tick={{ fontSize: 10 }} interval={0} angle={-30} textAnchor="end" height={70} />
+                <YAxis tickFormatter={(value) => grafico === 'variacionS' ? formatCifra(value, tipo, formato) : `${value}%`} />
+                <Tooltip
+                  formatter={(value: number) => [grafico === 'variacionS' ? formatVariacion(value, tipo, formato) : formatPorcentaje(value), 'Variación']}
+                  labelFormatter={(label) => `Entidad: ${label}`}
+                  contentStyle={{ borderRadius: '8px', border: 'none', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)' }}
+                />
+                <Bar dataKey={grafico} radius={[4, 4, 0, 0]}>
+                  {filas.map((fila, index) => (
+                    <Cell key={`cell-${index}`} fill={(fila[grafico] ?? 0) >= 0 ? '#059669' : '#e11d48'} />
+                  ))}
+                </Bar>
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+      )}
+
+      <section className="bg-white dark:bg-slate-900 rounded-xl shadow-sm border border-primary/5 overflow-hidden">
+        <div className="p-6 border-b border-primary/5 flex flex-wrap justify-between items-center gap-2">
+          <h3 className="text-lg font-bold text-slate-900 dark:text-white">Entidades comparadas</h3>
+          <span className="text-sm text-slate-500">
+            {exitosos.length} de {lote.resultados.length} con datos{referencia ? ` · ${unidad}` : ''}
+          </span>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="w-full text-left border-collapse">
+            <thead>
+              <tr className="bg-slate-50 dark:bg-slate-800/50">
+                {encabezado('etiqueta', 'Entidad')}
+                {encabezado('montoAnterior', referencia ? referencia.yearAnterior : 'Anterior')}
+                {encabezado('montoActual', referencia ? referencia.yearActual : 'Actual')}
+                {encabezado('variacionS', `Variación (${tipo === 'monto' ? 'S/' : 'p.p.'})`)}
+                {encabezado('variacionPorcentaje', 'Variación (%)')}
+                <th className="px-4 py-4 text-xs font-bold text-slate-500 uppercase tracking-wider text-center">Mayores alzas</th>
+                <th className="px-4 py-4 text-xs font-bold text-slate-500 uppercase tracking-wider text-center">Mayores bajas</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-primary/5">
+              {filas.map((fila, idx) => (
+                <tr key={idx} className="hover:bg-primary/5 transition-colors align-top">
+                  <td className="px-4 py-4 font-medium text-slate-700 dark:text-slate-300">
+                    <button onClick={() => onAbrir(fila.url)} className="text-left hover:text-primary" title="Abrir la comparación de esta entidad">
+                      {fila.etiqueta}
+                      <ChevronRight className="w-4 h-4 inline-block align-middle ml-1 text-primary/50" />
+                    </button>
+                  </td>
+                  <td className="px-4 py-4 text-right text-slate-600 dark:text-slate-400">{formatCifra(fila.montoAnterior, tipo, formato)}</td>
+                  <td className="px-4 py-4 text-right font-semibold text-slate-900 dark:text-white">{formatCifra(fila.montoActual, tipo, formato)}</td>
+                  <td className={`px-4 py-4 text-right font-medium ${fila.variacionS > 0 ? 'text-emerald-600' : fila.variacionS < 0 ? 'text-rose-600' : 'text-slate-600'}`}>
+                    {formatVariacion(fila.variacionS, tipo, formato)}
+                  </td>
+                  <td className={`px-4 py-4 text-right font-bold ${fila.nuevo ? 'text-blue-600' : (fila.variacionPorcentaje ?? 0) > 0 ? 'text-emerald-600' : (fila.variacionPorcentaje ?? 0) < 0 ? 'text-rose-600' : 'text-slate-600'}`}>
+                    {formatPorcentaje(fila.variacionPorcentaje, fila.nuevo)}
+                  </td>
+                  <td className="px-4 py-4 text-xs text-emerald-700 dark:text-emerald-400">{destacados(fila.alzas)}</td>
+                  <td className="px-4 py-4 text-xs text-rose-700 dark:text-rose-400">{destacados(fila.bajas)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        {fallidos.length > 0 && (
+          <div className="p-6 border-t border-primary/5 bg-rose-50/50 dark:bg-rose-900/10">
+            <h4 className="text-sm font-bold text-rose-800 dark:text-rose-300 flex items-center gap-2 mb-2">
+              <AlertCircle className="w-4 h-4" />
+              Entidades sin datos ({fallidos.length})
+            </h4>
+            <ul className="space-y-1 text-xs text-rose-700 dark:text-rose-400">
+              {fallidos.map((fallido, idx) => (
+                <li key={idx} className="break-all">
+                  <span className="font-bold">{fallido.etiqueta}</span>
+                  {fallido.tipoError && <span className="ml-1 px-1.5 py-0.5 rounded bg-rose-100 dark:bg-rose-900/30 text-[10px] font-bold">{tituloErrorMef(fallido.tipoError)}</span>}
+                  : {fallido.error}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </section>
+    </div>
+  );
+}
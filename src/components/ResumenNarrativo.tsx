@@ -0,0 +1,126 @@
+import React, { useState } from 'react';
+import { Sparkles, Loader2, Copy, CheckCircle2, RefreshCw, AlertTriangle } from 'lucide-react';
+import { ComparacionResumen, ResumenComparacion } from '../types';
+
+interface ResumenNarrativoProps {
+  comparacion: ComparacionResumen;
+  onError: (mensaje: string) => void;
+}
+
+// Texto del resumen con las cifras que no coinciden con los datos resaltadas
+function TextoResumen({ resumen }: { resumen: ResumenComparacion }) {
+  const partes: React.ReactNode[] = [];
+  let posicion = 0;
+  resumen.cifras.filter(cifra => !cifra.verificada).forEach((cifra, idx) => {
+    partes.push(resumen.texto.slice(posicion, cifra.inicio));
+    partes.push(
+      <mark key={idx} title="Esta cifra no aparece en los datos de la comparación" className="bg-amber-100 text-amber-900 dark:bg-amber-900/40 dark:text-amber-200 rounded px-0.5">
+        {cifra.texto}
+      </mark>
+    );
+    posicion = cifra.inicio + cifra.texto.length;
+  });
+  partes.push(resumen.texto.slice(posicion));
+  return <p className="text-sm leading-relaxed text-slate-700 dark:text-slate-300 whitespace-pre-line">{partes}</p>;
+}
+
+export default function ResumenNarrativo({ comparacion, onError }: ResumenNarrativoProps) {
+  const [abierto, setAbierto] = useState(false);
+  const [generando, setGenerando] = useState(false);
+  const [resumen, setResumen] = useState<ResumenComparacion | null>(null);
+  const [copiado, setCopiado] = useState(false);
+
+  const generar = async () => {
+    setGenerando(true);
+    setCopiado(false);
+    try {
+      const response = await fetch('/api/resumen', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify(comparacion)
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Error al generar el resumen');
+      }
+      setResumen(data);
+    } catch (err: any) {
+      onError(err.message);
+      setAbierto(false);
+    } finally {
+      setGenerando(false);
+    }
+  };
+
+  // Cada apertura resume los datos en pantalla, que pueden haber cambiado desde el último resumen
+  const alternar = () => {
+    if (!abierto) {
+      setResumen(null);
+      generar();
+    }
+    setAbierto(!abierto);
+  };
+
+  const copiar = async () => {
+    try {
+      await navigator.clipboard.writeText(resumen!.texto);
+      setCopiado(true);
+    } catch {
+      onError('No se pudo copiar el resumen; selecciónelo y cópielo manualmente.');
+    }
+  };
+
+  const noVerificadas = resumen ? resumen.cifras.filter(cifra => !cifra.verificada).length : 0;
+
+  return (
+    <div className="relative">
+      <button
+        onClick={alternar}
+        title="Redactar un resumen de la comparación para el informe semanal"
+        className="flex items-center gap-2 px-3 py-1.5 bg-white dark:bg-slate-900 border border-primary/10 rounded-lg font-bold text-slate-600 dark:text-slate-300 hover:text-primary transition-colors"
+      >
+        <Sparkles className="w-4 h-4" />
+        Generar resumen
+      </button>
+      {abierto && (
+        <div className="absolute right-0 mt-2 w-[32rem] max-w-[90vw] p-4 bg-white dark:bg-slate-900 border border-primary/10 rounded-xl shadow-lg z-20 flex flex-col gap-3">
+          {generando || !resumen ? (
+            <p className="flex items-center gap-2 text-slate-500">
+              <Loader2 className="w-4 h-4 animate-spin" />
+              Redactando el resumen…
+            </p>
+          ) : (
+            <>
+              <TextoResumen resumen={resumen} />
+              {noVerificadas > 0 ? (
+                <p className="flex items-start gap-2 text-xs text-amber-700 dark:text-amber-400">
+                  <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+                  {noVerificadas === 1 ? 'Una cifra resaltada no coincide' : `${noVerificadas} cifras resaltadas no coinciden`} con los datos de la comparación. Revísela{noVerificadas === 1 ? '' : 's'} antes de usar el resumen.
+                </p>
+              ) : (
+                <p className="flex items-center gap-2 text-xs text-emerald-700 dark:text-emerald-400">
+                  <CheckCircle2 className="w-4 h-4" />
+                  Todas las cifras coinciden con los datos de la comparación.
+                </p>
+              )}
+              <div className="flex items-center justify-between gap-2 text-xs text-slate-400">
+                <span>{resumen.proveedor}{resumen.modelo ? ` (${resumen.modelo})` : ''}</span>
+                <div className="flex items-center gap-1">
+                  <button onClick={generar} title="Volver a redactar" className="p-1.5 text-slate-500 hover:text-primary hover:bg-primary/5 rounded-lg transition-colors">
+                    <RefreshCw className="w-4 h-4" />
+                  </button>
+                  <button onClick={copiar} title="Copiar resumen" className="p-1.5 text-slate-500 hover:text-primary hover:bg-primary/5 rounded-lg transition-colors">
+                    {copiado ? <CheckCircle2 className="w-4 h-4 text-emerald-600" /> : <Copy className="w-4 h-4" />}
+                  </button>
+                </div>
+              </div>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
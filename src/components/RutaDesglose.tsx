@@ -0,0 +1,36 @@
+import React from 'react';
+import { ChevronRight, Layers } from 'lucide-react';
+
+interface RutaDesgloseProps {
+  ruta: { etiqueta: string; url: string }[];
+  loading: boolean;
+  onNavegar: (idx: number) => void;
+}
+
+export default function RutaDesglose({ ruta, loading, onNavegar }: RutaDesgloseProps) {
+  return (
+    <nav className="flex flex-wrap items-center gap-1 mb-6 text-sm" aria-label="Ruta de desglose">
+      <Layers className="w-4 h-4 text-slate-400 mr-1" />
+      {ruta.map((paso, idx) => {
+        const esUltimo = idx === ruta.length - 1;
+        return (
+          <React.Fragment key={`${idx}-${paso.url}`}>
+            {idx > 0 && <ChevronRight className="w-4 h-4 text-slate-400" />}
+            <button
+              onClick={() => onNavegar(idx)}
+              disabled={loading || esUltimo}
+              title={paso.url}
+              className={`px-2 py-1 rounded transition-colors ${
+                esUltimo
+                  ? 'font-bold text-slate-900 dark:text-white cursor-default'
+                  : 'text-primary hover:bg-primary/5 disabled:opacity-50'
+              }`}
+            >
+              {paso.etiqueta}
+            </button>
+          </React.Fragment>
+        );
+      })}
+    </nav>
+  );
+}
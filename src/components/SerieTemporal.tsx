@@ -0,0 +1,146 @@
+import React, { useMemo } from 'react';
+import { LineChart as LineChartIcon, Table as TableIcon } from 'lucide-react';
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer
+} from 'recharts';
+import { MetricaInfo, SerieData } from '../types';
+import { FormatoNumeros, formatCifra, formatPorcentaje, formatValor, unidadMetrica } from '../lib/format';
+import InsigniaEmparejamiento from './InsigniaEmparejamiento';
+
+interface SerieTemporalProps {
+  serie: SerieData;
+  metrica: MetricaInfo;
+  formato: FormatoNumeros;
+  corte: string;
+  searchTerm: string;
+}
+
+export default function SerieTemporal({ serie, metrica, formato, corte, searchTerm }: SerieTemporalProps) {
+  const filteredData = useMemo(() => {
+    if (!searchTerm) return serie.data;
+    const lowerSearch = searchTerm.toLowerCase();
+    return serie.data.filter(item => item.concepto.toLowerCase().includes(lowerSearch));
+  }, [serie, searchTerm]);
+
+  const primerTotal = serie.totales[0]?.monto || 0;
+  const ultimoTotal = serie.totales[serie.totales.length - 1]?.monto || 0;
+  const periodos = serie.years.length - 1;
+  const unidad = unidadMetrica(metrica.tipo, formato);
+  const cagrTotal = metrica.tipo === 'monto' && periodos > 0 && primerTotal > 0 && ultimoTotal > 0
+    ? (Math.pow(ultimoTotal / primerTotal, 1 / periodos) - 1) * 100
+    : null;
+
+  return (
+    <div className="mb-8">
+      {/* Trend Chart */}
+      <div className="bg-white dark:bg-slate-900 p-6 rounded-xl border border-primary/5 shadow-sm mb-6">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-bold text-slate-900 dark:text-white flex items-center gap-2">
+            <LineChartIcon className="w-5 h-5" />
+            Tendencia {serie.years[0]}–{serie.years[serie.years.length - 1]} ({unidad}{corte})
+          </h3>
+          {cagrTotal !== null && (
+            <span className="text-sm font-bold text-slate-500">
+              CAGR total: <span className={cagrTotal >= 0 ? 'text-emerald-600' : 'text-rose-600'}>{formatPorcentaje(cagrTotal)}</span>
+            </span>
+          )}
+        </div>
+        <div className="h-72">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={serie.totales} margin={{ top: 20, right: 30, left: 20, bottom: 5 }}>
+              <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#e2e8f0" />
+              <XAxis dataKey="year" />
+              <YAxis tickFormatter={(value) => formatCifra(value, metrica.tipo, formato)} />
+              <Tooltip
+                formatter={(value: number) => [formatValor(value, metrica.tipo, formato), metrica.etiqueta]}
+                labelFormatter={(label) => `Año: ${label}`}
+                contentStyle={{ borderRadius: '8px', border: 'none', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)' }}
+              />
+              <Line type="monotone" dataKey="monto" stroke="#003366" strokeWidth={2} dot={{ r: 4 }} />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+
+      {/* Per-year Table */}
+      <section className="bg-white dark:bg-slate-900 rounded-xl shadow-sm border border-primary/5 overflow-hidden">
+        <div className="p-6 border-b border-primary/5">
+          <h3 className="text-lg font-bold text-slate-900 dark:text-white flex items-center gap-2">
+            <TableIcon className="w-5 h-5" />
+            Serie por Concepto <span className="text-xs font-medium text-slate-400">({unidad}{corte})</span>
+          </h3>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="w-full text-left border-collapse">
+            <thead>
+              <tr className="bg-slate-50 dark:bg-slate-800/50">
+                <th className="px-6 py-4 text-xs font-bold text-slate-500 uppercase tracking-wider text-center">Concepto</th>
+                {serie.years.map(year => (
+                  <th key={year} className="px-4 py-4 text-xs font-bold text-slate-500 uppercase tracking-wider text-center">
+                    {metrica.abreviatura}_{year}
+                  </th>
+                ))}
+                <th className="px-4 py-4 text-xs font-bold text-slate-500 uppercase tracking-wider text-center">CAGR</th>
+                <th className="px-4 py-4 text-xs font-bold text-slate-500 uppercase tracking-wider text-center">Máx / Mín</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-primary/5">
+              {filteredData.map((item, idx) => (
+                <tr key={idx} className="hover:bg-primary/5 transition-colors">
+                  <td className="px-6 py-4 font-medium text-slate-700 dark:text-slate-300">
+                    {item.concepto}
+                    <InsigniaEmparejamiento emparejamientos={item.emparejamientos} />
+                  </td>
+                  {item.montos.map((monto, i) => {
+                    const variacion = i > 0 ? item.variaciones[i - 1] : null;
+                    return (
+                      <td key={serie.years[i]} className="px-4 py-4 text-right text-slate-700 dark:text-slate-300">
+                        <div className="font-semibold">{formatCifra(monto, metrica.tipo, formato)}</div>
+                        {variacion && (
+                          <div className={`text-[10px] font-bold ${variacion.nuevo ? 'text-blue-600' : (variacion.variacionPorcentaje ?? 0) > 0 ? 'text-emerald-600' : (variacion.variacionPorcentaje ?? 0) < 0 ? 'text-rose-600' : 'text-slate-400'}`}>
+                            {formatPorcentaje(variacion.variacionPorcentaje, variacion.nuevo)}
+                          </div>
+                        )}
+                      </td>
+                    );
+                  })}
+                  <td className={`px-4 py-4 text-right font-bold ${item.cagr === null ? 'text-slate-400' : item.cagr >= 0 ? 'text-emerald-600' : 'text-rose-600'}`}>
+                    {item.cagr === null ? '—' : formatPorcentaje(item.cagr)}
+                  </td>
+                  <td className="px-4 py-4 text-center text-xs text-slate-500 whitespace-nowrap">
+                    <span className="text-emerald-600 font-bold">{item.yearMax}</span> / <span className="text-rose-600 font-bold">{item.yearMin}</span>
+                  </td>
+                </tr>
+              ))}
+              {filteredData.length === 0 && (
+                <tr>
+                  <td colSpan={serie.years.length + 3} className="px-6 py-8 text-center text-slate-500">
+                    No se encontraron resultados para "{searchTerm}"
+                  </td>
+                </tr>
+              )}
+            </tbody>
+            <tfoot className="bg-slate-50 dark:bg-slate-800/50 font-bold">
+              <tr>
+                <td className="px-6 py-4 text-slate-900 dark:text-white">TOTAL GENERAL</td>
+                {serie.totales.map(total => (
+                  <td key={total.year} className="px-4 py-4 text-right">{formatCifra(total.monto, metrica.tipo, formato)}</td>
+                ))}
+                <td className={`px-4 py-4 text-right ${cagrTotal === null ? 'text-slate-400' : cagrTotal >= 0 ? 'text-emerald-600' : 'text-rose-600'}`}>
+                  {cagrTotal === null ? '—' : formatPorcentaje(cagrTotal)}
+                </td>
+                <td />
+              </tr>
+            </tfoot>
+          </table>
+        </div>
+      </section>
+    </div>
+  );
+}
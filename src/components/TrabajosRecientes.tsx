@@ -0,0 +1,78 @@
+import React, { useState } from 'react';
+import { ListChecks, Loader2 } from 'lucide-react';
+import { EstadoTrabajo, Trabajo } from '../types';
+import { ESTADOS_TRABAJO, esFinal } from '../lib/trabajos';
+import { formatFechaCaptura } from './FuentesDatos';
+
+interface TrabajosRecientesProps {
+  trabajos: Trabajo[];
+  deshabilitado: boolean;
+  onAbrir: (id: string) => void;
+  onActualizar: () => void;
+}
+
+const COLORES: Record<EstadoTrabajo, string> = {
+  pendiente: 'bg-slate-100 text-slate-600',
+  en_curso: 'bg-blue-100 text-blue-700',
+  completado: 'bg-emerald-100 text-emerald-700',
+  error: 'bg-rose-100 text-rose-700',
+  cancelado: 'bg-amber-100 text-amber-700'
+};
+
+export default function TrabajosRecientes({ trabajos, deshabilitado, onAbrir, onActualizar }: TrabajosRecientesProps) {
+  const [abierto, setAbierto] = useState(false);
+  const activos = trabajos.filter(trabajo => !esFinal(trabajo.estado)).length;
+
+  const alternar = () => {
+    if (!abierto) onActualizar();
+    setAbierto(!abierto);
+  };
+
+  return (
+    <div className="relative print:hidden">
+      <button
+        onClick={alternar}
+        title="Trabajos recientes"
+        className="relative p-2 text-slate-500 hover:bg-primary/5 rounded-full transition-colors"
+      >
+        {activos > 0 ? <Loader2 className="w-5 h-5 animate-spin text-primary" /> : <ListChecks className="w-5 h-5" />}
+      </button>
+      {abierto && (
+        <div className="absolute right-0 mt-2 w-96 max-h-[28rem] overflow-y-auto bg-white dark:bg-slate-900 border border-primary/10 rounded-xl shadow-lg z-20">
+          <div className="px-4 py-3 border-b border-primary/5 text-sm font-bold text-slate-900 dark:text-white">
+            Trabajos recientes
+          </div>
+          {trabajos.length === 0 ? (
+            <p className="px-4 py-6 text-sm text-slate-400 text-center">Aún no hay trabajos.</p>
+          ) : (
+            <ul className="divide-y divide-primary/5">
+              {trabajos.map(trabajo => (
+                <li key={trabajo.id}>
+                  <button
+                    onClick={() => { setAbierto(false); onAbrir(trabajo.id); }}
+                    disabled={deshabilitado}
+                    className="w-full text-left px-4 py-3 hover:bg-primary/5 disabled:opacity-50 transition-colors"
+                  >
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="text-sm font-medium text-slate-700 dark:text-slate-300 truncate" title={trabajo.descripcion}>
+                        {trabajo.descripcion}
+                      </span>
+                      <span className={`px-2 py-0.5 rounded-full text-[10px] font-bold flex-shrink-0 ${COLORES[trabajo.estado]}`}>
+                        {ESTADOS_TRABAJO[trabajo.estado]}
+                      </span>
+                    </div>
+                    <div className="text-xs text-slate-400 mt-1 truncate">
+                      {formatFechaCaptura(trabajo.creadoEn)}
+                      {trabajo.progreso.total > 0 && ` · ${trabajo.progreso.completadas}/${trabajo.progreso.total}`}
+                      {trabajo.error ? ` · ${trabajo.error}` : ''}
+                    </div>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
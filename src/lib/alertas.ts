@@ -0,0 +1,58 @@
+import { ApiResponse, CampoRegla, MetricaInfo, ReglaAlerta } from '../types';
+import { MESES } from './periodo';
+
+export const CAMPOS_REGLA: Record<CampoRegla, string> = {
+  actual: 'Valor actual',
+  variacionPorcentaje: 'Variación %',
+  variacionS: 'Variación absoluta'
+};
+
+export const OPERADORES_REGLA: Record<ReglaAlerta['operador'], string> = {
+  menor: 'menor que',
+  mayor: 'mayor que'
+};
+
+export interface AlertaActiva {
+  // Identifica la alerta entre actualizaciones: índice de la regla y concepto
+  clave: string;
+  regla: number;
+  concepto: string;
+  valor: number;
+}
+
+// Cifra en la unidad de la regla: % para variaciones porcentuales, p.p. o % en métricas porcentuales, soles en montos
+export function formatValorRegla(valor: number, campo: CampoRegla, metrica?: MetricaInfo) {
+  if (campo === 'variacionPorcentaje') return `${valor.toLocaleString('es-PE', { maximumFractionDigits: 1 })}%`;
+  if (metrica?.tipo === 'porcentaje') {
+    return `${valor.toLocaleString('es-PE', { maximumFractionDigits: 1 })}${campo === 'variacionS' ? ' p.p.' : '%'}`;
+  }
+  return `S/ ${Math.round(valor).toLocaleString('es-PE')}`;
+}
+
+export function describirRegla(regla: ReglaAlerta, metrica?: MetricaInfo) {
+  const sujeto = regla.alcance === 'total'
+    ? 'Total'
+    : regla.filtro ? `Conceptos con «${regla.filtro}»` : 'Cada concepto';
+  const campo = regla.campo === 'actual' && metrica ? metrica.etiqueta : CAMPOS_REGLA[regla.campo];
+  const desde = regla.desdeMes ? ` desde ${MESES[regla.desdeMes - 1].toLowerCase()}` : '';
+  return `${sujeto}: ${campo} ${OPERADORES_REGLA[regla.operador]} ${formatValorRegla(regla.umbral, regla.campo, metrica)}${desde}`;
+}
+
+// Reglas que se cumplen en un resultado. Un concepto sin variación % definida (nuevo) no la cumple
+export function evaluarReglas(datos: ApiResponse, reglas: ReglaAlerta[], fecha = new Date()): AlertaActiva[] {
+  const mes = fecha.getMonth() + 1;
+  return reglas.flatMap((regla, idx) => {
+    if (regla.desdeMes && mes < regla.desdeMes) return [];
+    const filtro = regla.filtro.toLowerCase();
+    const filas = regla.alcance === 'total'
+      ? [{ concepto: 'TOTAL', ...datos.totales }]
+      : datos.data.filter(fila => !filtro || fila.concepto.toLowerCase().includes(filtro));
+
+    return filas.flatMap(fila => {
+      const valor = regla.campo === 'actual' ? fila.montoActual : fila[regla.campo];
+      if (valor === null || !Number.isFinite(valor)) return [];
+      const cumple = regla.operador === 'menor' ? valor < regla.umbral : valor > regla.umbral;
+      return cumple ? [{ clave: `${idx}|${fila.concepto}`, regla: idx, concepto: fila.concepto, valor }] : [];
+    });
+  });
+}
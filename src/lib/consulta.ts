@@ -0,0 +1,112 @@
+import { CamposConsulta, OpcionConsulta, TipoConsulta } from '../types';
+
+// Navegador de Consulta Amigable de cada tipo de consulta y los parámetros fijos de su URL
+export const TIPOS_CONSULTA: Record<TipoConsulta, { etiqueta: string; url: string; parametros: Record<string, string> }> = {
+  gasto: {
+    etiqueta: 'Gasto',
+    url: 'https://apps5.mineco.gob.pe/transparencia/Navegador/Navegar_7.aspx',
+    parametros: { ap: 'ActProy' }
+  },
+  ingreso: {
+    etiqueta: 'Ingreso',
+    url: 'https://apps5.mineco.gob.pe/bingresos/Navegador/Navegar_7.aspx',
+    parametros: {}
+  }
+};
+
+// Año más antiguo que se acepta en el formulario
+export const PRIMER_YEAR_CONSULTA = 1999;
+
+export const NIVELES_GOBIERNO: OpcionConsulta[] = [
+  { codigo: 'E', nombre: 'Gobierno Nacional' },
+  { codigo: 'R', nombre: 'Gobiernos Regionales' },
+  { codigo: 'M', nombre: 'Gobiernos Locales' }
+];
+
+export type FiltroConsulta = 'nivelGobierno' | 'sector' | 'pliego';
+
+// Filtros en el orden en que se anidan, con su posición en el query string del Navegador
+export const FILTROS_CONSULTA: { id: FiltroConsulta; etiqueta: string; parametro: string }[] = [
+  { id: 'nivelGobierno', etiqueta: 'Nivel de gobierno', parametro: '1' },
+  { id: 'sector', etiqueta: 'Sector', parametro: '2' },
+  { id: 'pliego', etiqueta: 'Pliego', parametro: '3' }
+];
+
+// Dimensiones de agrupación. El botón del Navegador y el encabezado de la tabla se reconocen por
+// sus rótulos normalizados; el más específico va primero
+export const DIMENSIONES_CONSULTA: { id: string; etiqueta: string; rotulos: string[]; tipos: TipoConsulta[] }[] = [
+  { id: 'nivelGobierno', etiqueta: 'Nivel de gobierno', rotulos: ['nivel de gobierno'], tipos: ['gasto', 'ingreso'] },
+  { id: 'sector', etiqueta: 'Sector', rotulos: ['sector'], tipos: ['gasto', 'ingreso'] },
+  { id: 'pliego', etiqueta: 'Pliego', rotulos: ['pliego'], tipos: ['gasto', 'ingreso'] },
+  { id: 'ejecutora', etiqueta: 'Unidad ejecutora', rotulos: ['unidad ejecutora', 'ejecutora'], tipos: ['gasto', 'ingreso'] },
+  { id: 'departamento', etiqueta: 'Departamento', rotulos: ['departamento'], tipos: ['gasto', 'ingreso'] },
+  { id: 'funcion', etiqueta: 'Función', rotulos: ['funcion'], tipos: ['gasto'] },
+  { id: 'division', etiqueta: 'División funcional', rotulos: ['division funcional'], tipos: ['gasto'] },
+  { id: 'programa', etiqueta: 'Programa presupuestal', rotulos: ['programa presupuestal', 'categoria presupuestal', 'programa'], tipos: ['gasto'] },
+  { id: 'producto', etiqueta: 'Producto / proyecto', rotulos: ['producto proyecto', 'producto'], tipos: ['gasto'] },
+  { id: 'actividad', etiqueta: 'Actividad / acción / obra', rotulos: ['actividad accion obra', 'actividad'], tipos: ['gasto'] },
+  { id: 'fuente', etiqueta: 'Fuente de financiamiento', rotulos: ['fuente de financiamiento', 'fuente'], tipos: ['gasto', 'ingreso'] },
+  { id: 'rubro', etiqueta: 'Rubro', rotulos: ['rubro'], tipos: ['gasto', 'ingreso'] },
+  { id: 'tipoRecurso', etiqueta: 'Tipo de recurso', rotulos: ['tipo de recurso'], tipos: ['ingreso'] },
+  { id: 'categoria', etiqueta: 'Categoría de gasto', rotulos: ['categoria de gasto', 'categoria gasto'], tipos: ['gasto'] },
+  { id: 'generica', etiqueta: 'Genérica', rotulos: ['generica'], tipos: ['gasto', 'ingreso'] },
+  { id: 'subgenerica', etiqueta: 'Subgenérica', rotulos: ['subgenerica'], tipos: ['gasto', 'ingreso'] },
+  { id: 'especifica', etiqueta: 'Específica', rotulos: ['especifica'], tipos: ['gasto', 'ingreso'] },
+  { id: 'mes', etiqueta: 'Mes', rotulos: ['mes'], tipos: ['gasto', 'ingreso'] }
+];
+
+const normalizar = (texto: string) => texto
+  .normalize('NFD')
+  .replace(/[\u0300-\u036f]/g, '')
+  .toLowerCase()
+  .replace(/[^a-z0-9]+/g, ' ')
+  .trim();
+
+// Dimensión que corresponde a un rótulo de botón o de encabezado, o undefined si no es una dimensión
+export function dimensionDeRotulo(rotulo: string) {
+  const normalizado = normalizar(rotulo);
+  if (!normalizado) return undefined;
+  return DIMENSIONES_CONSULTA.find(d => d.rotulos.includes(normalizado))
+    ?? DIMENSIONES_CONSULTA.find(d => d.rotulos.some(r => normalizado.startsWith(`${r} `)));
+}
+
+// URL del Navegador con el año y los filtros; la agrupación se elige después con el botón de la dimensión
+export function urlConsulta(campos: CamposConsulta) {
+  const tipo = TIPOS_CONSULTA[campos.tipo];
+  const url = new URL(tipo.url);
+  url.searchParams.set('y', String(campos.year));
+  for (const [nombre, valor] of Object.entries(tipo.parametros)) {
+    url.searchParams.set(nombre, valor);
+  }
+  for (const filtro of FILTROS_CONSULTA) {
+    if (campos[filtro.id]) url.searchParams.set(filtro.parametro, campos[filtro.id]);
+  }
+  return url.toString();
+}
+
+// Lee de un enlace pegado los campos que van en su query string; la dimensión sale de la página
+export function camposDesdeUrl(texto: string): Partial<CamposConsulta> {
+  let url: URL;
+  try {
+    url = new URL(texto.trim());
+  } catch {
+    return {};
+  }
+  const campos: Partial<CamposConsulta> = {
+    tipo: /ingresos/i.test(url.pathname) ? 'ingreso' : 'gasto'
+  };
+  const year = url.searchParams.get('y');
+  if (year && /^\d{4}$/.test(year)) campos.year = Number(year);
+  for (const filtro of FILTROS_CONSULTA) {
+    campos[filtro.id] = (url.searchParams.get(filtro.parametro) ?? '').trim().toUpperCase();
+  }
+  return campos;
+}
+
+// "10: EDUCACION" → { codigo: "10", nombre: "EDUCACION" }; sin código, el concepto completo hace de ambos
+export function opcionDeConcepto(concepto: string): OpcionConsulta {
+  const partes = concepto.match(/^\s*([A-Z0-9-]+)\s*:\s*(.+)$/i);
+  return partes
+    ? { codigo: partes[1].toUpperCase(), nombre: partes[2].trim() }
+    : { codigo: concepto.trim(), nombre: concepto.trim() };
+}
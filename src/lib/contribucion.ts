@@ -0,0 +1,121 @@
+import { ConceptoData, TotalesData } from '../types';
+
+export const OPCIONES_TOP_N = [5, 10, 15, 20];
+export const TOP_N_POR_DEFECTO = 10;
+export const ETIQUETA_OTROS = 'Otros';
+
+export interface PasoCascada {
+  etiqueta: string;
+  // Concepto que se filtra al hacer clic; null en los totales y en "Otros"
+  concepto: string | null;
+  tipo: 'total' | 'alza' | 'baja' | 'otros';
+  // Monto del total o variación del concepto
+  valor: number;
+  // La barra flota entre base y base + alto
+  base: number;
+  alto: number;
+}
+
+const porVariacionAbsoluta = (a: ConceptoData, b: ConceptoData) => Math.abs(b.variacionS) - Math.abs(a.variacionS);
+
+// Del total anterior al actual: las N mayores alzas, las N mayores bajas y el resto sumado en "Otros"
+export function pasosCascada(data: ConceptoData[], totales: TotalesData, n: number, etiquetas: { anterior: string; actual: string }): PasoCascada[] {
+  const alzas = data.filter(item => item.variacionS > 0).sort(porVariacionAbsoluta).slice(0, n);
+  const bajas = data.filter(item => item.variacionS < 0).sort(porVariacionAbsoluta).slice(0, n);
+  const destacados = new Set([...alzas, ...bajas]);
+  const otros = data.filter(item => !destacados.has(item)).reduce((suma, item) => suma + item.variacionS, 0);
+
+  const pasos: PasoCascada[] = [
+    { etiqueta: etiquetas.anterior, concepto: null, tipo: 'total', valor: totales.montoAnterior, base: 0, alto: totales.montoAnterior }
+  ];
+  let acumulado = totales.montoAnterior;
+  const agregar = (etiqueta: string, concepto: string | null, tipo: PasoCascada['tipo'], valor: number) => {
+    pasos.push({ etiqueta, concepto, tipo, valor, base: Math.min(acumulado, acumulado + valor), alto: Math.abs(valor) });
+    acumulado += valor;
+  };
+  alzas.forEach(item => agregar(item.concepto, item.concepto, 'alza', item.variacionS));
+  bajas.forEach(item => agregar(item.concepto, item.concepto, 'baja', item.variacionS));
+  // Variaciones de menos de un sol se deben al redondeo de los montos
+  if (Math.abs(otros) >= 1) agregar(ETIQUETA_OTROS, null, 'otros', otros);
+  pasos.push({ etiqueta: etiquetas.actual, concepto: null, tipo: 'total', valor: totales.montoActual, base: 0, alto: totales.montoActual });
+  return pasos;
+}
+
+export interface FilaPareto {
+  etiqueta: string;
+  concepto: string | null;
+  variacion: number;
+  absoluta: number;
+  // Porcentajes de la variación absoluta total
+  participacion: number;
+  acumulada: number;
+}
+
+// Conceptos ordenados por variación absoluta, con su participación acumulada; el resto va en "Otros"
+export function filasPareto(data: ConceptoData[], n: number): FilaPareto[] {
+  const ordenados = data.filter(item => item.variacionS !== 0).sort(porVariacionAbsoluta);
+  const total = ordenados.reduce((suma, item) => suma + Math.abs(item.variacionS), 0);
+  if (!total) return [];
+
+  const resto = ordenados.slice(n);
+  const filas = ordenados.slice(0, n).map(item => ({ etiqueta: item.concepto, concepto: item.concepto, variacion: item.variacionS, absoluta: Math.abs(item.variacionS) }));
+  if (resto.length) {
+    filas.push({
+      etiqueta: `${ETIQUETA_OTROS} (${resto.length})`,
+      concepto: null,
+      variacion: resto.reduce((suma, item) => suma + item.variacionS, 0),
+      absoluta: resto.reduce((suma, item) => suma + Math.abs(item.variacionS), 0)
+    });
+  }
+
+  let acumulada = 0;
+  return filas.map(fila => {
+    acumulada += fila.absoluta;
+    return { ...fila, participacion: fila.absoluta / total * 100, acumulada: acumulada / total * 100 };
+  });
+}
+
+// Cuántos conceptos, de mayor a menor variación absoluta, suman el porcentaje indicado de la variación absoluta total
+export function conceptosParaCubrir(data: ConceptoData[], porcentaje: number) {
+  const absolutas = data.map(item => Math.abs(item.variacionS)).filter(Boolean).sort((a, b) => b - a);
+  const meta = absolutas.reduce((suma, valor) => suma + valor, 0) * porcentaje / 100;
+  let acumulada = 0;
+  const cantidad = absolutas.findIndex(valor => (acumulada += valor) >= meta - 1e-6);
+  return cantidad + 1;
+}
+
+export interface NodoMapa {
+  name: string;
+  concepto: string | null;
+  size: number;
+  variacionS: number;
+  variacionPorcentaje: number | null;
+  nuevo: boolean;
+}
+
+// Los N conceptos con mayor monto actual y el resto agrupado
+export function nodosMapa(data: ConceptoData[], n: number): NodoMapa[] {
+  const ordenados = data.filter(item => item.montoActual > 0).sort((a, b) => b.montoActual - a.montoActual);
+  const nodos: NodoMapa[] = ordenados.slice(0, n).map(item => ({
+    name: item.concepto,
+    concepto: item.concepto,
+    size: item.montoActual,
+    variacionS: item.variacionS,
+    variacionPorcentaje: item.variacionPorcentaje,
+    nuevo: item.nuevo
+  }));
+  const resto = ordenados.slice(n);
+  if (resto.length) {
+    const actual = resto.reduce((suma, item) => suma + item.montoActual, 0);
+    const anterior = resto.reduce((suma, item) => suma + item.montoAnterior, 0);
+    nodos.push({
+      name: `${ETIQUETA_OTROS} (${resto.length})`,
+      concepto: null,
+      size: actual,
+      variacionS: actual - anterior,
+      variacionPorcentaje: anterior > 0 ? (actual - anterior) / anterior * 100 : null,
+      nuevo: false
+    });
+  }
+  return nodos;
+}
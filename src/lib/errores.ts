@@ -0,0 +1,17 @@
+import { TipoErrorMef } from '../types';
+
+// Encabezado con que se presenta cada causa de falla al consultar el MEF
+export function tituloErrorMef(tipo?: TipoErrorMef | null, estado?: number) {
+  switch (tipo) {
+    case 'timeout':
+      return 'El MEF no respondió a tiempo';
+    case 'http':
+      return `El MEF respondió con un error${estado ? ` (HTTP ${estado})` : ''}`;
+    case 'red':
+      return 'No se pudo conectar con el MEF';
+    case 'parseo':
+      return 'No se pudo leer la página del MEF';
+    default:
+      return 'Error al procesar la consulta';
+  }
+}
@@ -0,0 +1,57 @@
+export type UnidadMonto = 'soles' | 'miles' | 'millones';
+
+export const UNIDADES: { id: UnidadMonto; etiqueta: string; divisor: number }[] = [
+  { id: 'soles', etiqueta: 'S/', divisor: 1 },
+  { id: 'miles', etiqueta: 'Miles de S/', divisor: 1000 },
+  { id: 'millones', etiqueta: 'Millones de S/', divisor: 1000000 }
+];
+
+// Preferencias de presentación: la API siempre entrega soles sin redondear
+export interface FormatoNumeros {
+  unidad: UnidadMonto;
+  decimales: number;
+}
+
+export const FORMATO_POR_DEFECTO: FormatoNumeros = { unidad: 'millones', decimales: 0 };
+
+export const formatNumber = (num: number, decimales = 0) => {
+  return new Intl.NumberFormat('es-PE', {
+    minimumFractionDigits: decimales,
+    maximumFractionDigits: decimales
+  }).format(num).replace(/,/g, ' ');
+};
+
+export const escalarMonto = (num: number, unidad: UnidadMonto) => {
+  return num / (UNIDADES.find(u => u.id === unidad)?.divisor ?? 1);
+};
+
+export const formatMonto = (num: number, formato: FormatoNumeros) => {
+  return formatNumber(escalarMonto(num, formato.unidad), formato.decimales);
+};
+
+export const formatPorcentaje = (num: number | null, nuevo = false) => {
+  if (nuevo) return 'Nuevo';
+  if (num === null) return '—';
+  const redondeado = Number(num.toFixed(1));
+  return `${redondeado > 0 ? '+' : ''}${redondeado.toLocaleString('es-PE')}%`;
+};
+
+export const unidadMetrica = (tipo: 'monto' | 'porcentaje', formato: FormatoNumeros) => {
+  return tipo === 'monto' ? UNIDADES.find(u => u.id === formato.unidad)!.etiqueta : 'Puntos porcentuales';
+};
+
+// Cifra sin símbolo, para celdas y ejes: los montos en la unidad elegida, los porcentajes con un decimal
+export const formatCifra = (num: number, tipo: 'monto' | 'porcentaje', formato: FormatoNumeros) => {
+  return tipo === 'monto' ? formatMonto(num, formato) : formatNumber(num, 1);
+};
+
+export const formatValor = (num: number, tipo: 'monto' | 'porcentaje', formato: FormatoNumeros) => {
+  return tipo === 'monto' ? `S/ ${formatMonto(num, formato)}` : `${formatNumber(num, 1)}%`;
+};
+
+export const formatVariacion = (num: number, tipo: 'monto' | 'porcentaje', formato: FormatoNumeros) => {
+  const formatted = formatCifra(Math.abs(num), tipo, formato);
+  // Una variación que se redondea a cero no lleva signo
+  if (/^[0 .]*$/.test(formatted)) return formatted;
+  return num > 0 ? `+${formatted}` : `-${formatted}`;
+};
@@ -0,0 +1,32 @@
+export type ModoLote = 'urls' | 'codigos';
+
+export interface ListaLote {
+  modo: ModoLote;
+  // URL con el marcador {codigo}, solo en el modo por códigos
+  plantilla: string;
+  texto: string;
+}
+
+export interface EntidadLote {
+  etiqueta?: string;
+  url?: string;
+  codigo?: string;
+}
+
+const esUrl = (texto: string) => /^(https?|archivo):\/\//i.test(texto);
+
+// Una entidad por línea: "valor" o "valor | etiqueta" (también separado por tabulador, como al pegar desde Excel).
+// En el modo por URLs el orden de las columnas no importa: la que parece URL es la URL.
+export function entidadesDesdeTexto(entrada: ListaLote): EntidadLote[] {
+  return entrada.texto
+    .split(/\r?\n/)
+    .map(linea => linea.split(/\t|\|/).map(parte => parte.trim()).filter(Boolean))
+    .filter(partes => partes.length > 0)
+    .map(partes => {
+      if (entrada.modo === 'codigos') {
+        return { codigo: partes[0], etiqueta: partes[1] };
+      }
+      const url = partes.find(esUrl) ?? partes[0];
+      return { url, etiqueta: partes.find(parte => parte !== url) };
+    });
+}
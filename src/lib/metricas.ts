@@ -0,0 +1,121 @@
+import type { TipoConsulta } from '../types';
+
+// Columnas de ejecución que publica Consulta Amigable en table.Data; las consultas de ingreso
+// traen PIA, PIM y recaudado
+export interface FilaMef {
+  pia: number;
+  pim: number;
+  certificacion: number;
+  compromisoAnual: number;
+  atencionCompromisoMensual: number;
+  devengado: number;
+  girado: number;
+  avance: number;
+  recaudado: number;
+}
+
+export type ColumnaMef = keyof FilaMef;
+
+export const COLUMNAS_MEF: ColumnaMef[] = [
+  'pia',
+  'pim',
+  'certificacion',
+  'compromisoAnual',
+  'atencionCompromisoMensual',
+  'devengado',
+  'girado',
+  'avance',
+  'recaudado'
+];
+
+// Columna que mide la ejecución en cada tipo de consulta
+export const COLUMNA_EJECUCION: Record<TipoConsulta, ColumnaMef> = {
+  gasto: 'devengado',
+  ingreso: 'recaudado'
+};
+
+export type MetricaId = ColumnaMef | 'ejecucionPim' | 'recaudacionPim' | 'modificaciones';
+
+export interface Metrica {
+  id: MetricaId;
+  etiqueta: string;
+  abreviatura: string;
+  tipo: 'monto' | 'porcentaje';
+  requiere: ColumnaMef[];
+  // Tipos de consulta cuyas páginas traen las columnas de la métrica
+  tipos: TipoConsulta[];
+  valor: (fila: FilaMef) => number;
+}
+
+const ratio = (numerador: number, denominador: number) =>
+  denominador !== 0 ? (numerador / denominador) * 100 : 0;
+
+export const METRICAS: Metrica[] = [
+  { id: 'pia', etiqueta: 'PIA', abreviatura: 'PIA', tipo: 'monto', requiere: ['pia'], tipos: ['gasto', 'ingreso'], valor: fila => fila.pia },
+  { id: 'pim', etiqueta: 'PIM', abreviatura: 'PIM', tipo: 'monto', requiere: ['pim'], tipos: ['gasto', 'ingreso'], valor: fila => fila.pim },
+  { id: 'certificacion', etiqueta: 'Certificación', abreviatura: 'CERT', tipo: 'monto', requiere: ['certificacion'], tipos: ['gasto'], valor: fila => fila.certificacion },
+  { id: 'compromisoAnual', etiqueta: 'Compromiso Anual', abreviatura: 'COMP', tipo: 'monto', requiere: ['compromisoAnual'], tipos: ['gasto'], valor: fila => fila.compromisoAnual },
+  { id: 'atencionCompromisoMensual', etiqueta: 'Atención de Compromiso Mensual', abreviatura: 'ACM', tipo: 'monto', requiere: ['atencionCompromisoMensual'], tipos: ['gasto'], valor: fila => fila.atencionCompromisoMensual },
+  { id: 'devengado', etiqueta: 'Devengado', abreviatura: 'DEV', tipo: 'monto', requiere: ['devengado'], tipos: ['gasto'], valor: fila => fila.devengado },
+  { id: 'girado', etiqueta: 'Girado', abreviatura: 'GIR', tipo: 'monto', requiere: ['girado'], tipos: ['gasto'], valor: fila => fila.girado },
+  { id: 'avance', etiqueta: 'Avance %', abreviatura: 'AV', tipo: 'porcentaje', requiere: ['avance'], tipos: ['gasto'], valor: fila => fila.avance },
+  { id: 'ejecucionPim', etiqueta: 'Devengado / PIM', abreviatura: 'DEV/PIM', tipo: 'porcentaje', requiere: ['devengado', 'pim'], tipos: ['gasto'], valor: fila => ratio(fila.devengado, fila.pim) },
+  { id: 'recaudado', etiqueta: 'Recaudado', abreviatura: 'REC', tipo: 'monto', requiere: ['recaudado'], tipos: ['ingreso'], valor: fila => fila.recaudado },
+  { id: 'recaudacionPim', etiqueta: 'Recaudado / PIM', abreviatura: 'REC/PIM', tipo: 'porcentaje', requiere: ['recaudado', 'pim'], tipos: ['ingreso'], valor: fila => ratio(fila.recaudado, fila.pim) },
+  { id: 'modificaciones', etiqueta: 'Modificaciones (PIM − PIA)', abreviatura: 'MOD', tipo: 'monto', requiere: ['pim', 'pia'], tipos: ['gasto', 'ingreso'], valor: fila => fila.pim - fila.pia }
+];
+
+export const METRICA_POR_DEFECTO: MetricaId = 'devengado';
+
+export function getMetrica(id: string): Metrica | undefined {
+  return METRICAS.find(metrica => metrica.id === id);
+}
+
+// Métricas de gasto y su equivalente en una consulta de ingreso
+const EQUIVALENTES_INGRESO: [MetricaId, MetricaId][] = [
+  ['devengado', 'recaudado'],
+  ['ejecucionPim', 'recaudacionPim']
+];
+
+// La métrica pedida si aplica al tipo de consulta, su equivalente en el otro tipo, o undefined
+export function metricaParaTipo(id: MetricaId, tipo: TipoConsulta): MetricaId | undefined {
+  if (getMetrica(id)?.tipos.includes(tipo)) return id;
+  const par = EQUIVALENTES_INGRESO.find(([gasto, ingreso]) => gasto === id || ingreso === id);
+  if (!par) return undefined;
+  return tipo === 'ingreso' ? par[1] : par[0];
+}
+
+export function filaVacia(): FilaMef {
+  return {
+    pia: 0,
+    pim: 0,
+    certificacion: 0,
+    compromisoAnual: 0,
+    atencionCompromisoMensual: 0,
+    devengado: 0,
+    girado: 0,
+    avance: 0,
+    recaudado: 0
+  };
+}
+
+// Suma columna por columna; el avance no es sumable y se recalcula sobre los totales
+export function sumarFilas(filas: FilaMef[]): FilaMef {
+  const total = filaVacia();
+  for (const fila of filas) {
+    for (const columna of COLUMNAS_MEF) {
+      total[columna] += fila[columna];
+    }
+  }
+  total.avance = ratio(total.devengado, total.pim);
+  return total;
+}
+
+// Métricas que siguen siendo válidas cuando la ejecución se acumula hasta un mes de corte
+export const METRICAS_ACUMULABLES: MetricaId[] = ['devengado', 'avance', 'ejecucionPim', 'recaudado', 'recaudacionPim'];
+
+// Reemplaza la ejecución anual (devengado o recaudado) por el acumulado de enero al mes de corte
+export function acumularHastaMes(fila: FilaMef, mensual: number[], mesCorte: number, columna: ColumnaMef = 'devengado'): FilaMef {
+  const acumulado = mensual.slice(0, mesCorte).reduce((sum, monto) => sum + monto, 0);
+  return { ...fila, [columna]: acumulado, avance: ratio(acumulado, fila.pim) };
+}
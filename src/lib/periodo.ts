@@ -0,0 +1,24 @@
+export const MESES = [
+  'Enero', 'Febrero', 'Marzo', 'Abril', 'Mayo', 'Junio',
+  'Julio', 'Agosto', 'Setiembre', 'Octubre', 'Noviembre', 'Diciembre'
+];
+
+export type TipoPeriodo = 'anual' | 'acumulado';
+
+export interface Periodo {
+  tipo: TipoPeriodo;
+  // Último mes incluido (1-12) cuando el periodo es acumulado
+  mesCorte?: number;
+}
+
+// Último mes cerrado para el año consultado: el mes anterior al actual, o diciembre en años pasados
+export function mesCerradoPorDefecto(year: number, hoy = new Date()) {
+  if (year < hoy.getFullYear()) return 12;
+  return Math.max(hoy.getMonth(), 1);
+}
+
+export function etiquetaPeriodo(periodo: Periodo) {
+  if (periodo.tipo !== 'acumulado' || !periodo.mesCorte) return 'Año completo';
+  const fin = MESES[periodo.mesCorte - 1];
+  return periodo.mesCorte === 1 ? 'Enero' : `Enero–${fin}`;
+}
@@ -0,0 +1,40 @@
+import { EstadoProyeccion, ProyeccionConcepto, ProyeccionData } from '../types';
+import { FormatoNumeros, formatValor } from './format';
+import { MESES } from './periodo';
+
+export const ESTADOS_PROYECCION: Record<EstadoProyeccion, { etiqueta: string; estilo: string; color: string }> = {
+  en_camino: { etiqueta: 'En camino', estilo: 'bg-emerald-100 dark:bg-emerald-900/30 text-emerald-700 dark:text-emerald-400', color: '#059669' },
+  rezagado: { etiqueta: 'Rezagado', estilo: 'bg-amber-100 dark:bg-amber-900/30 text-amber-700 dark:text-amber-400', color: '#d97706' },
+  en_riesgo: { etiqueta: 'En riesgo', estilo: 'bg-rose-100 dark:bg-rose-900/30 text-rose-700 dark:text-rose-400', color: '#e11d48' }
+};
+
+const rangoYears = (years: number[]) => years.length > 1 ? `${years[0]}–${years[years.length - 1]}` : String(years[0]);
+
+// Explicación del método para los tooltips de la columna y del gráfico
+export function metodoProyeccion(proyeccion: ProyeccionData, ejecucion: string) {
+  const mes = MESES[proyeccion.mesCorte - 1].toLowerCase();
+  return [
+    `El ${ejecucion.toLowerCase()} acumulado a ${mes} se divide entre la parte del año que, en promedio, ya se había ejecutado a ${mes} en ${rangoYears(proyeccion.yearsHistoria)}.`,
+    'Cada concepto usa su propio perfil mensual si tiene al menos dos años con ejecución; si no, el del total de la consulta.',
+    'La banda va de la proyección con el perfil del año más lento a la del más rápido.',
+    `En camino: se proyecta al menos el ${proyeccion.meta}% del PIM. En riesgo: ni con el año más rápido llega al ${proyeccion.meta}%. Rezagado: el resto.`
+  ].join('\n');
+}
+
+export function detalleProyeccion(item: ProyeccionConcepto, mesCorte: number, formato: FormatoNumeros) {
+  const valor = (monto: number) => formatValor(monto, 'monto', formato);
+  return [
+    `Acumulado a ${MESES[mesCorte - 1].toLowerCase()}: ${valor(item.acumulado)}`,
+    `Cierre proyectado: ${valor(item.proyeccion)} (entre ${valor(item.minimo)} y ${valor(item.maximo)})`,
+    `PIM: ${valor(item.pim)}`,
+    `Perfil ${item.perfil === 'propio' ? 'propio' : 'del total'} de ${item.years} ${item.years === 1 ? 'año' : 'años'}`
+  ].join('\n');
+}
+
+// Ejecución acumulada esperada en un mes posterior al corte si el año cierra en `cierre`: lo que falta
+// se reparte según el perfil estacional promedio
+export function trayectoria(item: ProyeccionConcepto, cierre: number, mes: number, mesCorte: number) {
+  const base = item.curva[mesCorte - 1];
+  if (base >= 1) return cierre;
+  return item.acumulado + (cierre - item.acumulado) * (item.curva[mes - 1] - base) / (1 - base);
+}
@@ -0,0 +1,14 @@
+import { EstadoTrabajo } from '../types';
+
+export const ESTADOS_TRABAJO: Record<EstadoTrabajo, string> = {
+  pendiente: 'En cola',
+  en_curso: 'En curso',
+  completado: 'Completado',
+  error: 'Con error',
+  cancelado: 'Cancelado'
+};
+
+// Un trabajo en estado final ya no cambia ni emite más avisos
+export function esFinal(estado: EstadoTrabajo) {
+  return estado === 'completado' || estado === 'error' || estado === 'cancelado';
+}
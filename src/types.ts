@@ -0,0 +1,383 @@
+import { MetricaId } from './lib/metricas';
+import { Periodo } from './lib/periodo';
+import { FormatoNumeros } from './lib/format';
+
+export type MetodoEmparejamiento = 'manual' | 'codigo' | 'similitud';
+
+// Nombre con el que el concepto aparecía en un año anterior y cómo se unió
+export interface Emparejamiento {
+  year: number;
+  concepto: string;
+  metodo: MetodoEmparejamiento;
+  similitud?: number;
+}
+
+export interface MapeoConcepto {
+  id: number;
+  anterior: string;
+  nuevo: string;
+  creadoEn: string;
+}
+
+export interface ConceptoData {
+  concepto: string;
+  montoAnterior: number;
+  montoActual: number;
+  variacionS: number;
+  variacionPorcentaje: number | null;
+  nuevo: boolean;
+  desglosable?: boolean;
+  emparejamientos: Emparejamiento[];
+}
+
+export interface VariacionAnual {
+  year: number;
+  variacionS: number;
+  variacionPorcentaje: number | null;
+  nuevo: boolean;
+}
+
+export interface SerieConcepto {
+  concepto: string;
+  montos: number[];
+  variaciones: VariacionAnual[];
+  cagr: number | null;
+  yearMax: number;
+  yearMin: number;
+  emparejamientos: Emparejamiento[];
+}
+
+export interface SerieData {
+  years: number[];
+  totales: { year: number; monto: number }[];
+  data: SerieConcepto[];
+}
+
+export interface MetricaInfo {
+  id: MetricaId;
+  etiqueta: string;
+  abreviatura: string;
+  tipo: 'monto' | 'porcentaje';
+}
+
+export interface TotalesData {
+  montoAnterior: number;
+  montoActual: number;
+  variacionS: number;
+  variacionPorcentaje: number | null;
+  nuevo: boolean;
+}
+
+export interface NivelData {
+  id: string;
+  etiqueta: string;
+}
+
+export interface FuenteData {
+  url: string;
+  year: number;
+  fetchedAt: string;
+  origen: 'cache' | 'red' | 'archivo';
+}
+
+export interface CargaArchivosData {
+  grupo: string;
+  url: string;
+  years: number[];
+  paginas: { nombre: string; year: number; conceptos: number }[];
+}
+
+export interface ComparacionData {
+  data: ConceptoData[];
+  totales: TotalesData;
+  serie: SerieData;
+}
+
+export interface DeflactorData extends ComparacionData {
+  deflactor: string;
+  yearBase: number;
+  factores: Record<number, number>;
+  // Años posteriores al último índice de la serie, deflactados con ese último índice
+  estimados: number[];
+}
+
+// Uno de los dos lados de una comparación entre consultas arbitrarias
+export interface ConsultaComparada {
+  etiqueta: string;
+  url: string;
+}
+
+export type EstadoProyeccion = 'en_camino' | 'rezagado' | 'en_riesgo';
+
+// Cierre de año proyectado de un concepto a partir de su ejecución mensual y del perfil estacional histórico
+export interface ProyeccionConcepto {
+  // Ejecución de enero al mes de corte del año actual
+  acumulado: number;
+  pim: number;
+  proyeccion: number;
+  // Banda de incertidumbre: la proyección si el año siguiera el perfil del año histórico más lento y del más rápido
+  minimo: number;
+  maximo: number;
+  // Proyección como porcentaje del PIM; null sin PIM
+  avanceProyectado: number | null;
+  estado: EstadoProyeccion | null;
+  // Perfil del propio concepto o, con poca historia, el del total de la consulta
+  perfil: 'propio' | 'agregado';
+  // Años históricos con que se calculó el perfil
+  years: number;
+  // Participación acumulada promedio de enero a diciembre (0 a 1)
+  curva: number[];
+  // Ejecución acumulada del año actual, de enero al mes de corte
+  mensual: number[];
+}
+
+export interface ProyeccionData {
+  year: number;
+  mesCorte: number;
+  // Porcentaje del PIM a partir del cual un concepto va en camino
+  meta: number;
+  yearsHistoria: number[];
+  total: ProyeccionConcepto;
+  conceptos: Record<string, ProyeccionConcepto>;
+}
+
+export interface ApiResponse {
+  yearActual: number;
+  yearAnterior: number;
+  // Etiquetas del usuario cuando se comparan dos consultas explícitas
+  etiquetas: { anterior: string; actual: string } | null;
+  // Tipo de consulta detectado en las páginas; decide si la ejecución es devengado o recaudado
+  tipo: TipoConsulta;
+  periodo: Periodo & { etiqueta: string };
+  metrica: MetricaInfo;
+  data: ConceptoData[];
+  totales: TotalesData;
+  real: DeflactorData | null;
+  niveles: NivelData[];
+  fuentes: FuenteData[];
+  serie: SerieData;
+  // Solo con la vista mensual, años anteriores en la serie y el año actual en curso
+  proyeccion: ProyeccionData | null;
+}
+
+// Resultado de una entidad en la comparación por lote; un error no detiene el resto
+export type ResultadoLote =
+  | {
+      etiqueta: string;
+      url: string;
+      ok: true;
+      yearAnterior: number;
+      yearActual: number;
+      metrica: MetricaInfo;
+      periodo: Periodo & { etiqueta: string };
+      conceptos: number;
+      totales: TotalesData;
+      alzas: ConceptoData[];
+      bajas: ConceptoData[];
+    }
+  | {
+      etiqueta: string;
+      url: string;
+      ok: false;
+      error: string;
+      tipoError?: TipoErrorMef;
+    };
+
+export interface LoteData {
+  resultados: ResultadoLote[];
+}
+
+// Causa de una falla al consultar el MEF, para mostrar un mensaje distinto en cada caso
+export type TipoErrorMef = 'timeout' | 'http' | 'red' | 'parseo';
+
+export type TipoTrabajo = 'comparar' | 'lote';
+export type EstadoTrabajo = 'pendiente' | 'en_curso' | 'completado' | 'error' | 'cancelado';
+
+// Avance de un trabajo: cada página obtenida y, en un lote, cada entidad terminada
+export type EventoProgreso =
+  | {
+      tipo: 'pagina';
+      year: number;
+      rotulo: string;
+      filas: number;
+      origen: FuenteData['origen'];
+      completadas: number;
+      total: number;
+      // Entidad del lote a la que pertenece la página
+      entidad?: string;
+    }
+  | {
+      tipo: 'entidad';
+      etiqueta: string;
+      ok: boolean;
+      error?: string;
+      completadas: number;
+      total: number;
+    };
+
+export interface ProgresoTrabajo {
+  completadas: number;
+  total: number;
+  mensaje: string;
+  // Últimos eventos, del más antiguo al más reciente
+  eventos: EventoProgreso[];
+}
+
+export interface Trabajo {
+  id: string;
+  tipo: TipoTrabajo;
+  estado: EstadoTrabajo;
+  descripcion: string;
+  // Cuerpo de /api/comparar o /api/lote con que se creó el trabajo
+  parametros: any;
+  progreso: ProgresoTrabajo;
+  // Un lote guarda los resultados parciales mientras avanza; el listado no incluye resultados
+  resultado?: ApiResponse | LoteData | null;
+  error: string | null;
+  tipoError: TipoErrorMef | null;
+  creadoEn: string;
+  actualizadoEn: string;
+}
+
+export type TipoConsulta = 'gasto' | 'ingreso';
+
+// Consulta de Consulta Amigable armada desde el formulario; un filtro vacío abarca todo
+export interface CamposConsulta {
+  year: number;
+  tipo: TipoConsulta;
+  nivelGobierno: string;
+  sector: string;
+  pliego: string;
+  dimension: string;
+}
+
+export interface OpcionConsulta {
+  codigo: string;
+  nombre: string;
+}
+
+export interface ConsultaConstruida {
+  url: string;
+  campos: CamposConsulta;
+  // Filas de la página armada; sirven de opciones para el filtro del nivel siguiente
+  opciones: OpcionConsulta[];
+  // Dimensiones por las que se puede agrupar desde esa página
+  dimensiones: string[];
+}
+
+// Cómo se veía la tabla al guardar un análisis: filtro, orden, unidades, montos y ruta de desglose
+export interface VistaAnalisis {
+  filtro: string;
+  orden: { key: keyof ConceptoData; direction: 'asc' | 'desc' } | null;
+  formato: FormatoNumeros;
+  montos: 'nominal' | 'real';
+  ruta: { etiqueta: string; url: string }[];
+}
+
+export interface AnalisisGuardado {
+  id: string;
+  nombre: string;
+  notas: string;
+  // Cuerpo de /api/comparar con que se obtuvieron los datos
+  parametros: any;
+  vista: VistaAnalisis;
+  // Resultado tal como se capturó; el listado no lo incluye
+  datos?: ApiResponse;
+  creadoEn: string;
+}
+
+export type CampoRegla = 'actual' | 'variacionPorcentaje' | 'variacionS';
+
+// Condición que genera una notificación al actualizar una consulta vigilada, por ejemplo
+// "avance menor que 40 desde setiembre" o "variación % menor que −20"
+export interface ReglaAlerta {
+  campo: CampoRegla;
+  operador: 'menor' | 'mayor';
+  // En la unidad de la métrica: soles para montos, puntos porcentuales para porcentajes
+  umbral: number;
+  alcance: 'total' | 'conceptos';
+  // Solo los conceptos que contienen este texto; vacío evalúa todos
+  filtro: string;
+  // La regla se evalúa a partir de este mes del año (1-12); null la evalúa siempre
+  desdeMes: number | null;
+}
+
+export interface Vigilancia {
+  id: number;
+  nombre: string;
+  // Cuerpo de /api/comparar que se vuelve a ejecutar en cada actualización
+  parametros: any;
+  reglas: ReglaAlerta[];
+  frecuenciaHoras: number;
+  ultimaEjecucion: string | null;
+  proximaEjecucion: string;
+  ultimoError: string | null;
+  // Conceptos que cumplen alguna regla en la última actualización
+  alertasActivas: number;
+  creadoEn: string;
+}
+
+export interface Notificacion {
+  id: number;
+  vigilanciaId: number | null;
+  vigilancia: string;
+  concepto: string;
+  mensaje: string;
+  creadoEn: string;
+  leida: boolean;
+}
+
+// Totales de una de las dos páginas de la vista de ingresos y gastos; la ejecución es el recaudado
+// en la de ingreso y el devengado en la de gasto
+export interface LadoBalance {
+  url: string;
+  fetchedAt: string;
+  origen: FuenteData['origen'];
+  // Dimensión por la que se agrupan las filas, si se reconoce
+  dimension: string | null;
+  conceptos: number;
+  pia: number;
+  pim: number;
+  ejecucion: number;
+}
+
+export interface ConceptoBalance {
+  concepto: string;
+  recaudado: number;
+  devengado: number;
+  // Recaudado menos devengado
+  saldo: number;
+}
+
+// Ingresos frente a gastos de una misma entidad y año
+export interface BalanceData {
+  year: number;
+  ingreso: LadoBalance;
+  gasto: LadoBalance;
+  // Ingreso menos gasto en cada columna
+  saldo: { pia: number; pim: number; ejecucion: number };
+  // Solo cuando ambas páginas se agrupan por la misma dimensión (p. ej. rubro o fuente)
+  conceptos: ConceptoBalance[] | null;
+}
+
+// Comparación que se envía a /api/resumen: la que se ve en pantalla, con montos nominales o reales
+export type ComparacionResumen = Pick<ApiResponse, 'metrica' | 'yearAnterior' | 'yearActual' | 'etiquetas' | 'periodo' | 'data' | 'totales'> & {
+  // Año base cuando los montos están a precios constantes
+  yearBase?: number | null;
+};
+
+// Cifra citada en un resumen narrativo; las que no coinciden con los datos de la comparación se marcan
+export interface CifraResumen {
+  texto: string;
+  // Posición en el texto del resumen
+  inicio: number;
+  verificada: boolean;
+}
+
+export interface ResumenComparacion {
+  texto: string;
+  proveedor: string;
+  modelo: string | null;
+  cifras: CifraResumen[];
+  generadoEn: string;
+}